@@ -0,0 +1,41 @@
+import { useEffect, useState } from "react";
+import type { CastStarted } from "@shared/abilities";
+
+interface CastBarProps {
+  cast: CastStarted;
+}
+
+// Progress of the local player's charge or channel; channels drain instead of fill
+export function CastBar({ cast }: CastBarProps) {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    let frame = requestAnimationFrame(function tick() {
+      setNow(Date.now());
+      frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, []);
+
+  const duration = Math.max(1, cast.endsAt - cast.startedAt);
+  const progress = Math.max(0, Math.min(1, (now - cast.startedAt) / duration));
+  const width = cast.kind === "channel" ? 1 - progress : progress;
+  const secondsLeft = Math.max(0, (cast.endsAt - now) / 1000);
+
+  return (
+    <div className="absolute bottom-24 left-1/2 transform -translate-x-1/2 z-10 floating-ui rounded-lg p-2 w-72" data-testid="cast-bar">
+      <div className="flex justify-between text-xs mb-1">
+        <span className="font-medium" data-testid="cast-bar-name">
+          {cast.kind === "channel" ? "Channeling" : "Casting"} {cast.abilityName}
+        </span>
+        <span className="text-muted-foreground">{secondsLeft.toFixed(1)}s</span>
+      </div>
+      <div className="w-full bg-muted rounded-full h-2">
+        <div
+          className={`h-2 rounded-full ${cast.kind === "channel" ? "bg-sky-400" : "bg-purple-400"}`}
+          style={{ width: `${width * 100}%` }}
+        />
+      </div>
+    </div>
+  );
+}
@@ -1,46 +1,77 @@
-import { GamePlayer, CommunityResources } from "@/lib/gameTypes";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { GamePlayer } from "@/lib/gameTypes";
+import { GLOBAL_COOLDOWN_KEY, GLOBAL_COOLDOWN_MS, type AbilityDefinition } from "@shared/abilities";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { ABILITY_PROGRESS_QUERY_KEY, useAbilityProgress } from "@/hooks/use-ability-progress";
+import { AUTH_QUERY_KEY } from "@/hooks/use-auth";
+import { useCooldowns } from "@/hooks/use-cooldowns";
+import { CooldownSweep } from "@/components/CooldownSweep";
+import type { CommunityResourcesSnapshot, ResourceSource } from "@shared/communityResources";
+import type { CommunityResourceChange } from "@shared/schema";
+
+const RESOURCE_SOURCE_LABELS: Record<ResourceSource, string> = {
+  hunting: "Hunting",
+  gathering: "Gathering",
+  crafting: "Crafting",
+  upkeep: "Upkeep",
+  recovery: "Land recovered",
+  contribution: "Contributed",
+  reward: "Reward",
+};
+
+// Changes the sidebar has room for
+const SHOWN_RESOURCE_CHANGES = 5;
+
+// "+4 food, -2% sustainability"
+function describeResourceChange(change: CommunityResourceChange): string {
+  const signed = (amount: number) => (amount > 0 ? `+${amount}` : `${amount}`);
+  const parts: string[] = [];
+  if (change.food) parts.push(`${signed(change.food)} food`);
+  if (change.materials) parts.push(`${signed(change.materials)} materials`);
+  if (change.sustainability) parts.push(`${signed(change.sustainability)}% sustainability`);
+  return parts.join(", ");
+}
 
 interface CharacterPanelProps {
   player: GamePlayer;
-  resources: CommunityResources;
+  // Undefined until loaded
+  resources?: CommunityResourcesSnapshot;
   onUseAbility: (abilityName: string) => void;
 }
 
 export function CharacterPanel({ player, resources, onUseAbility }: CharacterPanelProps) {
-  const abilities = [
-    {
-      id: "stone_bullet",
-      name: "Stone Bullet",
-      icon: "fas fa-meteor",
-      cost: 50,
-      requiredLevel: 1,
-      description: "Flicks pebbles with lethal force"
+  // Same definitions the server uses, from shared/abilities.json
+  const { data: abilities = [] } = useQuery<AbilityDefinition[]>({
+    queryKey: ["/api/abilities"],
+    staleTime: Infinity,
+  });
+  const progress = useAbilityProgress();
+  const cooldowns = useCooldowns(player.id);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Learning and upgrading share one endpoint shape: POST /api/abilities/:id/<action>
+  const abilityChangeMutation = useMutation({
+    mutationFn: async ({ abilityId, action }: { abilityId: string; action: "learn" | "upgrade" }) => {
+      const res = await apiRequest("POST", `/api/abilities/${abilityId}/${action}`, {});
+      return res.json() as Promise<{ message: string }>;
     },
-    {
-      id: "wind_manipulation",
-      name: "Wind Manipulation", 
-      icon: "fas fa-wind",
-      cost: 75,
-      requiredLevel: 15,
-      description: "Creates powerful pressure waves"
+    onSuccess: (result) => {
+      toast({ title: "Abilities", description: result.message });
+      queryClient.invalidateQueries({ queryKey: ABILITY_PROGRESS_QUERY_KEY });
+      // Skill books are used up when learning from them
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
+      queryClient.invalidateQueries({ queryKey: AUTH_QUERY_KEY });
     },
-    {
-      id: "ground_dig_up",
-      name: "Ground Dig-Up",
-      icon: "fas fa-shield-alt", 
-      cost: 100,
-      requiredLevel: 60,
-      description: "Raises earth as shields"
+    onError: (error: any) => {
+      toast({
+        title: "Ability Change Failed",
+        description: error.message || "Could not change ability",
+        variant: "destructive",
+      });
     },
-    {
-      id: "aura_release",
-      name: "Aura Release",
-      icon: "fas fa-fist-raised",
-      cost: 200,
-      requiredLevel: 85,
-      description: "Massive stored aura release"
-    }
-  ];
+  });
 
   const getHealthPercentage = () => Math.floor((player.health / player.maxHealth) * 100);
   const getAuraPercentage = () => Math.floor((player.aura / player.maxAura) * 100);
@@ -129,35 +160,71 @@ export function CharacterPanel({ player, resources, onUseAbility }: CharacterPan
 
       {/* Aura Abilities */}
       <div className="mb-6">
-        <h3 className="font-fantasy text-lg font-semibold mb-3 text-primary">Aura Abilities</h3>
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="font-fantasy text-lg font-semibold text-primary">Aura Abilities</h3>
+          <span className="text-xs text-accent" data-testid="ability-points">
+            {progress?.abilityPoints ?? 0} point{progress?.abilityPoints === 1 ? "" : "s"}
+          </span>
+        </div>
         
         <div className="grid grid-cols-2 gap-2">
           {abilities.map(ability => {
-            const isUnlocked = player.level >= ability.requiredLevel;
-            const hasEnoughAura = player.aura >= ability.cost;
-            const canUse = isUnlocked && hasEnoughAura;
+            const abilityProgress = progress?.abilities.find(entry => entry.id === ability.id);
+            const state = abilityProgress?.state ?? "locked";
+            const isOwned = state === "owned";
+            const hasEnoughAura = player.aura >= ability.auraCost;
+            // Whichever ends later shows: the ability's own cooldown or the global one
+            const ownReadyAt = cooldowns[ability.id] ?? 0;
+            const globalReadyAt = cooldowns[GLOBAL_COOLDOWN_KEY] ?? 0;
+            const readyAt = Math.max(ownReadyAt, globalReadyAt);
+            const sweepDuration = ownReadyAt >= globalReadyAt ? ability.cooldown : GLOBAL_COOLDOWN_MS;
+            const canUse = isOwned && hasEnoughAura;
             
             return (
-              <button
-                key={ability.id}
-                className={`p-3 rounded-lg transition-all ${
-                  canUse 
-                    ? 'bg-secondary hover:bg-secondary/80 combat-ready' 
-                    : 'bg-secondary/50 opacity-50 cursor-not-allowed'
-                }`}
-                onClick={() => canUse && onUseAbility(ability.id)}
-                disabled={!canUse}
-                data-testid={`ability-${ability.id}`}
-                title={ability.description}
-              >
-                <div className="text-center">
-                  <i className={`${ability.icon} text-2xl ${canUse ? 'text-primary' : 'text-muted-foreground'} mb-2`}></i>
-                  <div className="text-sm font-medium">{ability.name}</div>
-                  <div className="text-xs text-muted-foreground">
-                    {isUnlocked ? `Cost: ${ability.cost} Aura` : `Level ${ability.requiredLevel}`}
+              <div key={ability.id} className="flex flex-col" data-testid={`ability-slot-${ability.id}`}>
+                <button
+                  className={`relative p-3 rounded-lg transition-all ${
+                    canUse 
+                      ? 'bg-secondary hover:bg-secondary/80 combat-ready' 
+                      : 'bg-secondary/50 opacity-50 cursor-not-allowed'
+                  }`}
+                  onClick={() => canUse && onUseAbility(ability.id)}
+                  disabled={!canUse}
+                  data-testid={`ability-${ability.id}`}
+                  title={abilityProgress?.requirement ?? ability.description}
+                >
+                  <div className="text-center">
+                    <i className={`${ability.icon} text-2xl ${canUse ? 'text-primary' : 'text-muted-foreground'} mb-2`}></i>
+                    <div className="text-sm font-medium">{ability.name}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {isOwned
+                        ? `Rank ${abilityProgress!.rank}/${abilityProgress!.maxRank} · ${ability.auraCost} Aura`
+                        : state === "unlockable" ? "Can be learned" : `Level ${ability.requiredLevel}`}
+                    </div>
                   </div>
-                </div>
-              </button>
+                  {readyAt > 0 && <CooldownSweep readyAt={readyAt} duration={sweepDuration} />}
+                </button>
+                {state === "unlockable" && (
+                  <button
+                    className="mt-1 text-xs rounded bg-accent/20 text-accent hover:bg-accent/30 py-1"
+                    onClick={() => abilityChangeMutation.mutate({ abilityId: ability.id, action: "learn" })}
+                    disabled={abilityChangeMutation.isPending}
+                    data-testid={`button-learn-${ability.id}`}
+                  >
+                    Learn
+                  </button>
+                )}
+                {abilityProgress?.canUpgrade && (
+                  <button
+                    className="mt-1 text-xs rounded bg-primary/20 text-primary hover:bg-primary/30 py-1"
+                    onClick={() => abilityChangeMutation.mutate({ abilityId: ability.id, action: "upgrade" })}
+                    disabled={abilityChangeMutation.isPending}
+                    data-testid={`button-upgrade-${ability.id}`}
+                  >
+                    Upgrade
+                  </button>
+                )}
+              </div>
             );
           })}
         </div>
@@ -167,39 +234,62 @@ export function CharacterPanel({ player, resources, onUseAbility }: CharacterPan
       <div className="mb-6">
         <h3 className="font-fantasy text-lg font-semibold mb-3 text-accent">Community Resources</h3>
         
-        <div className="space-y-3">
-          <div className="flex items-center justify-between bg-muted/20 rounded p-2" data-testid="resource-food">
-            <div className="flex items-center space-x-2">
-              <i className="fas fa-seedling text-accent"></i>
-              <span className="text-sm">Food Production</span>
+        {!resources ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between bg-muted/20 rounded p-2" data-testid="resource-food">
+              <div className="flex items-center space-x-2">
+                <i className="fas fa-seedling text-accent"></i>
+                <span className="text-sm">Food Production</span>
+              </div>
+              <span className="text-sm font-medium">{resources.food.toLocaleString()}</span>
             </div>
-            <span className="text-sm font-medium">{resources.food.toLocaleString()}</span>
-          </div>
           
-          <div className="flex items-center justify-between bg-muted/20 rounded p-2" data-testid="resource-materials">
-            <div className="flex items-center space-x-2">
-              <i className="fas fa-hammer text-primary"></i>
-              <span className="text-sm">Building Materials</span>
+            <div className="flex items-center justify-between bg-muted/20 rounded p-2" data-testid="resource-materials">
+              <div className="flex items-center space-x-2">
+                <i className="fas fa-hammer text-primary"></i>
+                <span className="text-sm">Building Materials</span>
+              </div>
+              <span className="text-sm font-medium">{resources.materials.toLocaleString()}</span>
             </div>
-            <span className="text-sm font-medium">{resources.materials.toLocaleString()}</span>
-          </div>
           
-          <div className="flex items-center justify-between bg-muted/20 rounded p-2" data-testid="resource-sustainability">
-            <div className="flex items-center space-x-2">
-              <i className="fas fa-leaf text-accent"></i>
-              <span className="text-sm">Sustainability</span>
-            </div>
-            <div className="flex items-center space-x-1">
-              <div className="w-12 bg-muted rounded-full h-2">
-                <div 
-                  className="bg-accent h-2 rounded-full" 
-                  style={{ width: `${resources.sustainability}%` }}
-                />
+            <div className="flex items-center justify-between bg-muted/20 rounded p-2" data-testid="resource-sustainability">
+              <div className="flex items-center space-x-2">
+                <i className="fas fa-leaf text-accent"></i>
+                <span className="text-sm">Sustainability</span>
+              </div>
+              <div className="flex items-center space-x-1">
+                <div className="w-12 bg-muted rounded-full h-2">
+                  <div 
+                    className="bg-accent h-2 rounded-full" 
+                    style={{ width: `${resources.sustainability}%` }}
+                  />
+                </div>
+                <span className="text-xs text-accent">{resources.sustainability}%</span>
               </div>
-              <span className="text-xs text-accent">{resources.sustainability}%</span>
             </div>
+
+            {resources.abundance < 1 && (
+              <p className="text-xs text-destructive" data-testid="resource-abundance">
+                Over-harvested land: {Math.round(resources.abundance * 100)}% of the usual monsters and drops
+              </p>
+            )}
+
+            {resources.history.length > 0 && (
+              <div className="space-y-1" data-testid="resource-history">
+                {resources.history.slice(0, SHOWN_RESOURCE_CHANGES).map(change => (
+                  <div key={change.id} className="text-xs flex justify-between gap-2">
+                    <span className="text-muted-foreground truncate" title={change.detail ?? undefined}>
+                      {RESOURCE_SOURCE_LABELS[change.source as ResourceSource] ?? change.source}
+                    </span>
+                    <span className="whitespace-nowrap">{describeResourceChange(change)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
-        </div>
+        )}
       </div>
     </aside>
   );
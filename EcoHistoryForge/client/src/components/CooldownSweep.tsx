@@ -0,0 +1,36 @@
+import { useEffect, useState } from "react";
+
+interface CooldownSweepProps {
+  readyAt: number; // local epoch ms
+  duration: number; // full cooldown in ms
+}
+
+// Dark radial wedge over an ability button that unwinds clockwise until it's ready
+export function CooldownSweep({ readyAt, duration }: CooldownSweepProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    let frame = requestAnimationFrame(function tick() {
+      const current = Date.now();
+      setNow(current);
+      if (current < readyAt) {
+        frame = requestAnimationFrame(tick);
+      }
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [readyAt]);
+
+  const remaining = Math.max(0, readyAt - now);
+  if (remaining <= 0 || duration <= 0) return null;
+
+  const percent = Math.min(100, (remaining / duration) * 100);
+  return (
+    <div
+      className="absolute inset-0 rounded-lg flex items-center justify-center pointer-events-none"
+      style={{ background: `conic-gradient(rgba(0, 0, 0, 0.65) ${percent}%, transparent ${percent}%)` }}
+      data-testid="cooldown-sweep"
+    >
+      <span className="text-sm font-semibold text-foreground drop-shadow">{(remaining / 1000).toFixed(1)}s</span>
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { GamePlayer, InventoryItem } from "@/lib/gameTypes";
+import { apiRequest } from "@/lib/queryClient";
+import { CRAFTING_QUERY_KEY, useCrafting } from "@/hooks/use-crafting";
+import { MAX_CRAFTING_QUEUE, type CraftingSnapshot, type RecipeView } from "@shared/crafting";
+
+interface CraftingPanelProps {
+  isOpen: boolean;
+  player: GamePlayer;
+  onClose: () => void;
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+}
+
+export function CraftingPanel({ isOpen, player, onClose }: CraftingPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const crafting = useCrafting(isOpen);
+  const [now, setNow] = useState(Date.now());
+
+  const { data: inventory = [] } = useQuery<InventoryItem[]>({
+    queryKey: ["/api/inventory"],
+    enabled: isOpen,
+  });
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [isOpen]);
+
+  // Ingredients leave the inventory as soon as the craft is queued
+  const craftMutation = useMutation({
+    mutationFn: async (recipeId: string) => {
+      const res = await apiRequest("POST", "/api/craft", { recipeId });
+      return res.json() as Promise<{ message: string } & CraftingSnapshot>;
+    },
+    onSuccess: ({ message, ...snapshot }) => {
+      toast({ title: "Crafting", description: message });
+      queryClient.setQueryData(CRAFTING_QUERY_KEY, snapshot);
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Crafting Failed",
+        description: error.message || "Could not start crafting",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!isOpen) return null;
+
+  const held = (itemId: string) =>
+    inventory.filter(entry => entry.itemId === itemId).reduce((total, entry) => total + entry.quantity, 0);
+
+  // Why the recipe can't be started right now, if it can't. Standing at the
+  // right station is left to the server, which knows where the player is.
+  const blockerFor = (recipe: RecipeView): string | null => {
+    if (player.level < recipe.requiredLevel) return `Requires level ${recipe.requiredLevel}`;
+    if (recipe.inputs.some(input => held(input.item.id) < input.quantity)) return "Missing ingredients";
+    return null;
+  };
+
+  const queue = crafting?.queue ?? [];
+  const queueFull = queue.length >= MAX_CRAFTING_QUEUE;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50" data-testid="crafting-modal">
+      <div className="bg-card border border-border rounded-lg max-w-2xl w-full mx-4 max-h-[80vh] flex flex-col">
+        <div className="p-6 border-b border-border flex items-center justify-between">
+          <h2 className="font-fantasy text-xl font-semibold text-primary">Crafting</h2>
+          <Button variant="ghost" size="sm" onClick={onClose} data-testid="close-crafting-button">
+            <i className="fas fa-times"></i>
+          </Button>
+        </div>
+
+        <div className="p-6 flex-1 overflow-y-auto space-y-6">
+          <div data-testid="crafting-queue">
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="font-medium text-primary">Queue</h3>
+              <span className="text-xs text-muted-foreground">{queue.length}/{MAX_CRAFTING_QUEUE}</span>
+            </div>
+            {queue.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nothing is being crafted</p>
+            ) : (
+              <div className="space-y-2">
+                {queue.map(job => {
+                  const started = job.startedAt <= now;
+                  const progress = started ? Math.min(100, ((now - job.startedAt) / (job.readyAt - job.startedAt)) * 100) : 0;
+                  return (
+                    <div key={job.id} className="bg-muted/20 rounded p-2" data-testid={`crafting-job-${job.id}`}>
+                      <div className="flex justify-between text-xs mb-1">
+                        <span>{job.quantity > 1 ? `${job.quantity}x ` : ""}{job.itemName}</span>
+                        <span className="text-muted-foreground">
+                          {started ? formatDuration(job.readyAt - now) : "Waiting"}
+                        </span>
+                      </div>
+                      <Progress value={progress} className="h-1.5" />
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          <div data-testid="crafting-recipes">
+            <h3 className="font-medium text-primary mb-3">Recipes</h3>
+            {!crafting ? (
+              <div className="flex items-center justify-center h-24">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {crafting.recipes.map(recipe => {
+                  const blocker = blockerFor(recipe);
+                  return (
+                    <div key={recipe.id} className="bg-muted/20 rounded-lg p-3 border border-border" data-testid={`recipe-${recipe.id}`}>
+                      <div className="flex items-center justify-between mb-2">
+                        <div className="flex items-center space-x-2">
+                          <i className={`${recipe.output.item.icon} text-primary`}></i>
+                          <span className="font-medium">
+                            {recipe.output.quantity > 1 ? `${recipe.output.quantity}x ` : ""}{recipe.output.item.name}
+                          </span>
+                        </div>
+                        <span className="text-xs text-muted-foreground">
+                          <i className="fas fa-clock mr-1"></i>
+                          {formatDuration(recipe.craftTimeMs)}
+                          {recipe.station && ` · at a ${recipe.station}`}
+                          {recipe.requiredLevel > 1 && ` · Lv ${recipe.requiredLevel}`}
+                        </span>
+                      </div>
+                      <div className="flex flex-wrap gap-2 mb-2 text-xs">
+                        {recipe.inputs.map(input => {
+                          const have = held(input.item.id);
+                          return (
+                            <span
+                              key={input.item.id || input.item.name}
+                              className={`rounded px-2 py-1 bg-secondary ${have >= input.quantity ? "" : "text-destructive"}`}
+                            >
+                              <i className={`${input.item.icon} mr-1`}></i>
+                              {input.item.name} {have}/{input.quantity}
+                            </span>
+                          );
+                        })}
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <span className="text-xs text-destructive">{blocker ?? ""}</span>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => craftMutation.mutate(recipe.id)}
+                          disabled={!!blocker || queueFull || craftMutation.isPending}
+                          data-testid={`craft-${recipe.id}`}
+                        >
+                          Craft
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import { useEffect, useState } from "react";
+import { PlayerDeath } from "@/lib/gameTypes";
+
+interface DeathOverlayProps {
+  // Missing when we reconnected while already dead and never saw the event
+  death?: PlayerDeath;
+}
+
+export function DeathOverlay({ death }: DeathOverlayProps) {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, []);
+
+  const secondsLeft = death ? Math.max(0, Math.ceil((death.respawnAt - now) / 1000)) : null;
+
+  const getPenaltyText = () => {
+    if (!death) return null;
+    const { penalty } = death;
+    if (penalty.type === "experience" && penalty.experienceLost > 0) {
+      return `Lost ${penalty.experienceLost} experience`;
+    }
+    if (penalty.type === "inventory" && penalty.itemsDropped > 0) {
+      return `Dropped ${penalty.itemsDropped} item${penalty.itemsDropped === 1 ? "" : "s"} where you fell`;
+    }
+    return null;
+  };
+  const penaltyText = getPenaltyText();
+
+  return (
+    <div className="absolute inset-0 z-20 bg-black/60 flex items-center justify-center pointer-events-none" data-testid="death-overlay">
+      <div className="text-center">
+        <i className="fas fa-skull text-5xl text-destructive mb-4"></i>
+        <h2 className="font-fantasy text-3xl font-bold text-destructive mb-2">You have fallen</h2>
+        {penaltyText && (
+          <p className="text-sm text-muted-foreground mb-2" data-testid="death-penalty">{penaltyText}</p>
+        )}
+        <p className="text-lg" data-testid="respawn-countdown">
+          {secondsLeft === null || secondsLeft === 0 ? "Respawning..." : `Respawning in ${secondsLeft}s`}
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -1,30 +1,93 @@
 import { useEffect, useRef } from "react";
 import { useGame3D } from "@/hooks/useGame3D";
-import { GamePlayer, Monster, WorldLoot } from "@/lib/gameTypes";
+import {
+  AbilityEffect,
+  GamePlayer,
+  Monster,
+  WorldLoot,
+  PositionCorrection,
+  PlayerDeath,
+  PlayerShield,
+  TargetRef,
+} from "@/lib/gameTypes";
+import type { CastStarted } from "@shared/abilities";
+
+// Tab only cycles through targets this close to the player
+const TAB_TARGET_RANGE = 50;
 
 interface Game3DProps {
   player?: GamePlayer;
   onlinePlayers: GamePlayer[];
   monsters: Monster[];
   worldLoot: WorldLoot[];
+  positionCorrection?: PositionCorrection | null;
+  deaths?: PlayerDeath[];
+  isDead?: boolean;
+  // From status effects: stunned players can't move, slowed ones move slower
+  isStunned?: boolean;
+  speedMultiplier?: number;
+  target?: TargetRef | null;
+  abilityEffect?: AbilityEffect | null;
+  endedProjectileId?: string | null;
+  shields?: Record<string, PlayerShield>;
+  casts?: Record<string, CastStarted>;
+  onSelectTarget?: (target: TargetRef | null) => void;
   onPlayerMove?: (x: number, y: number, z: number, rotation?: number) => void;
   onCollectLoot?: (lootId: string) => void;
 }
 
-export function Game3D({ player, onlinePlayers, monsters, worldLoot, onPlayerMove, onCollectLoot }: Game3DProps) {
+export function Game3D({
+  player,
+  onlinePlayers,
+  monsters,
+  worldLoot,
+  positionCorrection,
+  deaths = [],
+  isDead = false,
+  isStunned = false,
+  speedMultiplier = 1,
+  target = null,
+  abilityEffect = null,
+  endedProjectileId = null,
+  shields = {},
+  casts = {},
+  onSelectTarget,
+  onPlayerMove,
+  onCollectLoot,
+}: Game3DProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const { 
     updatePlayerPosition, 
     updateOtherPlayers, 
     addMonster, 
+    updateMonster,
     removeMonster,
     addLoot,
-    removeLoot
+    removeLoot,
+    addCorpse,
+    removeCorpse,
+    pickTarget,
+    setTargetMarker,
+    playAbilityEffect,
+    endProjectile,
+    setShield,
+    setCastIndicator
   } = useGame3D(containerRef);
   
   const keysPressed = useRef(new Set<string>());
   const currentPosition = useRef({ x: 0, y: 0, z: 0 });
   const currentRotation = useRef(0);
+  const renderedMonsterIds = useRef(new Set<string>());
+  const renderedCorpseIds = useRef(new Set<string>());
+  const renderedShields = useRef(new Map<string, number>());
+  const renderedCasts = useRef(new Map<string, string>()); // casterId -> castId
+  // Read by the movement loop, which doesn't restart when this changes
+  const isDeadRef = useRef(isDead);
+  isDeadRef.current = isDead;
+  const isStunnedRef = useRef(isStunned);
+  isStunnedRef.current = isStunned;
+  const speedMultiplierRef = useRef(speedMultiplier);
+  speedMultiplierRef.current = speedMultiplier;
 
   // Handle keyboard movement
   useEffect(() => {
@@ -39,9 +102,13 @@ export function Game3D({ player, onlinePlayers, monsters, worldLoot, onPlayerMov
     // Movement update loop
     const movePlayer = () => {
       if (!player) return;
+      if (isDeadRef.current || isStunnedRef.current) {
+        requestAnimationFrame(movePlayer);
+        return;
+      }
       
       let moved = false;
-      const speed = 0.5;
+      const speed = 0.5 * speedMultiplierRef.current;
       const rotationSpeed = 0.05;
       
       if (keysPressed.current.has('keyw')) {
@@ -96,19 +163,149 @@ export function Game3D({ player, onlinePlayers, monsters, worldLoot, onPlayerMov
     }
   }, [player, updatePlayerPosition]);
 
+  // Snap back to the server's position when it rejects a move
+  useEffect(() => {
+    if (positionCorrection) {
+      const { rotation, ...position } = positionCorrection;
+      currentPosition.current = position;
+      if (rotation !== undefined) {
+        currentRotation.current = rotation;
+      }
+      updatePlayerPosition(position, currentRotation.current);
+    }
+  }, [positionCorrection, updatePlayerPosition]);
+
   // Update other players
   useEffect(() => {
     updateOtherPlayers(onlinePlayers);
   }, [onlinePlayers, updateOtherPlayers]);
 
-  // Handle monsters
+  // Handle monsters: diff against what's in the scene so live updates move meshes instead of recreating them
   useEffect(() => {
-    monsters.forEach(monster => addMonster(monster));
-    
-    return () => {
-      monsters.forEach(monster => removeMonster(monster.id));
+    const currentIds = new Set(monsters.map(monster => monster.id));
+    renderedMonsterIds.current.forEach(id => {
+      if (!currentIds.has(id)) {
+        removeMonster(id);
+        renderedMonsterIds.current.delete(id);
+      }
+    });
+
+    monsters.forEach(monster => {
+      if (renderedMonsterIds.current.has(monster.id)) {
+        updateMonster(monster);
+      } else {
+        addMonster(monster);
+        renderedMonsterIds.current.add(monster.id);
+      }
+    });
+  }, [monsters, addMonster, updateMonster, removeMonster]);
+
+  // Bodies of dead players, removed again when they respawn
+  useEffect(() => {
+    const currentIds = new Set(deaths.map(death => death.playerId));
+    renderedCorpseIds.current.forEach(id => {
+      if (!currentIds.has(id)) {
+        removeCorpse(id);
+        renderedCorpseIds.current.delete(id);
+      }
+    });
+
+    deaths.forEach(death => {
+      if (!renderedCorpseIds.current.has(death.playerId)) {
+        addCorpse(death.playerId, { x: death.positionX, y: death.positionY, z: death.positionZ });
+        renderedCorpseIds.current.add(death.playerId);
+      }
+    });
+  }, [deaths, addCorpse, removeCorpse]);
+
+  useEffect(() => {
+    setTargetMarker(target);
+  }, [target, setTargetMarker]);
+
+  // Ability visuals
+  useEffect(() => {
+    if (abilityEffect) {
+      playAbilityEffect(abilityEffect);
+    }
+  }, [abilityEffect, playAbilityEffect]);
+
+  useEffect(() => {
+    if (endedProjectileId) {
+      endProjectile(endedProjectileId);
+    }
+  }, [endedProjectileId, endProjectile]);
+
+  useEffect(() => {
+    renderedShields.current.forEach((_expiresAt, playerId) => {
+      if (!shields[playerId]) {
+        setShield(playerId, playerId === player?.id, null);
+        renderedShields.current.delete(playerId);
+      }
+    });
+    Object.values(shields).forEach(shield => {
+      if (renderedShields.current.get(shield.playerId) !== shield.expiresAt) {
+        setShield(shield.playerId, shield.playerId === player?.id, shield.expiresAt);
+        renderedShields.current.set(shield.playerId, shield.expiresAt);
+      }
+    });
+  }, [shields, player?.id, setShield]);
+
+  useEffect(() => {
+    renderedCasts.current.forEach((_castId, casterId) => {
+      if (!casts[casterId]) {
+        setCastIndicator(casterId, casterId === player?.id, null);
+        renderedCasts.current.delete(casterId);
+      }
+    });
+    Object.values(casts).forEach(cast => {
+      if (renderedCasts.current.get(cast.casterId) !== cast.castId) {
+        setCastIndicator(cast.casterId, cast.casterId === player?.id, cast);
+        renderedCasts.current.set(cast.casterId, cast.castId);
+      }
+    });
+  }, [casts, player?.id, setCastIndicator]);
+
+  // Clicking a monster or another player targets it; clicking empty ground clears the target
+  const handleClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (!onSelectTarget) return;
+    const picked = pickTarget(event.clientX, event.clientY);
+    onSelectTarget(picked && picked.id !== player?.id ? picked : null);
+  };
+
+  // Tab cycles through nearby targets, nearest first; Escape clears
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!player || !onSelectTarget) return;
+      // Leave Tab alone while typing in chat or the code box
+      if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) return;
+      if (event.code === 'Escape') {
+        onSelectTarget(null);
+        return;
+      }
+      if (event.code !== 'Tab') return;
+      event.preventDefault();
+
+      const distanceTo = (x: number, z: number) => Math.hypot(x - player.positionX, z - player.positionZ);
+      const candidates = [
+        ...monsters.map(m => ({ ref: { id: m.id, kind: 'monster' } as TargetRef, distance: distanceTo(m.positionX, m.positionZ) })),
+        ...onlinePlayers
+          .filter(p => p.id !== player.id)
+          .map(p => ({ ref: { id: p.id, kind: 'player' } as TargetRef, distance: distanceTo(p.positionX, p.positionZ) })),
+      ]
+        .filter(candidate => candidate.distance <= TAB_TARGET_RANGE)
+        .sort((a, b) => a.distance - b.distance);
+
+      if (candidates.length === 0) {
+        onSelectTarget(null);
+        return;
+      }
+      const currentIndex = candidates.findIndex(candidate => candidate.ref.id === target?.id);
+      onSelectTarget(candidates[(currentIndex + 1) % candidates.length].ref);
     };
-  }, [monsters, addMonster, removeMonster]);
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [player, monsters, onlinePlayers, target, onSelectTarget]);
 
   // Handle world loot
   useEffect(() => {
@@ -122,7 +319,7 @@ export function Game3D({ player, onlinePlayers, monsters, worldLoot, onPlayerMov
   // Handle loot collection when player presses E near loot
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
-      if (event.code.toLowerCase() === 'keye' && player && onCollectLoot) {
+      if (event.code.toLowerCase() === 'keye' && player && onCollectLoot && !isDeadRef.current) {
         // Find nearest loot within collection range
         const collectionRange = 3;
         for (const loot of worldLoot) {
@@ -147,6 +344,7 @@ export function Game3D({ player, onlinePlayers, monsters, worldLoot, onPlayerMov
     <div 
       ref={containerRef} 
       className="w-full h-full relative cursor-crosshair"
+      onClick={handleClick}
       data-testid="game-3d-viewport"
     >
       {/* Tutorial Zone UI Overlay */}
@@ -186,6 +384,7 @@ export function Game3D({ player, onlinePlayers, monsters, worldLoot, onPlayerMov
           <div>WASD: Move</div>
           <div>Mouse: Look around</div>
           <div>1-4: Use abilities</div>
+          <div>Click / Tab: Select target</div>
           <div>E: Collect loot</div>
         </div>
       </div>
@@ -1,16 +1,17 @@
-import { GamePlayer, CommunityResources } from "@/lib/gameTypes";
+import { GamePlayer } from "@/lib/gameTypes";
 import { Button } from "@/components/ui/button";
 import { useState } from "react";
 
 interface GameHUDProps {
   player: GamePlayer;
-  resources: CommunityResources;
   onRebirth: () => void;
   onShowHint: () => void;
+  onLogout: () => void;
+  onOpenCrafting: () => void;
   isRebirthAllowed: boolean;
 }
 
-export function GameHUD({ player, resources, onRebirth, onShowHint, isRebirthAllowed }: GameHUDProps) {
+export function GameHUD({ player, onRebirth, onShowHint, onLogout, onOpenCrafting, isRebirthAllowed }: GameHUDProps) {
   const [showHint, setShowHint] = useState(false);
 
   const handleShowHint = () => {
@@ -61,6 +62,10 @@ export function GameHUD({ player, resources, onRebirth, onShowHint, isRebirthAll
           <Button variant="secondary" size="sm" data-testid="system-menu">
             <i className="fas fa-cog text-foreground"></i>
           </Button>
+
+          <Button variant="secondary" size="sm" onClick={onLogout} title="Log out" data-testid="button-logout">
+            <i className="fas fa-sign-out-alt text-foreground"></i>
+          </Button>
         </div>
       </header>
 
@@ -73,7 +78,7 @@ export function GameHUD({ player, resources, onRebirth, onShowHint, isRebirthAll
               <i className="fas fa-backpack text-foreground"></i>
             </Button>
             
-            <Button variant="secondary" size="sm" data-testid="button-building">
+            <Button variant="secondary" size="sm" onClick={onOpenCrafting} title="Crafting" data-testid="button-building">
               <i className="fas fa-hammer text-foreground"></i>
             </Button>
             
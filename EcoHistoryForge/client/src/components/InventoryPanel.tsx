@@ -4,37 +4,74 @@ import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { InventoryItem } from "@/lib/gameTypes";
 import { apiRequest } from "@/lib/queryClient";
+import { AUTH_QUERY_KEY } from "@/hooks/use-auth";
+import { EQUIPMENT_QUERY_KEY, useEquipment } from "@/hooks/use-equipment";
+import { consumableEffectsOf, describeConsumableEffect, type ItemUseResult } from "@shared/consumables";
+import { EQUIPMENT_SLOTS, type EquipmentSlot, type EquipmentSnapshot, type EquipmentStats } from "@shared/equipment";
+import { INVENTORY_SLOTS } from "@shared/inventory";
+import { contributionValueOf } from "@shared/communityResources";
+import { COMMUNITY_RESOURCES_QUERY_KEY } from "@/hooks/use-community-resources";
+
+const SLOT_LABELS: Record<EquipmentSlot, { label: string; icon: string }> = {
+  weapon: { label: "Weapon", icon: "fas fa-khanda" },
+  armor: { label: "Armor", icon: "fas fa-tshirt" },
+  accessory: { label: "Accessory", icon: "fas fa-ring" },
+};
+
+// "+10% damage, +100 health" from an equipment item's effects or the totals
+function describeGearStats(stats: Partial<EquipmentStats>): string {
+  const parts: string[] = [];
+  if (stats.damage) parts.push(`+${Math.round(stats.damage * 100)}% damage`);
+  if (stats.maxHealth) parts.push(`+${stats.maxHealth} health`);
+  if (stats.maxAura) parts.push(`+${stats.maxAura} aura`);
+  return parts.join(", ");
+}
+
+// "Worth 24 food to your community"
+function describeContribution(item: InventoryItem["item"], quantity: number): string {
+  const value = contributionValueOf(item);
+  if (!value) return "";
+  return value.food > 0
+    ? `Worth ${value.food * quantity} food to your community`
+    : `Worth ${value.materials * quantity} materials to your community`;
+}
+
+type InventoryChange =
+  | { action: "move"; entryId: string; slot: number }
+  | { action: "split"; entryId: string; quantity: number; slot?: number }
+  | { action: "merge"; fromId: string; intoId: string }
+  | { action: "drop"; entryId: string; quantity: number };
 
 interface InventoryPanelProps {
-  playerId: string;
   isOpen: boolean;
   onClose: () => void;
 }
 
-export function InventoryPanel({ playerId, isOpen, onClose }: InventoryPanelProps) {
+export function InventoryPanel({ isOpen, onClose }: InventoryPanelProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
   // Fetch player inventory
   const { data: inventory = [], isLoading } = useQuery<InventoryItem[]>({
-    queryKey: ["/api/inventory", playerId],
-    enabled: isOpen && !!playerId,
+    queryKey: ["/api/inventory"],
+    enabled: isOpen,
   });
 
-  // Use item mutation
+  // Use item mutation; the toast spells out what the item did
   const useItemMutation = useMutation({
     mutationFn: async (data: { itemId: string; quantity: number }) => {
-      return apiRequest("POST", `/api/inventory/use/${playerId}`, data);
+      const res = await apiRequest("POST", "/api/inventory/use", data);
+      return res.json() as Promise<ItemUseResult>;
     },
-    onSuccess: (response: any) => {
+    onSuccess: (result) => {
       toast({
-        title: "Item Used",
-        description: response?.message || "Item consumed successfully",
+        title: result.message,
+        description: result.effects.map(describeConsumableEffect).join(" · "),
       });
       
       // Refetch inventory and player data
-      queryClient.invalidateQueries({ queryKey: ["/api/inventory", playerId] });
-      queryClient.invalidateQueries({ queryKey: ["/api/players", playerId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
+      queryClient.invalidateQueries({ queryKey: AUTH_QUERY_KEY });
     },
     onError: (error: any) => {
       toast({
@@ -45,6 +82,111 @@ export function InventoryPanel({ playerId, isOpen, onClose }: InventoryPanelProp
     },
   });
 
+  // Hands items to the community; the new totals arrive as a community_resources event
+  const contributeMutation = useMutation({
+    mutationFn: async (data: { itemId: string; quantity: number }) => {
+      const res = await apiRequest("POST", "/api/game/resources/contribute", data);
+      return res.json() as Promise<{ message: string }>;
+    },
+    onSuccess: (result) => {
+      toast({ title: "Community Resources", description: result.message });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
+      queryClient.invalidateQueries({ queryKey: COMMUNITY_RESOURCES_QUERY_KEY });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Contribution Failed",
+        description: error.message || "Could not contribute item",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const equipment = useEquipment(isOpen);
+
+  // Equipping and unequipping share a response: a message plus the new equipment
+  const equipmentMutation = useMutation({
+    mutationFn: async (change: { action: "equip"; itemId: string } | { action: "unequip"; slot: EquipmentSlot }) => {
+      const { action, ...body } = change;
+      const res = await apiRequest("POST", `/api/equipment/${action}`, body);
+      return res.json() as Promise<{ message: string; equipment: EquipmentSnapshot }>;
+    },
+    onSuccess: (result) => {
+      toast({ title: "Equipment", description: result.message });
+      queryClient.setQueryData(EQUIPMENT_QUERY_KEY, result.equipment);
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
+      // Gear changes max health and aura
+      queryClient.invalidateQueries({ queryKey: AUTH_QUERY_KEY });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Equipment Change Failed",
+        description: error.message || "Could not change equipment",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+
+  // Slot moves happen silently; only drops and failures are worth a toast
+  const inventoryMutation = useMutation({
+    mutationFn: async (change: InventoryChange) => {
+      const { action, ...body } = change;
+      const res = await apiRequest("POST", `/api/inventory/${action}`, body);
+      return res.json() as Promise<{ message: string }>;
+    },
+    onSuccess: (result, change) => {
+      if (change.action === "drop") {
+        toast({ title: "Item Dropped", description: result.message });
+        setSelectedId(null);
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Inventory",
+        description: error.message || "Could not rearrange your inventory",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const entriesBySlot = new Map(inventory.map(entry => [entry.slot, entry]));
+  const selected = inventory.find(entry => entry.id === selectedId);
+
+  // Onto an empty slot moves (shift splits half off instead), onto the same
+  // item merges, onto anything else swaps
+  const handleSlotDrop = (slot: number, event: React.DragEvent) => {
+    event.preventDefault();
+    const dragged = inventory.find(entry => entry.id === draggedId);
+    setDraggedId(null);
+    if (!dragged || dragged.slot === slot) return;
+
+    const target = entriesBySlot.get(slot);
+    if (!target) {
+      if (event.shiftKey && dragged.quantity > 1) {
+        inventoryMutation.mutate({ action: "split", entryId: dragged.id, quantity: Math.floor(dragged.quantity / 2), slot });
+      } else {
+        inventoryMutation.mutate({ action: "move", entryId: dragged.id, slot });
+      }
+    } else if (target.itemId === dragged.itemId && dragged.item.stackable) {
+      inventoryMutation.mutate({ action: "merge", fromId: dragged.id, intoId: target.id });
+    } else {
+      inventoryMutation.mutate({ action: "move", entryId: dragged.id, slot });
+    }
+  };
+
+  const handleGroundDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    const dragged = inventory.find(entry => entry.id === draggedId);
+    setDraggedId(null);
+    if (dragged) {
+      inventoryMutation.mutate({ action: "drop", entryId: dragged.id, quantity: dragged.quantity });
+    }
+  };
+
   const handleUseItem = (itemId: string, quantity: number = 1) => {
     useItemMutation.mutate({ itemId, quantity });
   };
@@ -78,80 +220,210 @@ export function InventoryPanel({ playerId, isOpen, onClose }: InventoryPanelProp
         </div>
 
         <div className="p-6 flex-1 overflow-y-auto" data-testid="inventory-content">
+          {/* Paper doll: one box per slot */}
+          <div className="mb-6" data-testid="equipment-slots">
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="font-medium text-primary">Equipment</h3>
+              {equipment && describeGearStats(equipment.stats) && (
+                <span className="text-xs text-accent" data-testid="equipment-stats">
+                  {describeGearStats(equipment.stats)}
+                </span>
+              )}
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              {EQUIPMENT_SLOTS.map((slot) => {
+                const item = equipment?.slots[slot] ?? null;
+                return (
+                  <div
+                    key={slot}
+                    className="bg-muted/20 rounded-lg p-3 border border-border flex flex-col items-center text-center"
+                    data-testid={`equipment-slot-${slot}`}
+                  >
+                    <div className="w-12 h-12 bg-secondary rounded-lg flex items-center justify-center mb-2">
+                      <i className={`${item ? item.icon : SLOT_LABELS[slot].icon} text-xl ${item ? "text-primary" : "text-muted-foreground/50"}`}></i>
+                    </div>
+                    <span className="text-xs text-muted-foreground">{SLOT_LABELS[slot].label}</span>
+                    {item ? (
+                      <>
+                        <span className={`text-sm font-medium ${getRarityColor(item.rarity)}`}>{item.name}</span>
+                        <span className="text-xs text-accent mb-2">{describeGearStats(item.effects as Partial<EquipmentStats>)}</span>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => equipmentMutation.mutate({ action: "unequip", slot })}
+                          disabled={equipmentMutation.isPending}
+                          data-testid={`unequip-${slot}`}
+                        >
+                          Unequip
+                        </Button>
+                      </>
+                    ) : (
+                      <span className="text-sm text-muted-foreground/70">Empty</span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
           {isLoading ? (
             <div className="flex items-center justify-center h-32">
               <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
             </div>
-          ) : inventory.length === 0 ? (
-            <div className="text-center py-8 text-muted-foreground">
-              <i className="fas fa-box-open text-4xl mb-4"></i>
-              <p>Your inventory is empty</p>
-              <p className="text-sm">Defeat monsters to collect loot</p>
-            </div>
           ) : (
-            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-              {inventory.map((inventoryItem) => (
-                <div
-                  key={inventoryItem.id}
-                  className="bg-muted/20 rounded-lg p-4 border border-border hover:bg-muted/30 transition-colors"
-                  data-testid={`inventory-item-${inventoryItem.item.id}`}
-                >
-                  <div className="flex items-start space-x-3">
-                    <div className="w-12 h-12 bg-secondary rounded-lg flex items-center justify-center flex-shrink-0">
-                      <i className={`${inventoryItem.item.icon} text-xl text-primary`}></i>
-                    </div>
-                    
-                    <div className="flex-1 min-w-0">
-                      <div className="flex items-center justify-between mb-1">
-                        <h3 className={`font-medium ${getRarityColor(inventoryItem.item.rarity)}`}>
-                          {inventoryItem.item.name}
-                        </h3>
-                        <span className="text-sm text-muted-foreground">
-                          x{inventoryItem.quantity}
-                        </span>
-                      </div>
-                      
-                      <p className="text-sm text-muted-foreground mb-2 line-clamp-2">
-                        {inventoryItem.item.description}
-                      </p>
-                      
-                      {inventoryItem.item.type === 'consumable' && (
-                        <div className="flex items-center space-x-2">
-                          <div className="text-xs text-accent">
-                            {inventoryItem.item.effects.health && (
-                              <span className="mr-2">
-                                <i className="fas fa-heart mr-1"></i>
-                                +{inventoryItem.item.effects.health}
-                              </span>
-                            )}
-                            {inventoryItem.item.effects.aura && (
-                              <span>
-                                <i className="fas fa-bolt mr-1"></i>
-                                +{inventoryItem.item.effects.aura}
-                              </span>
-                            )}
-                          </div>
-                          
-                          <Button
-                            size="sm"
-                            variant="outline"
-                            onClick={() => handleUseItem(inventoryItem.item.id, 1)}
-                            disabled={useItemMutation.isPending}
-                            data-testid={`use-item-${inventoryItem.item.id}`}
-                            className="ml-auto"
-                          >
-                            {useItemMutation.isPending ? (
-                              <i className="fas fa-spinner animate-spin"></i>
-                            ) : (
-                              "Use"
-                            )}
-                          </Button>
+            <div data-testid="inventory-slots">
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="font-medium text-primary">Bag</h3>
+                <span className="text-xs text-muted-foreground" data-testid="inventory-capacity">
+                  {inventory.length}/{INVENTORY_SLOTS} slots
+                </span>
+              </div>
+
+              <div className="grid grid-cols-6 gap-2">
+                {Array.from({ length: INVENTORY_SLOTS }, (_, slot) => {
+                  const entry = entriesBySlot.get(slot);
+                  return (
+                    <div
+                      key={slot}
+                      onDragOver={(event) => event.preventDefault()}
+                      onDrop={(event) => handleSlotDrop(slot, event)}
+                      className={`aspect-square rounded-lg border flex items-center justify-center relative ${
+                        entry && entry.id === selectedId ? "border-primary bg-primary/10" : "border-border bg-muted/20"
+                      }`}
+                      data-testid={`inventory-slot-${slot}`}
+                    >
+                      {entry && (
+                        <div
+                          draggable
+                          onDragStart={() => setDraggedId(entry.id)}
+                          onDragEnd={() => setDraggedId(null)}
+                          onClick={() => setSelectedId(entry.id === selectedId ? null : entry.id)}
+                          className="w-full h-full flex items-center justify-center cursor-grab"
+                          title={entry.item.name}
+                          data-testid={`inventory-item-${entry.item.id}`}
+                        >
+                          <i className={`${entry.item.icon} text-xl ${getRarityColor(entry.item.rarity)}`}></i>
+                          {entry.quantity > 1 && (
+                            <span className="absolute bottom-0.5 right-1 text-xs font-bold">{entry.quantity}</span>
+                          )}
                         </div>
                       )}
                     </div>
+                  );
+                })}
+              </div>
+
+              <div
+                onDragOver={(event) => event.preventDefault()}
+                onDrop={handleGroundDrop}
+                className={`mt-3 p-2 rounded-lg border border-dashed text-center text-xs text-muted-foreground ${
+                  draggedId ? "border-destructive text-destructive" : "border-border"
+                }`}
+                data-testid="inventory-ground"
+              >
+                <i className="fas fa-hand-holding mr-1"></i>
+                Drag here to drop on the ground · Shift-drag to an empty slot to split
+              </div>
+
+              {inventory.length === 0 && (
+                <div className="text-center py-4 text-muted-foreground">
+                  <p>Your inventory is empty</p>
+                  <p className="text-sm">Defeat monsters to collect loot</p>
+                </div>
+              )}
+
+              {selected && (
+                <div className="mt-4 bg-muted/20 rounded-lg p-4 border border-border" data-testid="inventory-details">
+                  <div className="flex items-center justify-between mb-1">
+                    <h3 className={`font-medium ${getRarityColor(selected.item.rarity)}`}>{selected.item.name}</h3>
+                    <span className="text-sm text-muted-foreground">
+                      x{selected.quantity}
+                      {selected.item.stackable && ` / ${selected.item.maxStack}`}
+                    </span>
+                  </div>
+                  <p className="text-sm text-muted-foreground mb-3">{selected.item.description}</p>
+
+                  {selected.item.type === 'consumable' && (
+                    <ul className="text-xs text-accent mb-3 space-y-0.5" data-testid="consumable-effects">
+                      {(consumableEffectsOf(selected.item) ?? []).map((effect, index) => (
+                        <li key={index}>{describeConsumableEffect(effect)}</li>
+                      ))}
+                    </ul>
+                  )}
+
+                  {selected.item.type === 'equipment' && (
+                    <div className="text-xs text-accent mb-3">
+                      {SLOT_LABELS[selected.item.effects.slot as EquipmentSlot]?.label}
+                      {describeGearStats(selected.item.effects) && ` · ${describeGearStats(selected.item.effects)}`}
+                    </div>
+                  )}
+
+                  <div className="flex flex-wrap gap-2">
+                    {selected.item.type === 'consumable' && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleUseItem(selected.item.id, 1)}
+                        disabled={useItemMutation.isPending}
+                        data-testid={`use-item-${selected.item.id}`}
+                      >
+                        {useItemMutation.isPending ? (
+                          <i className="fas fa-spinner animate-spin"></i>
+                        ) : (
+                          "Use"
+                        )}
+                      </Button>
+                    )}
+                    {selected.item.type === 'equipment' && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => equipmentMutation.mutate({ action: "equip", itemId: selected.item.id })}
+                        disabled={equipmentMutation.isPending}
+                        data-testid={`equip-item-${selected.item.id}`}
+                      >
+                        Equip
+                      </Button>
+                    )}
+                    {selected.quantity > 1 && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => inventoryMutation.mutate({
+                          action: "split",
+                          entryId: selected.id,
+                          quantity: Math.floor(selected.quantity / 2),
+                        })}
+                        disabled={inventoryMutation.isPending}
+                        data-testid={`split-item-${selected.id}`}
+                      >
+                        Split
+                      </Button>
+                    )}
+                    {contributionValueOf(selected.item) && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => contributeMutation.mutate({ itemId: selected.item.id, quantity: selected.quantity })}
+                        disabled={contributeMutation.isPending}
+                        title={describeContribution(selected.item, selected.quantity)}
+                        data-testid={`contribute-item-${selected.id}`}
+                      >
+                        Contribute
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => inventoryMutation.mutate({ action: "drop", entryId: selected.id, quantity: 1 })}
+                      disabled={inventoryMutation.isPending}
+                      data-testid={`drop-item-${selected.id}`}
+                    >
+                      Drop 1
+                    </Button>
                   </div>
                 </div>
-              ))}
+              )}
             </div>
           )}
         </div>
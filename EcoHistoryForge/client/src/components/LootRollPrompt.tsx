@@ -0,0 +1,72 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { LootRollChoice, LootRollStarted } from "@shared/party";
+
+interface LootRollPromptProps {
+  rolls: LootRollStarted[];
+}
+
+// Need / greed / pass for each open party roll; a roll disappears once
+// answered, and the outcome arrives as loot_roll_ended
+export function LootRollPrompt({ rolls }: LootRollPromptProps) {
+  const { toast } = useToast();
+  const [answered, setAnswered] = useState<Set<string>>(new Set());
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, []);
+
+  const rollMutation = useMutation({
+    mutationFn: async ({ lootId, choice }: { lootId: string; choice: LootRollChoice }) => {
+      return apiRequest("POST", `/api/loot/${lootId}/roll`, { choice });
+    },
+    onSuccess: (_response, { lootId }) => {
+      setAnswered(prev => new Set(prev).add(lootId));
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Roll Failed",
+        description: error.message || "Could not roll for loot",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const open = rolls.filter(roll => !answered.has(roll.lootId) && roll.endsAt > now);
+  if (open.length === 0) return null;
+
+  return (
+    <div className="absolute bottom-36 left-1/2 transform -translate-x-1/2 z-10 space-y-2 w-72" data-testid="loot-roll-prompt">
+      {open.map(roll => (
+        <div key={roll.lootId} className="floating-ui rounded-lg p-2">
+          <div className="flex justify-between text-xs mb-2">
+            <span className="font-medium">{roll.itemName}</span>
+            <span className="text-muted-foreground capitalize">
+              {roll.rarity} · {Math.ceil((roll.endsAt - now) / 1000)}s
+            </span>
+          </div>
+          <div className="flex space-x-2">
+            {(["need", "greed", "pass"] as const).map(choice => (
+              <Button
+                key={choice}
+                size="sm"
+                variant={choice === "pass" ? "outline" : "default"}
+                className="h-6 flex-1 text-xs capitalize"
+                disabled={rollMutation.isPending}
+                onClick={() => rollMutation.mutate({ lootId: roll.lootId, choice })}
+                data-testid={`button-roll-${choice}-${roll.lootId}`}
+              >
+                {choice}
+              </Button>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,4 +1,22 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { PARTY_QUERY_KEY, useParty } from "@/hooks/use-party";
 import { GamePlayer } from "@/lib/gameTypes";
+import { apiRequest } from "@/lib/queryClient";
+import { MAX_PARTY_SIZE, PARTY_LOOT_MODES, type PartyLootMode, type PartyState } from "@shared/party";
+
+const LOOT_MODE_LABELS: Record<PartyLootMode, string> = {
+  shared: "Shared",
+  round_robin: "Round robin",
+  need_greed: "Need / greed",
+};
+
+type PartyAction =
+  | { action: "invite"; playerId: string }
+  | { action: "accept" | "decline"; fromId: string }
+  | { action: "leave" }
+  | { action: "loot-mode"; mode: PartyLootMode };
 
 interface MultiplayerPanelProps {
   onlinePlayers: GamePlayer[];
@@ -6,8 +24,36 @@ interface MultiplayerPanelProps {
 }
 
 export function MultiplayerPanel({ onlinePlayers, currentPlayerId }: MultiplayerPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
   const otherPlayers = onlinePlayers.filter(p => p.id !== currentPlayerId);
 
+  const partyState = useParty(!!currentPlayerId);
+  const party = partyState?.party ?? null;
+  const invites = partyState?.invites ?? [];
+  const isLeader = party?.leaderId === currentPlayerId;
+  const canInvite = !party || (isLeader && party.members.length < MAX_PARTY_SIZE);
+
+  // Every party route answers with a message plus the player's new party state
+  const partyMutation = useMutation({
+    mutationFn: async (change: PartyAction) => {
+      const { action, ...body } = change;
+      const res = await apiRequest("POST", `/api/party/${action}`, body);
+      return res.json() as Promise<{ message: string } & PartyState>;
+    },
+    onSuccess: ({ message, ...state }) => {
+      toast({ title: "Party", description: message });
+      queryClient.setQueryData(PARTY_QUERY_KEY, state);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Party",
+        description: error.message || "Could not update the party",
+        variant: "destructive",
+      });
+    },
+  });
+
   const getPlayerColor = (player: GamePlayer) => {
     // Color based on rebirth cycle
     if (player.rebirthCycle >= 5) return "from-destructive to-destructive/60";
@@ -25,6 +71,80 @@ export function MultiplayerPanel({ onlinePlayers, currentPlayerId }: Multiplayer
 
   return (
     <div className="p-4 border-b border-border" data-testid="multiplayer-panel">
+      {invites.map(invite => (
+        <div key={invite.fromId} className="mb-3 p-2 rounded-lg bg-primary/10 border border-primary/30" data-testid={`party-invite-${invite.fromId}`}>
+          <div className="text-sm mb-2">
+            <i className="fas fa-user-plus mr-2 text-primary"></i>
+            {invite.fromName} invited you to a party
+          </div>
+          <div className="flex space-x-2">
+            <Button
+              size="sm"
+              className="h-6 px-2 text-xs"
+              disabled={partyMutation.isPending}
+              onClick={() => partyMutation.mutate({ action: "accept", fromId: invite.fromId })}
+            >
+              Accept
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-6 px-2 text-xs"
+              disabled={partyMutation.isPending}
+              onClick={() => partyMutation.mutate({ action: "decline", fromId: invite.fromId })}
+            >
+              Decline
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      {party && (
+        <div className="mb-3 pb-3 border-b border-border/50" data-testid="party-section">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="font-fantasy text-lg font-semibold text-primary">Party</h3>
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-6 px-2 text-xs"
+              disabled={partyMutation.isPending}
+              onClick={() => partyMutation.mutate({ action: "leave" })}
+              data-testid="button-leave-party"
+            >
+              Leave
+            </Button>
+          </div>
+          <div className="space-y-1 mb-2">
+            {party.members.map(member => (
+              <div key={member.id} className="flex items-center text-sm">
+                {member.id === party.leaderId
+                  ? <i className="fas fa-crown text-accent mr-2 text-xs" title="Leader"></i>
+                  : <i className="fas fa-user text-muted-foreground mr-2 text-xs"></i>}
+                <span className={member.id === currentPlayerId ? "text-primary" : ""}>{member.characterName}</span>
+              </div>
+            ))}
+          </div>
+          <div className="flex items-center space-x-2 text-xs">
+            <span className="text-muted-foreground">Loot:</span>
+            {isLeader ? (
+              <select
+                value={party.lootMode}
+                disabled={partyMutation.isPending}
+                onChange={e => partyMutation.mutate({ action: "loot-mode", mode: e.target.value as PartyLootMode })}
+                className="px-1 py-0.5 rounded border border-muted bg-background"
+                data-testid="select-loot-mode"
+              >
+                {PARTY_LOOT_MODES.map(mode => (
+                  <option key={mode} value={mode}>{LOOT_MODE_LABELS[mode]}</option>
+                ))}
+              </select>
+            ) : (
+              <span>{LOOT_MODE_LABELS[party.lootMode]}</span>
+            )}
+          </div>
+        </div>
+      )}
+
       <div className="flex items-center justify-between mb-3">
         <h3 className="font-fantasy text-lg font-semibold text-primary">Online Players</h3>
         <div className="flex items-center space-x-2">
@@ -91,6 +211,16 @@ export function MultiplayerPanel({ onlinePlayers, currentPlayerId }: Multiplayer
               </div>
               
               <div className="flex flex-col items-end text-xs text-muted-foreground">
+                {canInvite && !party?.members.some(member => member.id === player.id) && (
+                  <button
+                    className="text-primary hover:underline disabled:opacity-50"
+                    disabled={partyMutation.isPending}
+                    onClick={() => partyMutation.mutate({ action: "invite", playerId: player.id })}
+                    data-testid={`button-invite-${player.id}`}
+                  >
+                    Invite
+                  </button>
+                )}
                 <div>{Math.floor(Math.sqrt((player.positionX - 0)**2 + (player.positionZ - 0)**2))}m</div>
                 <div className="text-accent">
                   {player.isInTutorialZone ? "Tutorial" : "World"}
@@ -0,0 +1,52 @@
+import { useEffect, useState } from "react";
+import { STATUS_EFFECTS, type ActiveStatusEffect } from "@shared/statusEffects";
+
+interface StatusEffectBarProps {
+  effects: ActiveStatusEffect[];
+}
+
+// Buffs first, then debuffs, each with its time left and stack count
+export function StatusEffectBar({ effects }: StatusEffectBarProps) {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, []);
+
+  const visible = effects
+    .filter(effect => effect.expiresAt === null || effect.expiresAt > now)
+    .sort((a, b) => STATUS_EFFECTS[a.type].category.localeCompare(STATUS_EFFECTS[b.type].category));
+  if (visible.length === 0) return null;
+
+  return (
+    <div className="absolute top-4 left-4 z-10 flex space-x-2" data-testid="status-effect-bar">
+      {visible.map(effect => {
+        const definition = STATUS_EFFECTS[effect.type];
+        const isBuff = definition.category === "buff";
+        const secondsLeft = effect.expiresAt === null ? null : Math.ceil((effect.expiresAt - now) / 1000);
+
+        return (
+          <div
+            key={effect.type}
+            className={`relative floating-ui rounded-lg w-10 h-10 flex items-center justify-center border ${
+              isBuff ? "border-accent" : "border-destructive"
+            }`}
+            title={`${definition.name}: ${effect.magnitude} ${definition.magnitudeLabel}`}
+            data-testid={`status-effect-${effect.type}`}
+          >
+            <i className={`${definition.icon} ${isBuff ? "text-accent" : "text-destructive"}`}></i>
+            {effect.stacks > 1 && (
+              <span className="absolute top-0 right-1 text-[10px] font-bold">{effect.stacks}</span>
+            )}
+            {secondsLeft !== null && (
+              <span className="absolute -bottom-4 left-0 right-0 text-center text-[10px] text-muted-foreground">
+                {secondsLeft}s
+              </span>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
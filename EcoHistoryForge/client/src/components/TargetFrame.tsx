@@ -0,0 +1,45 @@
+import { TargetRef } from "@/lib/gameTypes";
+
+interface TargetFrameProps {
+  kind: TargetRef["kind"];
+  name: string;
+  level: number;
+  health: number;
+  maxHealth: number;
+  onClear: () => void;
+}
+
+export function TargetFrame({ kind, name, level, health, maxHealth, onClear }: TargetFrameProps) {
+  const healthPercentage = maxHealth > 0 ? Math.max(0, Math.floor((health / maxHealth) * 100)) : 0;
+
+  return (
+    <div className="absolute top-4 left-1/2 transform -translate-x-1/2 z-10 floating-ui rounded-lg p-3 w-64" data-testid="target-frame">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center space-x-2">
+          <i className={`fas ${kind === "monster" ? "fa-skull text-destructive" : "fa-user text-accent"}`}></i>
+          <span className="font-medium" data-testid="target-name">{name}</span>
+        </div>
+        <div className="flex items-center space-x-2">
+          <span className="text-xs text-muted-foreground" data-testid="target-level">Lv {level}</span>
+          <button
+            onClick={onClear}
+            className="text-muted-foreground hover:text-foreground"
+            data-testid="button-clear-target"
+          >
+            <i className="fas fa-times text-xs"></i>
+          </button>
+        </div>
+      </div>
+      <div className="w-full bg-muted rounded-full h-2">
+        <div
+          className="health-bar h-2 rounded-full"
+          style={{ width: `${healthPercentage}%` }}
+          data-testid="target-health-bar"
+        />
+      </div>
+      <div className="text-xs text-muted-foreground text-right mt-1" data-testid="target-health-value">
+        {health.toLocaleString()}/{maxHealth.toLocaleString()}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+import { useQuery } from "@tanstack/react-query";
+import type { PlayerAbilityProgress } from "@shared/abilities";
+
+export const ABILITY_PROGRESS_QUERY_KEY = ["/api/abilities/progress"];
+
+// The server decides what's owned, learnable or locked; invalidate this after
+// anything that can change it (level ups, new items, rebirth)
+export function useAbilityProgress(enabled: boolean = true) {
+  const { data } = useQuery<PlayerAbilityProgress>({
+    queryKey: ABILITY_PROGRESS_QUERY_KEY,
+    enabled,
+  });
+
+  return data;
+}
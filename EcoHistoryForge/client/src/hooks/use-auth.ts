@@ -0,0 +1,63 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { GamePlayer } from "@/lib/gameTypes";
+import { apiRequest, getQueryFn } from "@/lib/queryClient";
+
+export const AUTH_QUERY_KEY = ["/api/auth/me"];
+
+interface LoginData {
+  username: string;
+  password: string;
+}
+
+interface RegisterData extends LoginData {
+  characterName: string;
+}
+
+export function useAuth() {
+  const queryClient = useQueryClient();
+
+  // Logged-out visitors get null instead of an error
+  const { data: player, isLoading } = useQuery<GamePlayer | null>({
+    queryKey: AUTH_QUERY_KEY,
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const onAuthenticated = (response: { player: GamePlayer }) => {
+    queryClient.setQueryData(AUTH_QUERY_KEY, response.player);
+  };
+
+  const loginMutation = useMutation({
+    mutationFn: async (data: LoginData) => {
+      const res = await apiRequest("POST", "/api/auth/login", data);
+      return (await res.json()) as { player: GamePlayer };
+    },
+    onSuccess: onAuthenticated,
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (data: RegisterData) => {
+      const res = await apiRequest("POST", "/api/auth/register", data);
+      return (await res.json()) as { player: GamePlayer };
+    },
+    onSuccess: onAuthenticated,
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/logout");
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(AUTH_QUERY_KEY, null);
+      // Drop everything cached for the previous player
+      queryClient.removeQueries({ predicate: query => query.queryKey[0] !== AUTH_QUERY_KEY[0] });
+    },
+  });
+
+  return {
+    player: player ?? null,
+    isLoading,
+    loginMutation,
+    registerMutation,
+    logoutMutation,
+  };
+}
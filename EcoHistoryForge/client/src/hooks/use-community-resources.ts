@@ -0,0 +1,14 @@
+import { useQuery } from "@tanstack/react-query";
+import type { CommunityResourcesSnapshot } from "@shared/communityResources";
+
+export const COMMUNITY_RESOURCES_QUERY_KEY = ["/api/game/resources"];
+
+// The player's community stock and recent changes; community_resources events keep it current
+export function useCommunityResources(enabled: boolean = true) {
+  const { data } = useQuery<CommunityResourcesSnapshot>({
+    queryKey: COMMUNITY_RESOURCES_QUERY_KEY,
+    enabled,
+  });
+
+  return data;
+}
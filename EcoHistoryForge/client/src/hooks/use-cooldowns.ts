@@ -0,0 +1,26 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { CooldownSnapshot } from "@shared/abilities";
+
+export function cooldownsQueryKey(playerId: string) {
+  return ["/api/combat/cooldowns", playerId];
+}
+
+// When each of the player's abilities is ready again, in local clock time.
+// useGameSocket replaces the snapshot whenever a `cooldowns` event arrives.
+export function useCooldowns(playerId: string | undefined): Record<string, number> {
+  const { data, dataUpdatedAt } = useQuery<CooldownSnapshot>({
+    queryKey: cooldownsQueryKey(playerId ?? ""),
+    enabled: !!playerId,
+    staleTime: Infinity,
+  });
+
+  return useMemo(() => {
+    if (!data) return {};
+    // Shift server times by how far our clock is from the server's when the snapshot arrived
+    const offset = dataUpdatedAt - data.serverTime;
+    return Object.fromEntries(
+      Object.entries(data.cooldowns).map(([abilityId, readyAt]) => [abilityId, readyAt + offset]),
+    );
+  }, [data, dataUpdatedAt]);
+}
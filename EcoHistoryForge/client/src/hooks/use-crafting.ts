@@ -0,0 +1,14 @@
+import { useQuery } from "@tanstack/react-query";
+import type { CraftingSnapshot } from "@shared/crafting";
+
+export const CRAFTING_QUERY_KEY = ["/api/craft"];
+
+// Recipes and the player's crafting queue; crafting_queue events patch the queue
+export function useCrafting(enabled: boolean = true) {
+  const { data } = useQuery<CraftingSnapshot>({
+    queryKey: CRAFTING_QUERY_KEY,
+    enabled,
+  });
+
+  return data;
+}
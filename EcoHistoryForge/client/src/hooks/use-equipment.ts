@@ -0,0 +1,14 @@
+import { useQuery } from "@tanstack/react-query";
+import type { EquipmentSnapshot } from "@shared/equipment";
+
+export const EQUIPMENT_QUERY_KEY = ["/api/equipment"];
+
+// What's worn in each slot; the equip and unequip routes return the new snapshot
+export function useEquipment(enabled: boolean = true) {
+  const { data } = useQuery<EquipmentSnapshot>({
+    queryKey: EQUIPMENT_QUERY_KEY,
+    enabled,
+  });
+
+  return data;
+}
@@ -0,0 +1,18 @@
+import { useQuery } from "@tanstack/react-query";
+import { Monster } from "@/lib/gameTypes";
+
+export const MONSTER_ZONE = "selha_latna";
+export const MONSTERS_QUERY_KEY = ["/api/monsters", MONSTER_ZONE];
+
+// Snapshot of the zone's monsters; useGameSocket keeps it current from
+// monster_spawned / monster_updated / monster_killed events
+export function useMonsters(enabled: boolean = true) {
+  const { data: monsters = [] } = useQuery<Monster[]>({
+    queryKey: MONSTERS_QUERY_KEY,
+    enabled,
+    // Socket events replace polling; only refetch when asked to
+    staleTime: Infinity,
+  });
+
+  return monsters;
+}
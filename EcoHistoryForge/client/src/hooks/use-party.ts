@@ -0,0 +1,14 @@
+import { useQuery } from "@tanstack/react-query";
+import type { PartyState } from "@shared/party";
+
+export const PARTY_QUERY_KEY = ["/api/party"];
+
+// The player's party and pending invites; refetched on party_updated / party_invite
+export function useParty(enabled: boolean = true) {
+  const { data } = useQuery<PartyState>({
+    queryKey: PARTY_QUERY_KEY,
+    enabled,
+  });
+
+  return data;
+}
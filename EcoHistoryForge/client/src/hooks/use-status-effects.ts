@@ -0,0 +1,16 @@
+import { useQuery } from "@tanstack/react-query";
+import type { ActiveStatusEffect, StatusEffectsUpdate } from "@shared/statusEffects";
+
+export const STATUS_EFFECTS_QUERY_KEY = ["/api/combat/status-effects"];
+
+// The local player's buffs and debuffs; useGameSocket replaces them on every
+// `status_effects` event for this player
+export function useStatusEffects(enabled: boolean = true): ActiveStatusEffect[] {
+  const { data } = useQuery<StatusEffectsUpdate>({
+    queryKey: STATUS_EFFECTS_QUERY_KEY,
+    enabled,
+    staleTime: Infinity,
+  });
+
+  return data?.effects ?? [];
+}
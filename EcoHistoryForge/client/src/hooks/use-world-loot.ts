@@ -0,0 +1,18 @@
+import { useQuery } from "@tanstack/react-query";
+import { WorldLoot } from "@/lib/gameTypes";
+import { MONSTER_ZONE } from "@/hooks/use-monsters";
+
+export const WORLD_LOOT_QUERY_KEY = ["/api/loot", MONSTER_ZONE];
+
+// Drops lying in the zone; useGameSocket adds and removes them from
+// loot_dropped / loot_collected events
+export function useWorldLoot(enabled: boolean = true) {
+  const { data: loot = [] } = useQuery<WorldLoot[]>({
+    queryKey: WORLD_LOOT_QUERY_KEY,
+    enabled,
+    // Expired drops have no event, so they're swept up by an occasional refetch
+    refetchInterval: 30000,
+  });
+
+  return loot;
+}
@@ -1,6 +1,9 @@
 import { useEffect, useRef, useCallback, useState } from "react";
 import * as THREE from "three";
-import { GamePlayer, Monster, Vector3, WorldLoot } from "@/lib/gameTypes";
+import { AbilityEffect, GamePlayer, Monster, MonsterAIState, TargetRef, Vector3, WorldLoot } from "@/lib/gameTypes";
+import { ZONE_OBSTACLES } from "@shared/world";
+import { ZONE_CRAFTING_STATIONS } from "@shared/crafting";
+import type { CastStarted } from "@shared/abilities";
 
 interface Game3DData {
   scene: THREE.Scene | null;
@@ -10,12 +13,68 @@ interface Game3DData {
   updatePlayerPosition: (position: Vector3, rotation?: number) => void;
   updateOtherPlayers: (players: GamePlayer[]) => void;
   addMonster: (monster: Monster) => void;
+  updateMonster: (monster: Monster) => void;
   removeMonster: (monsterId: string) => void;
   addLoot: (loot: WorldLoot) => void;
   removeLoot: (lootId: string) => void;
+  addCorpse: (playerId: string, position: Vector3) => void;
+  removeCorpse: (playerId: string) => void;
+  pickTarget: (clientX: number, clientY: number) => TargetRef | null;
+  setTargetMarker: (target: TargetRef | null) => void;
+  playAbilityEffect: (effect: AbilityEffect) => void;
+  endProjectile: (projectileId: string) => void;
+  setShield: (playerId: string, isLocalPlayer: boolean, expiresAt: number | null) => void;
+  setCastIndicator: (playerId: string, isLocalPlayer: boolean, cast: CastStarted | null) => void;
   getCameraTarget: () => Vector3 | null;
 }
 
+// How quickly monster meshes catch up with their latest server position
+const MONSTER_LERP_SPEED = 8;
+
+// Returns false once the effect has finished and removed itself
+type EffectUpdater = (deltaSeconds: number) => boolean;
+
+const CONE_EFFECT_SECONDS = 0.5;
+const RADIUS_EFFECT_SECONDS = 0.6;
+const PROJECTILE_HEIGHT = 1.5;
+
+const HEALTH_BAR_WIDTH = 64;
+const HEALTH_BAR_HEIGHT = 8;
+
+// Health bars are canvas sprites so they always face the camera
+function createHealthBar(): THREE.Sprite {
+  const canvas = document.createElement("canvas");
+  canvas.width = HEALTH_BAR_WIDTH;
+  canvas.height = HEALTH_BAR_HEIGHT;
+  const material = new THREE.SpriteMaterial({ map: new THREE.CanvasTexture(canvas), depthTest: false });
+  const sprite = new THREE.Sprite(material);
+  sprite.scale.set(2.5, 0.3, 1);
+  sprite.position.y = 2.2; // just above the 3-unit-tall monster box
+  sprite.userData.canvas = canvas;
+  return sprite;
+}
+
+function drawHealthBar(sprite: THREE.Sprite, health: number, maxHealth: number): void {
+  const canvas: HTMLCanvasElement = sprite.userData.canvas;
+  const context = canvas.getContext("2d");
+  if (!context) return;
+
+  const ratio = maxHealth > 0 ? Math.max(0, Math.min(1, health / maxHealth)) : 0;
+  context.fillStyle = "#111827";
+  context.fillRect(0, 0, HEALTH_BAR_WIDTH, HEALTH_BAR_HEIGHT);
+  context.fillStyle = ratio > 0.5 ? "#22c55e" : ratio > 0.25 ? "#eab308" : "#ef4444";
+  context.fillRect(1, 1, (HEALTH_BAR_WIDTH - 2) * ratio, HEALTH_BAR_HEIGHT - 2);
+  sprite.material.map!.needsUpdate = true;
+}
+
+const MONSTER_STATE_COLORS: Record<MonsterAIState, number> = {
+  idle: 0xdc2626,
+  wandering: 0xdc2626,
+  chasing: 0xf97316,
+  attacking: 0xfacc15,
+  returning: 0x9ca3af,
+};
+
 export function useGame3D(containerRef: React.RefObject<HTMLElement>): Game3DData {
   const sceneRef = useRef<THREE.Scene | null>(null);
   const cameraRef = useRef<THREE.PerspectiveCamera | null>(null);
@@ -24,7 +83,15 @@ export function useGame3D(containerRef: React.RefObject<HTMLElement>): Game3DDat
   const otherPlayersRef = useRef<Map<string, THREE.Mesh>>(new Map());
   const monstersRef = useRef<Map<string, THREE.Mesh>>(new Map());
   const lootRef = useRef<Map<string, THREE.Mesh>>(new Map());
+  const corpsesRef = useRef<Map<string, THREE.Mesh>>(new Map());
+  const targetMarkerRef = useRef<THREE.Mesh | null>(null);
+  const selectedTargetRef = useRef<TargetRef | null>(null);
+  const effectsRef = useRef<EffectUpdater[]>([]);
+  const projectilesRef = useRef<Map<string, { ended: boolean }>>(new Map());
+  const shieldsRef = useRef<Map<string, THREE.Mesh>>(new Map());
+  const castIndicatorsRef = useRef<Map<string, THREE.Mesh>>(new Map());
   const animationFrameRef = useRef<number>();
+  const clockRef = useRef(new THREE.Clock());
   
   const [isInitialized, setIsInitialized] = useState(false);
 
@@ -83,21 +150,27 @@ export function useGame3D(containerRef: React.RefObject<HTMLElement>): Game3DDat
     const gridHelper = new THREE.GridHelper(200, 40, 0x718096, 0x4a5568);
     scene.add(gridHelper);
 
-    // Add some environmental objects (ancient structures)
-    for (let i = 0; i < 10; i++) {
-      const pillarGeometry = new THREE.CylinderGeometry(1, 1.5, 8, 8);
+    // Ancient pillars; shared with the server, which uses them to block line of sight
+    ZONE_OBSTACLES.selha_latna.forEach(obstacle => {
+      const pillarGeometry = new THREE.CylinderGeometry(obstacle.radius * 2 / 3, obstacle.radius, obstacle.height, 8);
       const pillarMaterial = new THREE.MeshLambertMaterial({ color: 0x6b7280 });
       const pillar = new THREE.Mesh(pillarGeometry, pillarMaterial);
       
-      const angle = (i / 10) * Math.PI * 2;
-      const radius = 40 + Math.random() * 30;
-      pillar.position.x = Math.cos(angle) * radius;
-      pillar.position.z = Math.sin(angle) * radius;
-      pillar.position.y = 4;
+      pillar.position.set(obstacle.x, obstacle.height / 2, obstacle.z);
       pillar.castShadow = true;
       
       scene.add(pillar);
-    }
+    });
+
+    // Crafting stations; recipes that need one can only be queued close by
+    ZONE_CRAFTING_STATIONS.selha_latna.forEach(station => {
+      const stationMesh = station.type === "campfire"
+        ? new THREE.Mesh(new THREE.ConeGeometry(0.8, 1.2, 6), new THREE.MeshLambertMaterial({ color: 0xf97316, emissive: 0x7c2d12 }))
+        : new THREE.Mesh(new THREE.BoxGeometry(2.5, 1, 1.2), new THREE.MeshLambertMaterial({ color: 0x92400e }));
+      stationMesh.position.set(station.x, station.type === "campfire" ? 0.6 : 0.5, station.z);
+      stationMesh.castShadow = true;
+      scene.add(stationMesh);
+    });
 
     // Create player character
     const playerGeometry = new THREE.CapsuleGeometry(1, 2, 4, 8);
@@ -108,9 +181,36 @@ export function useGame3D(containerRef: React.RefObject<HTMLElement>): Game3DDat
     scene.add(playerMesh);
     playerMeshRef.current = playerMesh;
 
+    // Ring on the ground under whatever is targeted
+    const markerGeometry = new THREE.RingGeometry(1.8, 2.2, 32);
+    const markerMaterial = new THREE.MeshBasicMaterial({ color: 0xfacc15, side: THREE.DoubleSide, transparent: true, opacity: 0.8 });
+    const targetMarker = new THREE.Mesh(markerGeometry, markerMaterial);
+    targetMarker.rotation.x = -Math.PI / 2;
+    targetMarker.visible = false;
+    scene.add(targetMarker);
+    targetMarkerRef.current = targetMarker;
+
     // Animation loop
     const animate = () => {
       animationFrameRef.current = requestAnimationFrame(animate);
+      const delta = clockRef.current.getDelta();
+
+      // Server sends monster positions a few times a second; glide between them
+      monstersRef.current.forEach(mesh => {
+        const target: THREE.Vector3 | undefined = mesh.userData.targetPosition;
+        if (target) {
+          mesh.position.lerp(target, Math.min(1, delta * MONSTER_LERP_SPEED));
+        }
+      });
+
+      effectsRef.current = effectsRef.current.filter(update => update(delta));
+
+      const selected = selectedTargetRef.current;
+      const selectedMesh = selected && (selected.kind === "monster" ? monstersRef.current : otherPlayersRef.current).get(selected.id);
+      targetMarker.visible = !!selectedMesh;
+      if (selectedMesh) {
+        targetMarker.position.set(selectedMesh.position.x, 0.05, selectedMesh.position.z);
+      }
       
       // Make the camera follow the player
       if (playerMeshRef.current) {
@@ -187,6 +287,7 @@ export function useGame3D(containerRef: React.RefObject<HTMLElement>): Game3DDat
         const material = new THREE.MeshLambertMaterial({ color: 0x10b981 }); // Accent color
         mesh = new THREE.Mesh(geometry, material);
         mesh.castShadow = true;
+        mesh.userData.target = { id: player.id, kind: "player" } satisfies TargetRef;
         sceneRef.current!.add(mesh);
         otherPlayersRef.current.set(player.id, mesh);
         
@@ -218,24 +319,62 @@ export function useGame3D(containerRef: React.RefObject<HTMLElement>): Game3DDat
     });
   }, []);
 
+  const updateMonster = useCallback((monster: Monster) => {
+    const mesh = monstersRef.current.get(monster.id);
+    if (!mesh) return;
+
+    const target: THREE.Vector3 = mesh.userData.targetPosition;
+    target.set(monster.positionX, monster.positionY + 1.5, monster.positionZ);
+
+    // Face the direction of travel
+    const dx = target.x - mesh.position.x;
+    const dz = target.z - mesh.position.z;
+    if (Math.abs(dx) + Math.abs(dz) > 0.01) {
+      mesh.rotation.y = Math.atan2(dx, dz);
+    }
+
+    const material = mesh.material as THREE.MeshLambertMaterial;
+    material.color.setHex(MONSTER_STATE_COLORS[monster.state ?? "idle"]);
+
+    // Only redraw the bar when health actually changed
+    const healthBar: THREE.Sprite = mesh.userData.healthBar;
+    if (mesh.userData.health !== monster.health || mesh.userData.maxHealth !== monster.maxHealth) {
+      mesh.userData.health = monster.health;
+      mesh.userData.maxHealth = monster.maxHealth;
+      drawHealthBar(healthBar, monster.health, monster.maxHealth);
+    }
+  }, []);
+
   const addMonster = useCallback((monster: Monster) => {
     if (!sceneRef.current) return;
+    if (monstersRef.current.has(monster.id)) {
+      updateMonster(monster);
+      return;
+    }
 
     const geometry = new THREE.BoxGeometry(2, 3, 2);
     const material = new THREE.MeshLambertMaterial({ color: 0xdc2626 }); // Red for monsters
     const mesh = new THREE.Mesh(geometry, material);
     
     mesh.position.set(monster.positionX, monster.positionY + 1.5, monster.positionZ);
+    mesh.userData.targetPosition = mesh.position.clone();
+    mesh.userData.target = { id: monster.id, kind: "monster" } satisfies TargetRef;
+    mesh.userData.healthBar = createHealthBar();
+    mesh.add(mesh.userData.healthBar);
     mesh.castShadow = true;
     
     sceneRef.current.add(mesh);
     monstersRef.current.set(monster.id, mesh);
-  }, []);
+    updateMonster(monster);
+  }, [updateMonster]);
 
   const removeMonster = useCallback((monsterId: string) => {
     const mesh = monstersRef.current.get(monsterId);
     if (mesh && sceneRef.current) {
       sceneRef.current.remove(mesh);
+      const healthBar: THREE.Sprite = mesh.userData.healthBar;
+      healthBar.material.map?.dispose();
+      healthBar.material.dispose();
       monstersRef.current.delete(monsterId);
     }
   }, []);
@@ -277,6 +416,28 @@ export function useGame3D(containerRef: React.RefObject<HTMLElement>): Game3DDat
     }
   }, []);
 
+  const addCorpse = useCallback((playerId: string, position: Vector3) => {
+    if (!sceneRef.current || corpsesRef.current.has(playerId)) return;
+
+    // Same capsule as a player, laid flat and greyed out
+    const geometry = new THREE.CapsuleGeometry(1, 2, 4, 8);
+    const material = new THREE.MeshLambertMaterial({ color: 0x6b7280, transparent: true, opacity: 0.7 });
+    const mesh = new THREE.Mesh(geometry, material);
+    mesh.position.set(position.x, position.y + 1, position.z);
+    mesh.rotation.z = Math.PI / 2;
+
+    sceneRef.current.add(mesh);
+    corpsesRef.current.set(playerId, mesh);
+  }, []);
+
+  const removeCorpse = useCallback((playerId: string) => {
+    const mesh = corpsesRef.current.get(playerId);
+    if (mesh && sceneRef.current) {
+      sceneRef.current.remove(mesh);
+      corpsesRef.current.delete(playerId);
+    }
+  }, []);
+
   const getCameraTarget = useCallback((): Vector3 | null => {
     if (!cameraRef.current) return null;
     
@@ -285,6 +446,191 @@ export function useGame3D(containerRef: React.RefObject<HTMLElement>): Game3DDat
     return { x: target.x, y: target.y, z: target.z };
   }, []);
 
+  // Returns the monster or player under the given screen point, if any
+  const pickTarget = useCallback((clientX: number, clientY: number): TargetRef | null => {
+    const camera = cameraRef.current;
+    const renderer = rendererRef.current;
+    if (!camera || !renderer) return null;
+
+    const rect = renderer.domElement.getBoundingClientRect();
+    const pointer = new THREE.Vector2(
+      ((clientX - rect.left) / rect.width) * 2 - 1,
+      -((clientY - rect.top) / rect.height) * 2 + 1
+    );
+    const raycaster = new THREE.Raycaster();
+    raycaster.setFromCamera(pointer, camera);
+
+    const candidates = [
+      ...Array.from(monstersRef.current.values()),
+      ...Array.from(otherPlayersRef.current.values()),
+    ];
+    const [hit] = raycaster.intersectObjects(candidates, false);
+    return hit ? (hit.object.userData.target as TargetRef) : null;
+  }, []);
+
+  const setTargetMarker = useCallback((target: TargetRef | null) => {
+    selectedTargetRef.current = target;
+  }, []);
+
+  const playAbilityEffect = useCallback((effect: AbilityEffect) => {
+    const scene = sceneRef.current;
+    if (!scene) return;
+
+    const direction = new THREE.Vector3(effect.directionX, 0, effect.directionZ).normalize();
+
+    if (effect.kind === "projectile" && effect.projectileId) {
+      const mesh = new THREE.Mesh(
+        new THREE.SphereGeometry(0.4, 8, 6),
+        new THREE.MeshBasicMaterial({ color: 0xa16207 })
+      );
+      mesh.position.set(effect.originX, PROJECTILE_HEIGHT, effect.originZ);
+      scene.add(mesh);
+
+      const state = { ended: false };
+      projectilesRef.current.set(effect.projectileId, state);
+      const speed = effect.speed ?? 40;
+      let travelled = 0;
+
+      effectsRef.current.push((delta) => {
+        // The server decides when it lands; this just keeps it moving until then
+        const target = effect.targetId ? monstersRef.current.get(effect.targetId) : undefined;
+        if (target) {
+          direction.set(target.position.x - mesh.position.x, 0, target.position.z - mesh.position.z).normalize();
+        }
+        const step = speed * delta;
+        mesh.position.addScaledVector(direction, step);
+        travelled += step;
+
+        if (state.ended || travelled >= effect.range) {
+          scene.remove(mesh);
+          projectilesRef.current.delete(effect.projectileId!);
+          return false;
+        }
+        return true;
+      });
+      return;
+    }
+
+    if (effect.kind === "cone") {
+      // CircleGeometry sweeps from +X towards +Y, which lies along -Z once laid flat
+      const angle = THREE.MathUtils.degToRad(effect.coneAngle ?? 90);
+      const heading = Math.atan2(-direction.z, direction.x);
+      const material = new THREE.MeshBasicMaterial({ color: 0x93c5fd, transparent: true, opacity: 0.5, side: THREE.DoubleSide });
+      const mesh = new THREE.Mesh(new THREE.CircleGeometry(effect.range, 24, heading - angle / 2, angle), material);
+      mesh.rotation.x = -Math.PI / 2;
+      mesh.position.set(effect.originX, 0.1, effect.originZ);
+      scene.add(mesh);
+
+      let elapsed = 0;
+      effectsRef.current.push((delta) => {
+        elapsed += delta;
+        material.opacity = 0.5 * (1 - elapsed / CONE_EFFECT_SECONDS);
+        if (elapsed >= CONE_EFFECT_SECONDS) {
+          scene.remove(mesh);
+          return false;
+        }
+        return true;
+      });
+      return;
+    }
+
+    if (effect.kind === "radius") {
+      const material = new THREE.MeshBasicMaterial({ color: 0xa855f7, transparent: true, opacity: 0.7, side: THREE.DoubleSide });
+      const mesh = new THREE.Mesh(new THREE.RingGeometry(0.85, 1, 48), material);
+      mesh.rotation.x = -Math.PI / 2;
+      mesh.position.set(effect.originX, 0.1, effect.originZ);
+      scene.add(mesh);
+
+      let elapsed = 0;
+      effectsRef.current.push((delta) => {
+        elapsed += delta;
+        const progress = Math.min(1, elapsed / RADIUS_EFFECT_SECONDS);
+        const scale = Math.max(0.01, effect.range * progress);
+        mesh.scale.set(scale, scale, 1);
+        material.opacity = 0.7 * (1 - progress);
+        if (progress >= 1) {
+          scene.remove(mesh);
+          return false;
+        }
+        return true;
+      });
+    }
+    // Shields are drawn from player_shield updates via setShield
+  }, []);
+
+  const endProjectile = useCallback((projectileId: string) => {
+    const state = projectilesRef.current.get(projectileId);
+    if (state) {
+      state.ended = true;
+    }
+  }, []);
+
+  // Shows a shield bubble around a player until `expiresAt`; null removes it
+  const setShield = useCallback((playerId: string, isLocalPlayer: boolean, expiresAt: number | null) => {
+    const existing = shieldsRef.current.get(playerId);
+    if (existing) {
+      existing.parent?.remove(existing);
+      shieldsRef.current.delete(playerId);
+    }
+    if (expiresAt === null) return;
+
+    const owner = isLocalPlayer ? playerMeshRef.current : otherPlayersRef.current.get(playerId);
+    if (!owner) return;
+
+    const mesh = new THREE.Mesh(
+      new THREE.SphereGeometry(2.5, 16, 12),
+      new THREE.MeshBasicMaterial({ color: 0xa16207, transparent: true, opacity: 0.25 })
+    );
+    owner.add(mesh);
+    shieldsRef.current.set(playerId, mesh);
+
+    effectsRef.current.push(() => {
+      if (shieldsRef.current.get(playerId) !== mesh) return false; // replaced or removed
+      if (Date.now() >= expiresAt) {
+        owner.remove(mesh);
+        shieldsRef.current.delete(playerId);
+        return false;
+      }
+      return true;
+    });
+  }, []);
+
+  // A glowing ring at the caster's feet: charged casts fill it up, channels pulse it
+  const setCastIndicator = useCallback((playerId: string, isLocalPlayer: boolean, cast: CastStarted | null) => {
+    const existing = castIndicatorsRef.current.get(playerId);
+    if (existing) {
+      existing.parent?.remove(existing);
+      castIndicatorsRef.current.delete(playerId);
+    }
+    if (cast === null) return;
+
+    const owner = isLocalPlayer ? playerMeshRef.current : otherPlayersRef.current.get(playerId);
+    if (!owner) return;
+
+    const mesh = new THREE.Mesh(
+      new THREE.RingGeometry(1.2, 1.6, 32),
+      new THREE.MeshBasicMaterial({
+        color: cast.kind === "channel" ? 0x38bdf8 : 0xc084fc,
+        transparent: true,
+        opacity: 0.7,
+        side: THREE.DoubleSide,
+      })
+    );
+    mesh.rotation.x = -Math.PI / 2;
+    mesh.position.y = -1.45; // just above the ground; player meshes sit 1.5 up
+    owner.add(mesh);
+    castIndicatorsRef.current.set(playerId, mesh);
+
+    const duration = Math.max(1, cast.endsAt - cast.startedAt);
+    effectsRef.current.push(() => {
+      if (castIndicatorsRef.current.get(playerId) !== mesh) return false; // ended or replaced
+      const progress = Math.min(1, (Date.now() - cast.startedAt) / duration);
+      const scale = cast.kind === "channel" ? 1 + 0.15 * Math.sin(progress * Math.PI * 8) : 0.3 + 0.7 * progress;
+      mesh.scale.set(scale, scale, scale);
+      return true;
+    });
+  }, []);
+
   return {
     scene: sceneRef.current,
     camera: cameraRef.current,
@@ -293,9 +639,18 @@ export function useGame3D(containerRef: React.RefObject<HTMLElement>): Game3DDat
     updatePlayerPosition,
     updateOtherPlayers,
     addMonster,
+    updateMonster,
     removeMonster,
     addLoot,
     removeLoot,
+    addCorpse,
+    removeCorpse,
+    pickTarget,
+    setTargetMarker,
+    playAbilityEffect,
+    endProjectile,
+    setShield,
+    setCastIndicator,
     getCameraTarget,
   };
 }
@@ -1,23 +1,87 @@
 import { useState, useEffect, useCallback, useRef } from "react";
-import { ChatMessage, GamePlayer, AbilityResult } from "@/lib/gameTypes";
+import {
+  ChatMessage,
+  GamePlayer,
+  AbilityResult,
+  AbilityEffect,
+  PositionCorrection,
+  Monster,
+  MonsterUpdate,
+  PlayerDeath,
+  PlayerShield,
+  WorldLoot,
+} from "@/lib/gameTypes";
+import { queryClient } from "@/lib/queryClient";
+import { ABILITY_PROGRESS_QUERY_KEY } from "@/hooks/use-ability-progress";
+import { cooldownsQueryKey } from "@/hooks/use-cooldowns";
+import { STATUS_EFFECTS_QUERY_KEY } from "@/hooks/use-status-effects";
+import { AUTH_QUERY_KEY } from "@/hooks/use-auth";
+import { MONSTER_ZONE, MONSTERS_QUERY_KEY } from "@/hooks/use-monsters";
+import { WORLD_LOOT_QUERY_KEY } from "@/hooks/use-world-loot";
+import { PARTY_QUERY_KEY } from "@/hooks/use-party";
+import { CRAFTING_QUERY_KEY } from "@/hooks/use-crafting";
+import { COMMUNITY_RESOURCES_QUERY_KEY } from "@/hooks/use-community-resources";
+import { LOGGED_OUT_CLOSE_CODE, SESSION_REPLACED_CLOSE_CODE, type SocketErrorPayload } from "@shared/socket";
+import type { CastEnded, CastStarted, CooldownSnapshot } from "@shared/abilities";
+import type { StatusEffectsUpdate } from "@shared/statusEffects";
+import type { LootRollEnded, LootRollStarted, PartyInvite } from "@shared/party";
+import type { CraftCompleted, CraftingQueueUpdate, CraftingSnapshot } from "@shared/crafting";
+import {
+  RESOURCE_HISTORY_LIMIT,
+  type CommunityResourcesSnapshot,
+  type CommunityResourcesUpdate,
+} from "@shared/communityResources";
 
 interface GameSocketData {
   socket: WebSocket | null;
   isConnected: boolean;
+  isAuthenticated: boolean;
+  sessionReplaced: boolean;
+  positionCorrection: PositionCorrection | null;
+  deaths: Record<string, PlayerDeath>;
+  abilityEffect: AbilityEffect | null;
+  endedProjectileId: string | null;
+  shields: Record<string, PlayerShield>;
+  // Casts in progress, by caster
+  casts: Record<string, CastStarted>;
+  lastCastEnded: CastEnded | null;
+  // Need/greed rolls we can still answer, by loot id
+  lootRolls: Record<string, LootRollStarted>;
+  lastLootRollEnded: LootRollEnded | null;
+  lastPartyInvite: PartyInvite | null;
+  lastCraftCompleted: CraftCompleted | null;
   onlinePlayers: GamePlayer[];
   chatMessages: ChatMessage[];
   sendChatMessage: (message: string, channel?: string) => void;
   sendPlayerMove: (x: number, y: number, z: number, rotation?: number) => void;
   sendUseAbility: (abilityName: string, targetId?: string) => void;
-  authenticate: (playerId: string) => void;
+  authenticate: () => void;
 }
 
 export function useGameSocket(): GameSocketData {
   const [socket, setSocket] = useState<WebSocket | null>(null);
   const [isConnected, setIsConnected] = useState(false);
+  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [sessionReplaced, setSessionReplaced] = useState(false);
+  const [positionCorrection, setPositionCorrection] = useState<PositionCorrection | null>(null);
+  const [deaths, setDeaths] = useState<Record<string, PlayerDeath>>({});
+  const [abilityEffect, setAbilityEffect] = useState<AbilityEffect | null>(null);
+  const [endedProjectileId, setEndedProjectileId] = useState<string | null>(null);
+  const [shields, setShields] = useState<Record<string, PlayerShield>>({});
+  const [casts, setCasts] = useState<Record<string, CastStarted>>({});
+  const [lastCastEnded, setLastCastEnded] = useState<CastEnded | null>(null);
+  const [lootRolls, setLootRolls] = useState<Record<string, LootRollStarted>>({});
+  const [lastLootRollEnded, setLastLootRollEnded] = useState<LootRollEnded | null>(null);
+  const [lastPartyInvite, setLastPartyInvite] = useState<PartyInvite | null>(null);
+  const [lastCraftCompleted, setLastCraftCompleted] = useState<CraftCompleted | null>(null);
+  const playerIdRef = useRef<string | null>(null);
   const [onlinePlayers, setOnlinePlayers] = useState<GamePlayer[]>([]);
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout>();
+  // The live socket for cleanup, and whether the hook has unmounted so a
+  // closing socket doesn't schedule a reconnect
+  const socketRef = useRef<WebSocket | null>(null);
+  const unmountedRef = useRef(false);
   const reconnectAttempts = useRef(0);
 
   const connect = useCallback(() => {
@@ -27,6 +91,7 @@ export function useGameSocket(): GameSocketData {
       
       console.log("Connecting to WebSocket:", wsUrl);
       const ws = new WebSocket(wsUrl);
+      socketRef.current = ws;
 
       ws.onopen = () => {
         console.log("WebSocket connected");
@@ -40,6 +105,216 @@ export function useGameSocket(): GameSocketData {
           const data = JSON.parse(event.data);
           
           switch (data.type) {
+            case 'authenticated':
+              playerIdRef.current = data.data.playerId;
+              setIsAuthenticated(true);
+              // Events may have been missed while disconnected
+              queryClient.invalidateQueries({ queryKey: MONSTERS_QUERY_KEY });
+              queryClient.invalidateQueries({ queryKey: WORLD_LOOT_QUERY_KEY });
+              queryClient.invalidateQueries({ queryKey: PARTY_QUERY_KEY });
+              queryClient.invalidateQueries({ queryKey: CRAFTING_QUERY_KEY });
+              queryClient.invalidateQueries({ queryKey: COMMUNITY_RESOURCES_QUERY_KEY });
+              break;
+
+            case 'monster_spawned': {
+              const spawned: Monster = data.data;
+              if (spawned.zone === MONSTER_ZONE) {
+                queryClient.setQueryData<Monster[]>(MONSTERS_QUERY_KEY, monsters =>
+                  monsters ? [...monsters.filter(m => m.id !== spawned.id), spawned] : monsters
+                );
+              }
+              break;
+            }
+
+            case 'monster_updated': {
+              const update: MonsterUpdate = data.data;
+              queryClient.setQueryData<Monster[]>(MONSTERS_QUERY_KEY, monsters =>
+                monsters?.map(monster => monster.id === update.id ? { ...monster, ...update } : monster)
+              );
+              break;
+            }
+
+            case 'monster_killed':
+              queryClient.setQueryData<Monster[]>(MONSTERS_QUERY_KEY, monsters =>
+                monsters?.filter(monster => monster.id !== data.data.id)
+              );
+              break;
+
+            case 'loot_dropped': {
+              const dropped: WorldLoot = data.data;
+              if (dropped.zone === MONSTER_ZONE) {
+                queryClient.setQueryData<WorldLoot[]>(WORLD_LOOT_QUERY_KEY, loot =>
+                  loot ? [...loot.filter(l => l.id !== dropped.id), dropped] : loot
+                );
+              }
+              break;
+            }
+
+            case 'loot_collected':
+              queryClient.setQueryData<WorldLoot[]>(WORLD_LOOT_QUERY_KEY, loot =>
+                loot?.filter(l => l.id !== data.data.lootId)
+              );
+              break;
+
+            case 'loot_roll_started': {
+              const roll: LootRollStarted = data.data;
+              setLootRolls(prev => ({ ...prev, [roll.lootId]: roll }));
+              break;
+            }
+
+            case 'loot_roll_ended': {
+              const ended: LootRollEnded = data.data;
+              setLootRolls(prev => {
+                const { [ended.lootId]: _ended, ...rest } = prev;
+                return rest;
+              });
+              setLastLootRollEnded({ ...ended });
+              // The drop now belongs to the winner
+              queryClient.invalidateQueries({ queryKey: WORLD_LOOT_QUERY_KEY });
+              break;
+            }
+
+            case 'party_invite':
+              setLastPartyInvite({ ...data.data });
+              queryClient.invalidateQueries({ queryKey: PARTY_QUERY_KEY });
+              break;
+
+            case 'party_updated':
+              queryClient.invalidateQueries({ queryKey: PARTY_QUERY_KEY });
+              break;
+
+            case 'crafting_queue': {
+              const update: CraftingQueueUpdate = data.data;
+              queryClient.setQueryData<CraftingSnapshot>(CRAFTING_QUERY_KEY, snapshot =>
+                snapshot ? { ...snapshot, queue: update.queue } : snapshot
+              );
+              break;
+            }
+
+            case 'community_resources': {
+              const update: CommunityResourcesUpdate = data.data;
+              queryClient.setQueryData<CommunityResourcesSnapshot>(COMMUNITY_RESOURCES_QUERY_KEY, snapshot =>
+                snapshot
+                  ? {
+                      food: update.food,
+                      materials: update.materials,
+                      sustainability: update.sustainability,
+                      abundance: update.abundance,
+                      history: [...update.changes, ...snapshot.history].slice(0, RESOURCE_HISTORY_LIMIT),
+                    }
+                  : snapshot
+              );
+              break;
+            }
+
+            case 'craft_completed':
+              setLastCraftCompleted({ ...data.data });
+              queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
+              break;
+
+            case 'player_damaged':
+              // Keep our own health bar in step with monster hits
+              if (data.data.playerId === playerIdRef.current) {
+                queryClient.setQueryData<GamePlayer | null>(AUTH_QUERY_KEY, player =>
+                  player ? { ...player, health: data.data.health } : player
+                );
+              }
+              break;
+
+            case 'player_healed':
+              if (data.data.playerId === playerIdRef.current) {
+                queryClient.setQueryData<GamePlayer | null>(AUTH_QUERY_KEY, player =>
+                  player ? { ...player, health: data.data.health } : player
+                );
+              }
+              break;
+
+            case 'status_effects': {
+              const update: StatusEffectsUpdate = data.data;
+              if (update.playerId === playerIdRef.current) {
+                queryClient.setQueryData(STATUS_EFFECTS_QUERY_KEY, update);
+              }
+              break;
+            }
+
+            case 'player_died':
+              setDeaths(prev => ({ ...prev, [data.data.playerId]: data.data }));
+              if (data.data.playerId === playerIdRef.current) {
+                // Experience or items may have been taken
+                queryClient.invalidateQueries({ queryKey: AUTH_QUERY_KEY });
+                queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
+              }
+              break;
+
+            case 'player_respawned':
+              setDeaths(prev => {
+                const { [data.data.playerId]: _respawned, ...rest } = prev;
+                return rest;
+              });
+              if (data.data.playerId === playerIdRef.current) {
+                const { positionX, positionY, positionZ, health, aura } = data.data;
+                queryClient.setQueryData<GamePlayer | null>(AUTH_QUERY_KEY, player =>
+                  player ? { ...player, positionX, positionY, positionZ, health, aura } : player
+                );
+              }
+              break;
+
+            case 'player_teleported':
+              if (data.data.playerId === playerIdRef.current) {
+                const { positionX, positionY, positionZ } = data.data;
+                queryClient.setQueryData<GamePlayer | null>(AUTH_QUERY_KEY, player =>
+                  player ? { ...player, positionX, positionY, positionZ } : player
+                );
+              }
+              break;
+
+            case 'cooldowns': {
+              const snapshot: CooldownSnapshot = data.data;
+              queryClient.setQueryData(cooldownsQueryKey(snapshot.playerId), snapshot);
+              break;
+            }
+
+            case 'abilities_learned':
+              // Level milestones teach abilities without the client asking
+              queryClient.invalidateQueries({ queryKey: ABILITY_PROGRESS_QUERY_KEY });
+              break;
+
+            case 'ability_effect':
+              setAbilityEffect({ ...data.data });
+              break;
+
+            case 'projectile_ended':
+              setEndedProjectileId(data.data.projectileId);
+              break;
+
+            case 'player_shield': {
+              const shield: PlayerShield = data.data;
+              setShields(prev => {
+                const { [shield.playerId]: _previous, ...rest } = prev;
+                return shield.amount > 0 ? { ...rest, [shield.playerId]: shield } : rest;
+              });
+              break;
+            }
+
+            case 'cast_started': {
+              const cast: CastStarted = data.data;
+              setCasts(prev => ({ ...prev, [cast.casterId]: cast }));
+              break;
+            }
+
+            case 'cast_completed':
+            case 'cast_interrupted': {
+              const ended: CastEnded = data.data;
+              setCasts(prev => {
+                // A newer cast may already have replaced this one
+                if (prev[ended.casterId]?.castId !== ended.castId) return prev;
+                const { [ended.casterId]: _ended, ...rest } = prev;
+                return rest;
+              });
+              setLastCastEnded({ ...ended });
+              break;
+            }
+
             case 'chat_message':
               setChatMessages(prev => [data.data, ...prev].slice(0, 50));
               break;
@@ -52,6 +327,11 @@ export function useGameSocket(): GameSocketData {
               ));
               break;
               
+            case 'position_correction':
+              // New object every time so repeated corrections to the same spot still apply
+              setPositionCorrection({ ...data.data });
+              break;
+
             case 'player_rebirth':
               console.log(`Player ${data.data.playerId} reached rebirth cycle ${data.data.newCycle}`);
               break;
@@ -67,9 +347,14 @@ export function useGameSocket(): GameSocketData {
               }
               break;
               
-            case 'error':
-              console.error("WebSocket error:", data.data.message);
+            case 'error': {
+              const error: SocketErrorPayload = data.data;
+              if (error.code === 'UNAUTHENTICATED') {
+                setIsAuthenticated(false);
+              }
+              console.error(`WebSocket error (${error.code}):`, error.message);
               break;
+            }
           }
         } catch (error) {
           console.error("Error parsing WebSocket message:", error);
@@ -79,7 +364,18 @@ export function useGameSocket(): GameSocketData {
       ws.onclose = (event) => {
         console.log("WebSocket disconnected:", event.code, event.reason);
         setIsConnected(false);
+        setIsAuthenticated(false);
         setSocket(null);
+        if (unmountedRef.current) return;
+
+        // Another window took over this player's session, reconnecting would just evict it back
+        if (event.code === SESSION_REPLACED_CLOSE_CODE) {
+          setSessionReplaced(true);
+          return;
+        }
+        if (event.code === LOGGED_OUT_CLOSE_CODE) {
+          return;
+        }
         
         // Auto-reconnect with exponential backoff
         if (reconnectAttempts.current < 5) {
@@ -103,17 +399,17 @@ export function useGameSocket(): GameSocketData {
   }, []);
 
   useEffect(() => {
+    unmountedRef.current = false;
     connect();
     
     return () => {
+      unmountedRef.current = true;
       if (reconnectTimeoutRef.current) {
         clearTimeout(reconnectTimeoutRef.current);
       }
-      if (socket) {
-        socket.close();
-      }
+      socketRef.current?.close();
     };
-  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+  }, [connect]);
 
   const sendMessage = useCallback((type: string, data: any) => {
     if (socket && socket.readyState === WebSocket.OPEN) {
@@ -135,13 +431,28 @@ export function useGameSocket(): GameSocketData {
     sendMessage('use_ability', { abilityName, targetId });
   }, [sendMessage]);
 
-  const authenticate = useCallback((playerId: string) => {
-    sendMessage('authenticate', { playerId });
+  // The server binds the socket to the session cookie on connect; this asks it to re-check
+  // the session, e.g. after logging in on a socket that was opened while logged out
+  const authenticate = useCallback(() => {
+    sendMessage('authenticate', {});
   }, [sendMessage]);
 
   return {
     socket,
     isConnected,
+    isAuthenticated,
+    sessionReplaced,
+    positionCorrection,
+    deaths,
+    abilityEffect,
+    endedProjectileId,
+    shields,
+    casts,
+    lastCastEnded,
+    lootRolls,
+    lastLootRollEnded,
+    lastPartyInvite,
+    lastCraftCompleted,
     onlinePlayers,
     chatMessages,
     sendChatMessage,
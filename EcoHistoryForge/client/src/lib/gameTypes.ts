@@ -1,3 +1,5 @@
+import type { AbilityKind } from "@shared/abilities";
+
 export interface GamePlayer {
   id: string;
   characterName: string;
@@ -29,12 +31,6 @@ export interface GameState {
   combatState: Record<string, any>;
 }
 
-export interface CommunityResources {
-  food: number;
-  materials: number;
-  sustainability: number;
-}
-
 export interface ChatMessage {
   id: string;
   playerId: string;
@@ -44,6 +40,8 @@ export interface ChatMessage {
   createdAt: Date;
 }
 
+export type MonsterAIState = "idle" | "wandering" | "chasing" | "attacking" | "returning";
+
 export interface Monster {
   id: string;
   name: string;
@@ -53,6 +51,54 @@ export interface Monster {
   positionX: number;
   positionY: number;
   positionZ: number;
+  zone?: string;
+  state?: MonsterAIState;
+  targetId?: string | null;
+}
+
+// Sent by the server's monster AI whenever a monster moves or changes state
+export interface MonsterUpdate {
+  id: string;
+  positionX: number;
+  positionY: number;
+  positionZ: number;
+  health: number;
+  maxHealth: number;
+  state: MonsterAIState;
+  targetId: string | null;
+}
+
+export type { AbilityKind };
+
+export interface AbilityHit {
+  targetId: string;
+  damage: number;
+  critical: boolean;
+  missed: boolean;
+  killed: boolean;
+}
+
+// Broadcast for every successful cast so all clients can draw it
+export interface AbilityEffect {
+  kind: AbilityKind;
+  abilityName: string;
+  casterId: string;
+  originX: number;
+  originZ: number;
+  directionX: number;
+  directionZ: number;
+  range: number;
+  coneAngle?: number; // degrees
+  targetId?: string;
+  projectileId?: string;
+  speed?: number;
+  shieldDurationMs?: number;
+}
+
+export interface PlayerShield {
+  playerId: string;
+  amount: number;
+  expiresAt: number; // epoch ms
 }
 
 export interface AbilityResult {
@@ -63,6 +109,15 @@ export interface AbilityResult {
   targetId?: string;
   message: string;
   auraCost: number;
+  critical?: boolean;
+  missed?: boolean;
+  kind?: AbilityKind;
+  hits?: AbilityHit[];
+  projectileId?: string;
+  shield?: number;
+  cooldownEndsAt?: number; // server epoch ms
+  castId?: string;
+  castEndsAt?: number; // server epoch ms
 }
 
 export interface Vector3 {
@@ -71,6 +126,31 @@ export interface Vector3 {
   z: number;
 }
 
+// Authoritative position the server sends back when it rejects or clamps a move
+export interface PositionCorrection extends Vector3 {
+  rotation?: number;
+}
+
+// What the player has selected for their abilities
+export interface TargetRef {
+  id: string;
+  kind: "monster" | "player";
+}
+
+export type DeathPenaltyType = "none" | "experience" | "inventory";
+
+// A player's body stays where they fell until they respawn
+export interface PlayerDeath {
+  playerId: string;
+  characterName: string;
+  positionX: number;
+  positionY: number;
+  positionZ: number;
+  respawnAt: number; // epoch ms
+  killedBy: string | null;
+  penalty: { type: DeathPenaltyType; experienceLost: number; itemsDropped: number };
+}
+
 export interface LootItem {
   id: string;
   name: string;
@@ -89,6 +169,7 @@ export interface InventoryItem {
   playerId: string;
   itemId: string;
   quantity: number;
+  slot: number;
   acquiredAt: Date;
   item: LootItem;
 }
@@ -102,6 +183,10 @@ export interface WorldLoot {
   positionZ: number;
   zone: string;
   droppedBy?: string;
+  // Reserved for the owner (or their party) until ownedUntil
+  ownerId: string | null;
+  partyId: string | null;
+  ownedUntil: Date | null;
   spawnedAt: Date;
   expiresAt: Date;
   item: LootItem;
@@ -0,0 +1,25 @@
+import { Route, Redirect } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+
+interface ProtectedRouteProps {
+  path: string;
+  component: () => React.JSX.Element;
+}
+
+export function ProtectedRoute({ path, component: Component }: ProtectedRouteProps) {
+  const { player, isLoading } = useAuth();
+
+  return (
+    <Route path={path}>
+      {isLoading ? (
+        <div className="min-h-screen w-full flex items-center justify-center bg-background">
+          <div className="animate-spin rounded-full h-16 w-16 border-b-2 border-primary"></div>
+        </div>
+      ) : player ? (
+        <Component />
+      ) : (
+        <Redirect to="/auth" />
+      )}
+    </Route>
+  );
+}
@@ -0,0 +1,137 @@
+import { useState } from "react";
+import { Redirect } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { MIN_PASSWORD_LENGTH } from "@shared/auth";
+
+export default function AuthPage() {
+  const { toast } = useToast();
+  const { player, loginMutation, registerMutation } = useAuth();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [characterName, setCharacterName] = useState("");
+
+  if (player) {
+    return <Redirect to="/" />;
+  }
+
+  const onError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message || "Please try again",
+      variant: "destructive",
+    });
+  };
+
+  const handleLogin = (e: React.FormEvent) => {
+    e.preventDefault();
+    loginMutation.mutate({ username, password }, { onError: onError("Login Failed") });
+  };
+
+  const handleRegister = (e: React.FormEvent) => {
+    e.preventDefault();
+    registerMutation.mutate(
+      { username, password, characterName: characterName || username },
+      { onError: onError("Registration Failed") },
+    );
+  };
+
+  const isPending = loginMutation.isPending || registerMutation.isPending;
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-background text-foreground font-gaming" data-testid="auth-page">
+      <Card className="w-full max-w-md mx-4">
+        <CardHeader className="text-center">
+          <CardTitle className="font-fantasy text-3xl text-primary">Latna Saga</CardTitle>
+          <CardDescription>Enter Selha Latna and survive until level 100</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="login">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="login" data-testid="tab-login">Login</TabsTrigger>
+              <TabsTrigger value="register" data-testid="tab-register">Register</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="login">
+              <form onSubmit={handleLogin} className="space-y-4 pt-2">
+                <div className="space-y-2">
+                  <Label htmlFor="login-username">Username</Label>
+                  <Input
+                    id="login-username"
+                    value={username}
+                    onChange={e => setUsername(e.target.value)}
+                    autoComplete="username"
+                    required
+                    data-testid="input-login-username"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="login-password">Password</Label>
+                  <Input
+                    id="login-password"
+                    type="password"
+                    value={password}
+                    onChange={e => setPassword(e.target.value)}
+                    autoComplete="current-password"
+                    required
+                    data-testid="input-login-password"
+                  />
+                </div>
+                <Button type="submit" className="w-full" disabled={isPending} data-testid="button-login">
+                  {loginMutation.isPending ? <i className="fas fa-spinner animate-spin"></i> : "Enter the Zone"}
+                </Button>
+              </form>
+            </TabsContent>
+
+            <TabsContent value="register">
+              <form onSubmit={handleRegister} className="space-y-4 pt-2">
+                <div className="space-y-2">
+                  <Label htmlFor="register-username">Username</Label>
+                  <Input
+                    id="register-username"
+                    value={username}
+                    onChange={e => setUsername(e.target.value)}
+                    autoComplete="username"
+                    required
+                    data-testid="input-register-username"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="register-character">Character Name</Label>
+                  <Input
+                    id="register-character"
+                    value={characterName}
+                    onChange={e => setCharacterName(e.target.value)}
+                    placeholder={username || "Defaults to your username"}
+                    data-testid="input-register-character"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="register-password">Password</Label>
+                  <Input
+                    id="register-password"
+                    type="password"
+                    value={password}
+                    onChange={e => setPassword(e.target.value)}
+                    autoComplete="new-password"
+                    minLength={MIN_PASSWORD_LENGTH}
+                    required
+                    data-testid="input-register-password"
+                  />
+                </div>
+                <Button type="submit" className="w-full" disabled={isPending} data-testid="button-register">
+                  {registerMutation.isPending ? <i className="fas fa-spinner animate-spin"></i> : "Create Character"}
+                </Button>
+              </form>
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -4,53 +4,64 @@ import { Game3D } from "@/components/Game3D";
 import { GameHUD } from "@/components/GameHUD";
 import { CharacterPanel } from "@/components/CharacterPanel";
 import { InventoryPanel } from "@/components/InventoryPanel";
+import { CraftingPanel } from "@/components/CraftingPanel";
 import { MultiplayerPanel } from "@/components/MultiplayerPanel";
 import { ChatSystem } from "@/components/ChatSystem";
+import { DeathOverlay } from "@/components/DeathOverlay";
+import { TargetFrame } from "@/components/TargetFrame";
+import { CastBar } from "@/components/CastBar";
+import { StatusEffectBar } from "@/components/StatusEffectBar";
+import { LootRollPrompt } from "@/components/LootRollPrompt";
 import { useGameSocket } from "@/hooks/useGameSocket";
+import { useAuth, AUTH_QUERY_KEY } from "@/hooks/use-auth";
+import { ABILITY_PROGRESS_QUERY_KEY } from "@/hooks/use-ability-progress";
+import { useMonsters } from "@/hooks/use-monsters";
+import { useStatusEffects } from "@/hooks/use-status-effects";
+import { useWorldLoot } from "@/hooks/use-world-loot";
+import { COMMUNITY_RESOURCES_QUERY_KEY, useCommunityResources } from "@/hooks/use-community-resources";
 import { useToast } from "@/hooks/use-toast";
-import { GamePlayer, GameState, CommunityResources, Monster, WorldLoot, InventoryItem } from "@/lib/gameTypes";
+import { GamePlayer, GameState, InventoryItem, TargetRef, AbilityResult } from "@/lib/gameTypes";
 import { apiRequest } from "@/lib/queryClient";
-
-// Mock current player - in real app this would come from authentication
-const MOCK_PLAYER_ID = "mock-player-123";
+import { describeConsumableEffect, type ItemUseResult } from "@shared/consumables";
+import { modifiersFor } from "@shared/statusEffects";
+import type { RedeemResult } from "@shared/redeemCodes";
 
 export default function GamePage() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
-  const [monsters, setMonsters] = useState<Monster[]>([]);
-  const [worldLoot, setWorldLoot] = useState<WorldLoot[]>([]);
+  const { player, isLoading: playerLoading, logoutMutation } = useAuth();
   const [showInventory, setShowInventory] = useState(false);
-  const [buff, setBuff] = useState<{ type: string; value: number; unlimited?: boolean } | null>(null);
+  const [showCrafting, setShowCrafting] = useState(false);
+  const [target, setTarget] = useState<TargetRef | null>(null);
   const [codeInput, setCodeInput] = useState("");
-  const [codeError, setCodeError] = useState("");
   
   const {
     isConnected,
+    sessionReplaced,
+    positionCorrection,
+    deaths,
+    abilityEffect,
+    endedProjectileId,
+    shields,
+    casts,
+    lastCastEnded,
+    lootRolls,
+    lastLootRollEnded,
+    lastPartyInvite,
+    lastCraftCompleted,
     onlinePlayers,
     chatMessages,
     sendChatMessage,
     sendPlayerMove,
-    sendUseAbility,
-    authenticate
   } = useGameSocket();
 
-  // Fetch player data
-  const { data: player, isLoading: playerLoading } = useQuery<GamePlayer>({
-    queryKey: ["/api/players", MOCK_PLAYER_ID],
-    enabled: true,
-  });
-
   // Fetch game state
   const { data: gameState } = useQuery<GameState>({
-    queryKey: ["/api/game/state", MOCK_PLAYER_ID],
+    queryKey: ["/api/game/state"],
     enabled: !!player,
   });
 
-  // Fetch community resources
-  const { data: resources } = useQuery<CommunityResources>({
-    queryKey: ["/api/game/resources", MOCK_PLAYER_ID],
-    enabled: !!player,
-  });
+  const resources = useCommunityResources(!!player);
 
   // Fetch online players
   const { data: allOnlinePlayers = [] } = useQuery<GamePlayer[]>({
@@ -64,32 +75,45 @@ export default function GamePage() {
     enabled: true,
   });
 
+  // Live monsters in the zone, kept current over the socket
+  const monsters = useMonsters(!!player);
+
+  // Our own buffs and debuffs, kept current over the socket
+  const statusEffects = useStatusEffects(!!player);
+
   // Fetch player inventory
   const { data: inventory = [] } = useQuery<InventoryItem[]>({
-    queryKey: ["/api/inventory", MOCK_PLAYER_ID],
+    queryKey: ["/api/inventory"],
     enabled: !!player,
   });
 
-  // Fetch world loot
-  const { data: lootData } = useQuery<WorldLoot[]>({
-    queryKey: ["/api/loot/tutorial"],
-    enabled: !!player,
-    refetchInterval: 5000, // Update every 5 seconds for new loot
-  });
+  // Drops lying in the zone, kept current over the socket
+  const worldLoot = useWorldLoot(!!player);
 
   // Use ability mutation
   const useAbilityMutation = useMutation({
-    mutationFn: async (data: { abilityName: string; targetId?: string }) => {
-      return apiRequest("POST", `/api/combat/ability/${MOCK_PLAYER_ID}`, data);
+    mutationFn: async (data: { abilityName: string; targetId?: string }): Promise<AbilityResult> => {
+      const res = await apiRequest("POST", "/api/combat/ability", data);
+      return res.json();
     },
-    onSuccess: (response: any) => {
+    onSuccess: (result) => {
+      if (!result.success) {
+        toast({
+          title: "Ability Failed",
+          description: result.message,
+          variant: "destructive",
+        });
+        return;
+      }
+
       toast({
-        title: "Ability Used",
-        description: response?.message || "Ability executed successfully",
+        title: result.missed ? "Missed" : result.critical ? "Critical Hit!" : "Ability Used",
+        description: result.message,
       });
       
-      // Refetch player data to update aura
-      queryClient.invalidateQueries({ queryKey: ["/api/players", MOCK_PLAYER_ID] });
+      // Refetch player data to update aura; a kill may have levelled up and earned ability points
+      queryClient.invalidateQueries({ queryKey: AUTH_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: ABILITY_PROGRESS_QUERY_KEY });
     },
     onError: (error: any) => {
       toast({
@@ -103,7 +127,7 @@ export default function GamePage() {
   // Rebirth mutation
   const rebirthMutation = useMutation({
     mutationFn: async () => {
-      return apiRequest("POST", `/api/game/rebirth/${MOCK_PLAYER_ID}`, {});
+      return apiRequest("POST", "/api/game/rebirth", {});
     },
     onSuccess: () => {
       toast({
@@ -112,8 +136,9 @@ export default function GamePage() {
       });
       
       // Refetch all player data
-      queryClient.invalidateQueries({ queryKey: ["/api/players", MOCK_PLAYER_ID] });
-      queryClient.invalidateQueries({ queryKey: ["/api/game/state", MOCK_PLAYER_ID] });
+      queryClient.invalidateQueries({ queryKey: AUTH_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: ["/api/game/state"] });
+      queryClient.invalidateQueries({ queryKey: ABILITY_PROGRESS_QUERY_KEY });
     },
     onError: (error: any) => {
       toast({
@@ -124,20 +149,47 @@ export default function GamePage() {
     },
   });
 
+  // Redeem codes are checked and granted on the server; buffs arrive as status effects
+  const redeemCodeMutation = useMutation({
+    mutationFn: async (code: string): Promise<RedeemResult> => {
+      const res = await apiRequest("POST", "/api/codes/redeem", { code });
+      return res.json();
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "Code Redeemed!",
+        description: result.message,
+      });
+      setCodeInput("");
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
+      queryClient.invalidateQueries({ queryKey: COMMUNITY_RESOURCES_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: ABILITY_PROGRESS_QUERY_KEY });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Code Not Redeemed",
+        description: error.message || "Could not redeem code",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Collect loot mutation
   const collectLootMutation = useMutation({
-    mutationFn: async (lootId: string) => {
-      return apiRequest("POST", `/api/loot/collect/${MOCK_PLAYER_ID}`, { lootId });
+    mutationFn: async (lootId: string): Promise<{ message: string }> => {
+      const res = await apiRequest("POST", `/api/loot/collect/${lootId}`, {});
+      return res.json();
     },
-    onSuccess: () => {
+    onSuccess: (result) => {
       toast({
         title: "Loot Collected",
-        description: "Item added to your inventory!",
+        description: result.message,
       });
       
-      // Refetch inventory and world loot
-      queryClient.invalidateQueries({ queryKey: ["/api/inventory", MOCK_PLAYER_ID] });
-      queryClient.invalidateQueries({ queryKey: ["/api/loot/world"] });
+      // The drop itself disappears through the loot_collected event
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
+      // A picked-up skill book makes its ability learnable
+      queryClient.invalidateQueries({ queryKey: ABILITY_PROGRESS_QUERY_KEY });
     },
     onError: (error: any) => {
       toast({
@@ -151,17 +203,18 @@ export default function GamePage() {
   // Use item mutation
   const useItemMutation = useMutation({
     mutationFn: async (itemId: string) => {
-      return apiRequest("POST", `/api/inventory/use/${MOCK_PLAYER_ID}`, { itemId });
+      const res = await apiRequest("POST", "/api/inventory/use", { itemId });
+      return res.json() as Promise<ItemUseResult>;
     },
-    onSuccess: () => {
+    onSuccess: (result) => {
       toast({
-        title: "Item Used",
-        description: "Health and aura restored!",
+        title: result.message,
+        description: result.effects.map(describeConsumableEffect).join(" · "),
       });
       
       // Refetch player data and inventory
-      queryClient.invalidateQueries({ queryKey: ["/api/players", MOCK_PLAYER_ID] });
-      queryClient.invalidateQueries({ queryKey: ["/api/inventory", MOCK_PLAYER_ID] });
+      queryClient.invalidateQueries({ queryKey: AUTH_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
     },
     onError: (error: any) => {
       toast({
@@ -172,90 +225,73 @@ export default function GamePage() {
     },
   });
 
-  // Authenticate with WebSocket when player loads
+  // The entity behind the current target, looked up fresh so the frame follows its health
+  const targetEntity = target?.kind === "monster"
+    ? monsters.find(monster => monster.id === target.id)
+    : target?.kind === "player"
+      ? allOnlinePlayers.find(onlinePlayer => onlinePlayer.id === target.id)
+      : undefined;
+
+  // Drop the target once it dies or leaves
   useEffect(() => {
-    if (player && isConnected) {
-      authenticate(player.id);
+    if (target && !targetEntity) {
+      setTarget(null);
     }
-  }, [player, isConnected, authenticate]);
+  }, [target, targetEntity]);
 
-  // Update world loot when data changes
+  // Charged and channeled casts finish (or break) after the HTTP call returned
   useEffect(() => {
-    if (lootData) {
-      setWorldLoot(lootData);
-    }
-  }, [lootData]);
+    if (!lastCastEnded || lastCastEnded.casterId !== player?.id) return;
+    const interrupted = lastCastEnded.outcome === "interrupted";
+    toast({
+      title: interrupted ? "Cast Interrupted" : "Ability Used",
+      description: lastCastEnded.message,
+      variant: interrupted ? "destructive" : undefined,
+    });
+    // The completed cast spent aura
+    queryClient.invalidateQueries({ queryKey: AUTH_QUERY_KEY });
+  }, [lastCastEnded, player?.id, toast, queryClient]);
 
-  // Mock some monsters for the 3D view
   useEffect(() => {
-    const mockMonsters: Monster[] = [
-      {
-        id: "monster-1",
-        name: "Stone Golem",
-        level: 89,
-        health: 4500,
-        maxHealth: 10000,
-        positionX: -20,
-        positionY: 0,
-        positionZ: 15,
-      },
-      {
-        id: "monster-2", 
-        name: "Shadow Wolf",
-        level: 45,
-        health: 2300,
-        maxHealth: 4500,
-        positionX: 30,
-        positionY: 0,
-        positionZ: -10,
-      }
-    ];
-    setMonsters(mockMonsters);
-  }, []);
+    if (!lastLootRollEnded) return;
+    const { itemName, winnerId, winnerName, choice, roll } = lastLootRollEnded;
+    toast({
+      title: winnerId === player?.id ? "You Won the Roll!" : "Loot Roll",
+      description: winnerName
+        ? `${winnerName} won ${itemName} (${choice} ${roll})`
+        : `Everyone passed on ${itemName}; it's free for anyone to take`,
+    });
+  }, [lastLootRollEnded, player?.id, toast]);
 
-  const handleUseAbility = (abilityName: string, targetId?: string) => {
+  useEffect(() => {
+    if (!lastPartyInvite) return;
+    toast({
+      title: "Party Invite",
+      description: `${lastPartyInvite.fromName} invited you to a party`,
+    });
+  }, [lastPartyInvite, toast]);
+
+  useEffect(() => {
+    if (!lastCraftCompleted) return;
+    const { itemName, quantity, inInventory } = lastCraftCompleted;
+    toast({
+      title: "Crafting Complete",
+      description: `${quantity > 1 ? `${quantity}x ` : ""}${itemName}${inInventory ? "" : " (your bags were full, so it's at your feet)"}`,
+    });
+  }, [lastCraftCompleted, toast]);
+
+  const handleUseAbility = (abilityName: string) => {
     if (!player) return;
-    let damageMultiplier = 1;
-    if (buff && buff.type === "strength") {
-      damageMultiplier = buff.value;
-    }
-    // For now, send via WebSocket for real-time feedback
-    sendUseAbility(abilityName, targetId);
-    // Also use the mutation for server-side processing
-    useAbilityMutation.mutate({ abilityName, targetId });
-    // Optionally, show buff effect in toast
-    if (damageMultiplier > 1) {
-      toast({
-        title: "Buff Active!",
-        description: `Your damage is multiplied by ${damageMultiplier}x!`,
-        variant: "default",
-      });
-    }
+    // The server resolves the cast and broadcasts it to everyone else
+    useAbilityMutation.mutate({ abilityName, targetId: target?.id });
   };
   // Handle game code input
   const handleCodeSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    const code = codeInput.trim().toLowerCase();
-    if (code === "nirved0204") {
-      setBuff({ type: "strength", value: 3, unlimited: true });
-      setCodeError("");
-      toast({
-        title: "Supreme Code Activated!",
-        description: "Unlimited Strength I: All damage x3.",
-        variant: "default",
-      });
-    } else if (code === "strength1") {
-      setBuff({ type: "strength", value: 2 });
-      setCodeError("");
-      toast({
-        title: "Buff Activated!",
-        description: "Strength I: All damage x2 for this session.",
-        variant: "default",
-      });
-    } else {
-      setCodeError("Invalid code. Try again.");
+    const code = codeInput.trim();
+    if (code) {
+      redeemCodeMutation.mutate(code);
     }
-    setCodeInput("");
   };
 
   const handlePlayerMove = (x: number, y: number, z: number, rotation?: number) => {
@@ -287,6 +323,10 @@ export default function GamePage() {
     setShowInventory(!showInventory);
   };
 
+  const handleLogout = () => {
+    logoutMutation.mutate();
+  };
+
   if (playerLoading) {
     return (
       <div className="min-h-screen w-full flex items-center justify-center bg-background">
@@ -310,11 +350,10 @@ export default function GamePage() {
     );
   }
 
-  const defaultResources: CommunityResources = {
-    food: resources?.food || 1247,
-    materials: resources?.materials || 856,
-    sustainability: resources?.sustainability || 78,
-  };
+  const isDead = player.health <= 0;
+  const statusModifiers = modifiersFor(
+    statusEffects.filter(effect => effect.expiresAt === null || effect.expiresAt > Date.now())
+  );
 
   // Combine WebSocket messages with initial messages
   const allChatMessages = [...chatMessages, ...(Array.isArray(initialChatMessages) ? initialChatMessages : [])]
@@ -326,31 +365,32 @@ export default function GamePage() {
       {/* Game HUD */}
       <GameHUD 
         player={player}
-        resources={defaultResources}
         onRebirth={handleRebirth}
         onShowHint={handleShowHint}
+        onLogout={handleLogout}
+        onOpenCrafting={() => setShowCrafting(true)}
         isRebirthAllowed={player.level >= 100}
       />
 
-      {/* Game Code Input for Buffs */}
+      {/* Redeem Code Input */}
       <div className="fixed top-4 left-1/2 transform -translate-x-1/2 z-50 bg-card/80 border border-border rounded-lg px-4 py-2 flex items-center space-x-2 shadow-lg">
         <form onSubmit={handleCodeSubmit} className="flex items-center space-x-2">
           <input
             type="text"
             value={codeInput}
             onChange={e => setCodeInput(e.target.value)}
-            placeholder="Enter game code for buffs..."
+            placeholder="Enter a redeem code..."
             className="px-2 py-1 rounded border border-muted focus:outline-none text-sm bg-background"
             style={{ minWidth: 180 }}
           />
-          <button type="submit" className="px-3 py-1 rounded bg-accent text-accent-foreground text-xs font-bold hover:bg-accent/80">Apply</button>
+          <button
+            type="submit"
+            disabled={redeemCodeMutation.isPending}
+            className="px-3 py-1 rounded bg-accent text-accent-foreground text-xs font-bold hover:bg-accent/80 disabled:opacity-50"
+          >
+            Redeem
+          </button>
         </form>
-        {buff && (
-          <span className="ml-2 text-green-600 text-xs font-semibold">Buff: {buff.type} x{buff.value}{buff.unlimited ? " (Unlimited)" : ""}</span>
-        )}
-        {codeError && (
-          <span className="ml-2 text-red-500 text-xs">{codeError}</span>
-        )}
       </div>
 
   {/* Main Game Area */}
@@ -358,7 +398,7 @@ export default function GamePage() {
         {/* Character Panel */}
         <CharacterPanel
           player={player}
-          resources={defaultResources}
+          resources={resources}
           onUseAbility={(abilityName) => handleUseAbility(abilityName)}
         />
 
@@ -369,9 +409,39 @@ export default function GamePage() {
             onlinePlayers={allOnlinePlayers}
             monsters={monsters}
             worldLoot={worldLoot}
+            positionCorrection={positionCorrection}
+            deaths={Object.values(deaths)}
+            isDead={isDead}
+            isStunned={statusModifiers.stunned}
+            speedMultiplier={statusModifiers.speedMultiplier}
+            target={target}
+            abilityEffect={abilityEffect}
+            endedProjectileId={endedProjectileId}
+            shields={shields}
+            casts={casts}
+            onSelectTarget={setTarget}
             onPlayerMove={handlePlayerMove}
             onCollectLoot={handleCollectLoot}
           />
+
+          {target && targetEntity && (
+            <TargetFrame
+              kind={target.kind}
+              name={"characterName" in targetEntity ? targetEntity.characterName : targetEntity.name}
+              level={targetEntity.level}
+              health={targetEntity.health}
+              maxHealth={targetEntity.maxHealth}
+              onClear={() => setTarget(null)}
+            />
+          )}
+
+          <StatusEffectBar effects={statusEffects} />
+
+          {casts[player.id] && <CastBar cast={casts[player.id]} />}
+
+          <LootRollPrompt rolls={Object.values(lootRolls)} />
+
+          {isDead && <DeathOverlay death={deaths[player.id]} />}
           
           {/* Inventory Button */}
           <button
@@ -403,7 +473,6 @@ export default function GamePage() {
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
           <div className="w-96 max-h-[80vh]">
             <InventoryPanel
-              playerId={player.id}
               isOpen={showInventory}
               onClose={handleToggleInventory}
             />
@@ -411,8 +480,15 @@ export default function GamePage() {
         </div>
       )}
 
+      <CraftingPanel isOpen={showCrafting} player={player} onClose={() => setShowCrafting(false)} />
+
       {/* Connection Status */}
-      {!isConnected && (
+      {sessionReplaced ? (
+        <div className="fixed bottom-4 left-1/2 transform -translate-x-1/2 bg-destructive text-destructive-foreground px-4 py-2 rounded-lg" data-testid="session-replaced">
+          <i className="fas fa-exclamation-triangle mr-2"></i>
+          You are playing in another window. Refresh to continue here.
+        </div>
+      ) : !isConnected && (
         <div className="fixed bottom-4 left-1/2 transform -translate-x-1/2 bg-destructive text-destructive-foreground px-4 py-2 rounded-lg">
           <i className="fas fa-wifi mr-2"></i>
           Connecting to multiplayer server...
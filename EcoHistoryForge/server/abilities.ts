@@ -0,0 +1,17 @@
+import fs from "fs";
+import path from "path";
+import { abilityListSchema, type AbilityDefinition } from "@shared/abilities";
+
+// Resolves to <repo>/shared/abilities.json from both server/ (dev) and dist/ (production)
+export const DEFAULT_ABILITIES_FILE = path.resolve(import.meta.dirname, "..", "shared", "abilities.json");
+
+// Reads and validates the ability data; a broken file stops startup with a readable error
+export function loadAbilities(file: string = DEFAULT_ABILITIES_FILE): AbilityDefinition[] {
+  const raw = JSON.parse(fs.readFileSync(file, "utf-8"));
+  const parsed = abilityListSchema.safeParse(raw);
+  if (!parsed.success) {
+    const problems = parsed.error.issues.map(issue => `  ${issue.path.join(".")}: ${issue.message}`).join("\n");
+    throw new Error(`Invalid ability data in ${file}:\n${problems}`);
+  }
+  return parsed.data;
+}
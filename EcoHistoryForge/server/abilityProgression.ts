@@ -0,0 +1,141 @@
+import type { Player } from "@shared/schema";
+import {
+  learnedAbilitySchema,
+  type AbilityDefinition,
+  type AbilityProgress,
+  type LearnedAbility,
+} from "@shared/abilities";
+
+// What happens to learned abilities when a player is reborn at level 1:
+// keep_ranks: everything is kept, including ranks and unspent points
+// keep_unlocks: abilities stay learned but drop back to rank 1, points are lost
+// reset: only abilities available at level 1 are kept, at rank 1
+export type AbilityRebirthRule = "keep_ranks" | "keep_unlocks" | "reset";
+
+const ABILITY_REBIRTH_RULES: AbilityRebirthRule[] = ["keep_ranks", "keep_unlocks", "reset"];
+
+export const DEFAULT_ABILITY_REBIRTH_RULE: AbilityRebirthRule = "keep_unlocks";
+
+// One point per level gained, spent one per rank
+export const ABILITY_POINTS_PER_LEVEL = 1;
+export const ABILITY_POINTS_PER_RANK = 1;
+
+// ABILITY_REBIRTH_RULE=keep_ranks | keep_unlocks | reset
+export function resolveAbilityRebirthRule(env: NodeJS.ProcessEnv = process.env): AbilityRebirthRule {
+  const requested = env.ABILITY_REBIRTH_RULE?.trim().toLowerCase();
+  if (!requested) {
+    return DEFAULT_ABILITY_REBIRTH_RULE;
+  }
+  if (!ABILITY_REBIRTH_RULES.includes(requested as AbilityRebirthRule)) {
+    throw new Error(
+      `Unknown ABILITY_REBIRTH_RULE "${env.ABILITY_REBIRTH_RULE}", expected one of ${ABILITY_REBIRTH_RULES.join(", ")}`,
+    );
+  }
+  return requested as AbilityRebirthRule;
+}
+
+// The column is untyped jsonb and older rows hold plain ids, so anything
+// unreadable is skipped rather than trusted
+export function learnedAbilitiesOf(player: Player): LearnedAbility[] {
+  const raw = Array.isArray(player.unlockedAbilities) ? player.unlockedAbilities : [];
+  const learned: LearnedAbility[] = [];
+  for (const entry of raw) {
+    const parsed = typeof entry === "string"
+      ? { success: true as const, data: { id: entry, rank: 1 } }
+      : learnedAbilitySchema.safeParse(entry);
+    if (parsed.success && !learned.some(ability => ability.id === parsed.data.id)) {
+      learned.push(parsed.data);
+    }
+  }
+  return learned;
+}
+
+export function abilityRankOf(player: Player, abilityId: string): number {
+  return learnedAbilitiesOf(player).find(ability => ability.id === abilityId)?.rank ?? 0;
+}
+
+// Damage and shield scale linearly with rank; rank 1 is the listed value
+export function rankMultiplierFor(ability: AbilityDefinition, rank: number): number {
+  return 1 + Math.max(0, Math.min(rank, ability.maxRank) - 1) * ability.rankBonus;
+}
+
+// Abilities whose level milestone the player has passed but hasn't been given yet
+export function levelUnlocksFor(player: Player, abilities: AbilityDefinition[]): LearnedAbility[] {
+  const learned = learnedAbilitiesOf(player);
+  return abilities
+    .filter(ability => player.level >= ability.requiredLevel && !learned.some(entry => entry.id === ability.id))
+    .map(ability => ({ id: ability.id, rank: 1 }));
+}
+
+// The skill book in the inventory that teaches this ability, if any
+export function skillBookFor(ability: AbilityDefinition, inventoryItemNames: string[]): string | undefined {
+  for (const unlock of ability.unlocks) {
+    if (unlock.type === "skill_book" && inventoryItemNames.includes(unlock.item)) {
+      return unlock.item;
+    }
+  }
+  return undefined;
+}
+
+export function meetsTutorialUnlock(player: Player, ability: AbilityDefinition): boolean {
+  return ability.unlocks.some(unlock => unlock.type === "tutorial" && player.tutorialProgress >= unlock.progress);
+}
+
+function requirementText(ability: AbilityDefinition): string {
+  const ways = [`reach level ${ability.requiredLevel}`];
+  for (const unlock of ability.unlocks) {
+    ways.push(unlock.type === "tutorial" ? `complete tutorial step ${unlock.progress}` : `read ${unlock.item}`);
+  }
+  return ways.join(" or ");
+}
+
+export function abilityProgressFor(
+  player: Player,
+  ability: AbilityDefinition,
+  inventoryItemNames: string[],
+): AbilityProgress {
+  const rank = abilityRankOf(player, ability.id);
+  if (rank > 0) {
+    return {
+      id: ability.id,
+      state: "owned",
+      rank,
+      maxRank: ability.maxRank,
+      requirement: null,
+      canUpgrade: rank < ability.maxRank && player.abilityPoints >= ABILITY_POINTS_PER_RANK,
+    };
+  }
+
+  const book = skillBookFor(ability, inventoryItemNames);
+  const unlockable = book !== undefined || meetsTutorialUnlock(player, ability) || player.level >= ability.requiredLevel;
+  return {
+    id: ability.id,
+    state: unlockable ? "unlockable" : "locked",
+    rank: 0,
+    maxRank: ability.maxRank,
+    requirement: unlockable ? (book ? `Read ${book}` : "Ready to learn") : `Requires: ${requirementText(ability)}`,
+    canUpgrade: false,
+  };
+}
+
+// Learned abilities and points after a rebirth back to level 1
+export function applyAbilityRebirthRule(
+  player: Player,
+  abilities: AbilityDefinition[],
+  rule: AbilityRebirthRule,
+): Pick<Player, "unlockedAbilities" | "abilityPoints"> {
+  const learned = learnedAbilitiesOf(player);
+  switch (rule) {
+    case "keep_ranks":
+      return { unlockedAbilities: learned, abilityPoints: player.abilityPoints };
+    case "keep_unlocks":
+      return { unlockedAbilities: learned.map(ability => ({ id: ability.id, rank: 1 })), abilityPoints: 0 };
+    case "reset": {
+      const starting = new Set(abilities.filter(ability => ability.requiredLevel <= 1).map(ability => ability.id));
+      return {
+        unlockedAbilities: learned.filter(ability => starting.has(ability.id)).map(ability => ({ id: ability.id, rank: 1 })),
+        abilityPoints: 0,
+      };
+    }
+  }
+}
@@ -0,0 +1,180 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import express from "express";
+import session from "express-session";
+import request from "supertest";
+import { MIN_PASSWORD_LENGTH } from "@shared/auth";
+import { createSessionMiddleware, hashPassword, promoteAdmins, setupAuth, verifyPassword } from "./auth";
+import { MemStorage } from "./memStorage";
+
+const account = { username: "tamsin", password: "correct horse", characterName: "Tamsin" };
+
+function createApp(storage = new MemStorage(), onLogout?: (playerId: string) => Promise<void>) {
+  const app = express();
+  app.use(express.json());
+  setupAuth(app, storage, createSessionMiddleware(new session.MemoryStore()), storage, onLogout);
+  return { app, storage };
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("password hashing", () => {
+  it("verifies only the password that was hashed", async () => {
+    const hashed = await hashPassword("correct horse");
+    expect(hashed).not.toContain("correct horse");
+    expect(await verifyPassword("correct horse", hashed)).toBe(true);
+    expect(await verifyPassword("wrong horse", hashed)).toBe(false);
+    expect(await verifyPassword("correct horse", "not-a-hash")).toBe(false);
+  });
+});
+
+describe("POST /api/auth/register", () => {
+  it("creates the player with a hashed password and logs them in", async () => {
+    const { app, storage } = createApp();
+    const agent = request.agent(app);
+
+    const res = await agent.post("/api/auth/register").send(account).expect(200);
+    expect(res.body.player).toMatchObject({ username: "tamsin", characterName: "Tamsin", level: 1 });
+    expect(res.body.player).not.toHaveProperty("password");
+
+    const stored = await storage.getPlayerByUsername("tamsin");
+    expect(stored?.password).not.toBe(account.password);
+    expect(stored?.isOnline).toBe(true);
+    expect(await storage.getGameState(stored!.id)).toBeDefined();
+    expect(await storage.getCommunityResources(stored!.id)).toBeDefined();
+
+    await agent.get("/api/auth/me").expect(200);
+  });
+
+  it("requires a username, password and character name", async () => {
+    const { app } = createApp();
+    await request(app).post("/api/auth/register").send({ username: "tamsin" }).expect(400);
+  });
+
+  it("rejects stat fields instead of letting players pick their own", async () => {
+    const { app, storage } = createApp();
+
+    const res = await request(app)
+      .post("/api/auth/register")
+      .send({ ...account, level: 99, isAdmin: true })
+      .expect(400);
+    expect(res.body.message).toMatch(/unrecognized key/i);
+    expect(await storage.getPlayerByUsername("tamsin")).toBeUndefined();
+  });
+
+  it("requires a password of the minimum length", async () => {
+    const { app } = createApp();
+
+    const res = await request(app)
+      .post("/api/auth/register")
+      .send({ ...account, password: "x".repeat(MIN_PASSWORD_LENGTH - 1) })
+      .expect(400);
+    expect(res.body.message).toBe(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  });
+
+  it("refuses a username that's taken", async () => {
+    const { app } = createApp();
+
+    await request(app).post("/api/auth/register").send(account).expect(200);
+    await request(app).post("/api/auth/register").send({ ...account, characterName: "Other" }).expect(409);
+  });
+
+  it("won't register a listed admin name", async () => {
+    vi.stubEnv("ADMIN_USERNAMES", "tamsin");
+    const { app, storage } = createApp();
+
+    await request(app).post("/api/auth/register").send(account).expect(409);
+    expect(await storage.getPlayerByUsername("tamsin")).toBeUndefined();
+  });
+});
+
+describe("POST /api/auth/login", () => {
+  it("logs in with the right password only", async () => {
+    const { app } = createApp();
+    await request(app).post("/api/auth/register").send(account).expect(200);
+
+    await request(app).post("/api/auth/login").send({ ...account, password: "wrong password" }).expect(401);
+    await request(app).post("/api/auth/login").send({ username: "nobody", password: account.password }).expect(401);
+
+    const agent = request.agent(app);
+    await agent.post("/api/auth/login").send({ username: account.username, password: account.password }).expect(200);
+    const me = await agent.get("/api/auth/me").expect(200);
+    expect(me.body.username).toBe("tamsin");
+  });
+
+  it("requires a username and password", async () => {
+    const { app } = createApp();
+    const res = await request(app).post("/api/auth/login").send({ username: "tamsin" }).expect(400);
+    expect(res.body.message).toBe("Password is required");
+  });
+
+  it("trims the username the same way registration does", async () => {
+    const { app } = createApp();
+    const res = await request(app).post("/api/auth/register").send({ ...account, username: "tamsin " }).expect(200);
+    expect(res.body.player.username).toBe("tamsin");
+
+    await request(app).post("/api/auth/login").send({ username: "tamsin ", password: account.password }).expect(200);
+  });
+
+  it("upgrades legacy plaintext passwords to hashes", async () => {
+    const { app, storage } = createApp();
+    await storage.createPlayer({ username: "old", password: "plaintext", characterName: "Old" });
+
+    await request(app).post("/api/auth/login").send({ username: "old", password: "plaintext" }).expect(200);
+    const stored = await storage.getPlayerByUsername("old");
+    expect(stored?.password).not.toBe("plaintext");
+
+    await request(app).post("/api/auth/login").send({ username: "old", password: "plaintext" }).expect(200);
+  });
+});
+
+describe("admin promotion", () => {
+  it("promotes listed accounts that exist when the list is applied", async () => {
+    const { app, storage } = createApp();
+    await request(app).post("/api/auth/register").send(account).expect(200);
+
+    const promoted = await promoteAdmins(storage, new Set(["tamsin", "nobody"]));
+    expect(promoted.map(player => player.username)).toEqual(["tamsin"]);
+
+    const res = await request(app).post("/api/auth/login").send({ username: account.username, password: account.password }).expect(200);
+    expect(res.body.player.isAdmin).toBe(true);
+  });
+
+  it("never makes an account created after the list was applied an admin by logging in", async () => {
+    vi.stubEnv("ADMIN_USERNAMES", "tamsin");
+    const { app, storage } = createApp();
+    await promoteAdmins(storage, new Set(["tamsin"]));
+
+    await request(app).post("/api/auth/register").send(account).expect(409);
+    await request(app).post("/api/auth/login").send({ username: account.username, password: account.password }).expect(401);
+
+    // Logging in doesn't promote even an account that got past registration some other way
+    await storage.createPlayer({ username: "tamsin", password: await hashPassword(account.password), characterName: "Tamsin" });
+    const res = await request(app).post("/api/auth/login").send({ username: account.username, password: account.password }).expect(200);
+    expect(res.body.player.isAdmin).toBe(false);
+  });
+});
+
+describe("POST /api/auth/logout", () => {
+  it("ends the session, takes the player out of the world and marks them offline", async () => {
+    const loggedOut: string[] = [];
+    const { app, storage } = createApp(new MemStorage(), async (playerId) => {
+      loggedOut.push(playerId);
+    });
+    const agent = request.agent(app);
+    const res = await agent.post("/api/auth/register").send(account).expect(200);
+
+    await agent.post("/api/auth/logout").expect(200);
+    await agent.get("/api/auth/me").expect(401);
+    expect(loggedOut).toEqual([res.body.player.id]);
+    expect((await storage.getPlayerByUsername("tamsin"))?.isOnline).toBe(false);
+  });
+});
+
+describe("GET /api/auth/me", () => {
+  it("rejects requests without a session", async () => {
+    const { app } = createApp();
+    await request(app).get("/api/auth/me").expect(401);
+  });
+});
@@ -0,0 +1,266 @@
+import type { Express, Request, Response, NextFunction, RequestHandler } from "express";
+import session from "express-session";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import type { Player } from "@shared/schema";
+import { loginSchema, registerPlayerSchema } from "@shared/auth";
+import type { IStorage } from "./storage";
+
+declare module "express-session" {
+  interface SessionData {
+    playerId?: string;
+  }
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set by requireAuth from the session, never from the URL or body
+      player?: Player;
+    }
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+const SESSION_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000; // 1 week
+
+export type PublicPlayer = Omit<Player, "password">;
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+export async function verifyPassword(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) {
+    return false;
+  }
+
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+// Accounts created before passwords were hashed still hold plaintext
+function isLegacyPlaintext(stored: string): boolean {
+  return !/^[0-9a-f]{128}\.[0-9a-f]{32}$/.test(stored);
+}
+
+export function toPublicPlayer(player: Player): PublicPlayer {
+  const { password: _password, ...publicPlayer } = player;
+  return publicPlayer;
+}
+
+export function createSessionMiddleware(sessionStore: session.Store): RequestHandler {
+  let secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("SESSION_SECRET must be set in production");
+    }
+    // Sessions won't survive a restart without a fixed secret, which is fine for local dev
+    secret = randomBytes(32).toString("hex");
+  }
+
+  return session({
+    secret,
+    store: sessionStore,
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: SESSION_MAX_AGE_MS,
+    },
+  });
+}
+
+// Resolves the logged-in player from the session and rejects the request otherwise
+export function requireAuth(players: Pick<IStorage, "getPlayer">): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const playerId = req.session.playerId;
+      if (!playerId) {
+        return res.status(401).json({ message: "Not logged in" });
+      }
+
+      const player = await players.getPlayer(playerId);
+      if (!player) {
+        req.session.destroy(() => {});
+        return res.status(401).json({ message: "Not logged in" });
+      }
+
+      req.player = player;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+// ADMIN_USERNAMES=alice,bob makes those accounts admins at startup, see promoteAdmins
+export function resolveAdminUsernames(env: NodeJS.ProcessEnv = process.env): Set<string> {
+  return new Set(
+    (env.ADMIN_USERNAMES ?? "")
+      .split(",")
+      .map(username => username.trim())
+      .filter(username => username.length > 0),
+  );
+}
+
+// Run once at startup. Only accounts that exist by then are promoted, and
+// setupAuth won't register a listed name, so an account can't be made admin
+// by claiming a name after it was listed.
+export async function promoteAdmins(
+  storage: Pick<IStorage, "getPlayerByUsername" | "updatePlayer">,
+  usernames: Set<string>,
+): Promise<Player[]> {
+  const promoted: Player[] = [];
+  for (const username of Array.from(usernames)) {
+    const player = await storage.getPlayerByUsername(username);
+    if (player && !player.isAdmin) {
+      promoted.push(await storage.updatePlayer(player.id, { isAdmin: true }));
+    }
+  }
+  return promoted;
+}
+
+// Use after requireAuth; admins are players with isAdmin set
+export const requireAdmin: RequestHandler = (req, res, next) => {
+  if (!req.player?.isAdmin) {
+    return res.status(403).json({ message: "Admins only" });
+  }
+  next();
+};
+
+function regenerateSession(req: Request): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.regenerate((err) => (err ? reject(err) : resolve()));
+  });
+}
+
+async function startSession(req: Request, playerId: string): Promise<void> {
+  // New session id on login to prevent session fixation
+  await regenerateSession(req);
+  req.session.playerId = playerId;
+}
+
+// `players` is where logged-in players are looked up; defaults to storage but the
+// game engine passes itself so online players are read from the live world.
+// `onLogout` runs before the player is marked offline, to take them out of the world.
+export function setupAuth(
+  app: Express,
+  storage: IStorage,
+  sessionMiddleware: RequestHandler,
+  players: Pick<IStorage, "getPlayer"> = storage,
+  onLogout: (playerId: string) => Promise<void> = async () => {},
+) {
+  app.set("trust proxy", 1);
+  app.use(sessionMiddleware);
+
+  const adminUsernames = resolveAdminUsernames();
+
+  app.post("/api/auth/register", async (req, res) => {
+    try {
+      const parsed = registerPlayerSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.issues.map(issue => issue.message).join(", ") });
+      }
+      const userData = parsed.data;
+
+      // Check if username exists. Listed admin names are turned away the same
+      // way, since promoteAdmins would make whoever claimed one an admin.
+      const existingPlayer = await storage.getPlayerByUsername(userData.username);
+      if (existingPlayer || adminUsernames.has(userData.username)) {
+        return res.status(409).json({ message: "Username already exists" });
+      }
+
+      const player = await storage.createPlayer({
+        ...userData,
+        password: await hashPassword(userData.password),
+      });
+
+      // Create initial game state and resources
+      await storage.createGameState({
+        playerId: player.id,
+        currentZone: "selha_latna",
+        activeQuests: [],
+        inventory: [],
+        equipment: {},
+        combatState: {},
+      });
+
+      await storage.createCommunityResources({
+        playerId: player.id,
+        food: 100,
+        materials: 50,
+        sustainability: 50,
+      });
+
+      await startSession(req, player.id);
+      await storage.setPlayerOnlineStatus(player.id, true);
+      res.json({ player: toPublicPlayer(player) });
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/auth/login", async (req, res) => {
+    try {
+      const parsed = loginSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.issues.map(issue => issue.message).join(", ") });
+      }
+      const { username, password } = parsed.data;
+
+      let player = await storage.getPlayerByUsername(username);
+      if (!player) {
+        return res.status(401).json({ message: "Invalid credentials" });
+      }
+
+      if (isLegacyPlaintext(player.password)) {
+        if (player.password !== password) {
+          return res.status(401).json({ message: "Invalid credentials" });
+        }
+        // Upgrade the stored password now that we know it
+        player = await storage.updatePlayer(player.id, { password: await hashPassword(password) });
+      } else if (!(await verifyPassword(password, player.password))) {
+        return res.status(401).json({ message: "Invalid credentials" });
+      }
+
+      await startSession(req, player.id);
+      await storage.setPlayerOnlineStatus(player.id, true);
+      res.json({ player: toPublicPlayer(player) });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/auth/logout", async (req, res) => {
+    const playerId = req.session.playerId;
+
+    req.session.destroy(async (err) => {
+      if (err) {
+        return res.status(500).json({ message: err.message });
+      }
+
+      try {
+        if (playerId) {
+          await onLogout(playerId);
+          await storage.setPlayerOnlineStatus(playerId, false);
+        }
+        res.clearCookie("connect.sid");
+        res.json({ message: "Logged out" });
+      } catch (error: any) {
+        res.status(500).json({ message: error.message });
+      }
+    });
+  });
+
+  app.get("/api/auth/me", requireAuth(players), (req, res) => {
+    res.json(toPublicPlayer(req.player!));
+  });
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import type { Player } from "@shared/schema";
+import {
+  auraCostFor,
+  baseDamageFor,
+  critChanceFor,
+  directionBetween,
+  facingDirection,
+  isInCone,
+  knockbackPosition,
+  missChanceFor,
+  mitigateDamage,
+  rollAbilityDamage,
+} from "./combat";
+import { ZONE_HALF_SIZE } from "./movement";
+
+// Only the fields combat reads
+function fighter(overrides: Partial<Player> = {}): Player {
+  return {
+    level: 10,
+    rebirthCycle: 0,
+    hiddenStrength: 0,
+    hiddenAgility: 0,
+    hiddenIntelligence: 0,
+    hiddenEndurance: 0,
+    ...overrides,
+  } as Player;
+}
+
+describe("hidden stats", () => {
+  it("caps crit and miss chances at half", () => {
+    expect(critChanceFor(fighter())).toBeCloseTo(0.05);
+    expect(critChanceFor(fighter({ hiddenAgility: 100000 }))).toBe(0.5);
+    expect(missChanceFor(fighter(), 5)).toBeCloseTo(0.05);
+    expect(missChanceFor(fighter(), 15)).toBeCloseTo(0.15);
+    expect(missChanceFor(fighter(), 100)).toBe(0.5);
+  });
+
+  it("discounts aura costs by intelligence, at most by half", () => {
+    expect(auraCostFor(fighter({ hiddenIntelligence: 2000 }), 25)).toBe(23);
+    expect(auraCostFor(fighter({ hiddenIntelligence: 100000 }), 25)).toBe(13);
+  });
+
+  it("adds strength and scales by rebirth cycle", () => {
+    expect(baseDamageFor(fighter({ hiddenStrength: 100 }), 20)).toBe(30);
+    expect(baseDamageFor(fighter({ hiddenStrength: 100, rebirthCycle: 2 }), 20)).toBe(33);
+  });
+
+  it("halves damage at the endurance midpoint but always lets 1 through", () => {
+    expect(mitigateDamage(fighter({ hiddenEndurance: 5000 }), 40)).toBe(20);
+    expect(mitigateDamage(fighter({ hiddenEndurance: 1000000 }), 40)).toBe(1);
+    expect(mitigateDamage(fighter(), 0)).toBe(0);
+  });
+});
+
+describe("rollAbilityDamage", () => {
+  it("misses only when there's a target", () => {
+    expect(rollAbilityDamage(fighter(), 20, 10, () => 0)).toEqual({ damage: 0, critical: false, missed: true });
+    expect(rollAbilityDamage(fighter(), 20, undefined, () => 0)).toEqual({ damage: 30, critical: true, missed: false });
+  });
+
+  it("hits for base damage when neither roll lands", () => {
+    expect(rollAbilityDamage(fighter(), 20, 10, () => 0.9)).toEqual({ damage: 20, critical: false, missed: false });
+  });
+});
+
+describe("geometry", () => {
+  it("faces down -z at rotation 0", () => {
+    const facing = facingDirection(0);
+    expect(facing.x).toBeCloseTo(0);
+    expect(facing.z).toBe(-1);
+  });
+
+  it("has no direction between a point and itself", () => {
+    expect(directionBetween({ x: 1, z: 1 }, { x: 1, z: 1 })).toBeUndefined();
+    expect(directionBetween({ x: 0, z: 0 }, { x: 3, z: 4 })).toEqual({ x: 0.6, z: 0.8 });
+  });
+
+  it("treats the cone angle as the full opening", () => {
+    const ahead = { x: 0, z: -1 };
+    expect(isInCone({ x: 0, z: 0 }, ahead, { x: 0, z: -5 }, 10, Math.PI / 2)).toBe(true);
+    expect(isInCone({ x: 0, z: 0 }, ahead, { x: 4, z: -5 }, 10, Math.PI / 2)).toBe(true);
+    expect(isInCone({ x: 0, z: 0 }, ahead, { x: 6, z: -5 }, 10, Math.PI / 2)).toBe(false);
+    expect(isInCone({ x: 0, z: 0 }, ahead, { x: 0, z: -11 }, 10, Math.PI / 2)).toBe(false);
+  });
+
+  it("knocks back away from the origin without leaving the zone", () => {
+    expect(knockbackPosition({ x: 0, z: 0 }, { x: 3, z: 4 }, 5)).toEqual({ x: 6, z: 8 });
+    expect(knockbackPosition({ x: 0, z: 0 }, { x: ZONE_HALF_SIZE - 1, z: 0 }, 5)).toEqual({ x: ZONE_HALF_SIZE, z: 0 });
+  });
+});
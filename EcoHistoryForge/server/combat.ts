@@ -0,0 +1,106 @@
+import type { Player } from "@shared/schema";
+import type { Point2D } from "@shared/world";
+import { ZONE_HALF_SIZE } from "./movement";
+
+// How the four hidden stats feed into combat. Hidden stats grow by level*10
+// per rebirth, so these are tuned so one full rebirth (~1000 points) is a
+// noticeable but not overwhelming step.
+const STRENGTH_FLAT_DAMAGE = 0.1; // per point of strength
+const REBIRTH_DAMAGE_BONUS = 0.05; // per rebirth cycle
+
+const BASE_CRIT_CHANCE = 0.05;
+const CRIT_CHANCE_PER_AGILITY = 0.00005;
+const MAX_CRIT_CHANCE = 0.5;
+const CRIT_MULTIPLIER = 1.5;
+
+const BASE_MISS_CHANCE = 0.05;
+const MISS_CHANCE_PER_LEVEL_GAP = 0.02; // per level the target is above the attacker
+const MAX_MISS_CHANCE = 0.5;
+
+const AURA_DISCOUNT_PER_INTELLIGENCE = 0.00005;
+const MAX_AURA_DISCOUNT = 0.5;
+
+// Endurance gives diminishing returns: this much endurance halves incoming damage
+const ENDURANCE_HALF_REDUCTION = 5000;
+
+export interface DamageRoll {
+  damage: number;
+  critical: boolean;
+  missed: boolean;
+}
+
+export function critChanceFor(player: Player): number {
+  return Math.min(MAX_CRIT_CHANCE, BASE_CRIT_CHANCE + player.hiddenAgility * CRIT_CHANCE_PER_AGILITY);
+}
+
+export function missChanceFor(player: Player, targetLevel: number): number {
+  const levelGap = Math.max(0, targetLevel - player.level);
+  return Math.min(MAX_MISS_CHANCE, BASE_MISS_CHANCE + levelGap * MISS_CHANCE_PER_LEVEL_GAP);
+}
+
+export function auraCostFor(player: Player, baseCost: number): number {
+  const discount = Math.min(MAX_AURA_DISCOUNT, player.hiddenIntelligence * AURA_DISCOUNT_PER_INTELLIGENCE);
+  return Math.ceil(baseCost * (1 - discount));
+}
+
+// Damage before any roll: ability base plus strength, scaled by rebirth cycle
+export function baseDamageFor(player: Player, abilityDamage: number): number {
+  const flat = abilityDamage + player.hiddenStrength * STRENGTH_FLAT_DAMAGE;
+  return Math.floor(flat * (1 + player.rebirthCycle * REBIRTH_DAMAGE_BONUS));
+}
+
+// Without a target there's nothing to miss, so only crits are rolled
+export function rollAbilityDamage(
+  player: Player,
+  abilityDamage: number,
+  targetLevel?: number,
+  random: () => number = Math.random,
+): DamageRoll {
+  if (targetLevel !== undefined && random() < missChanceFor(player, targetLevel)) {
+    return { damage: 0, critical: false, missed: true };
+  }
+
+  const critical = random() < critChanceFor(player);
+  const damage = baseDamageFor(player, abilityDamage);
+  return { damage: critical ? Math.floor(damage * CRIT_MULTIPLIER) : damage, critical, missed: false };
+}
+
+export function mitigateDamage(player: Player, damage: number): number {
+  if (damage <= 0) return 0;
+  const reduction = player.hiddenEndurance / (player.hiddenEndurance + ENDURANCE_HALF_REDUCTION);
+  return Math.max(1, Math.round(damage * (1 - reduction)));
+}
+
+// Unit vector a player with this rotation is facing (matches client movement: W moves along it)
+export function facingDirection(rotationY: number): Point2D {
+  return { x: -Math.sin(rotationY), z: -Math.cos(rotationY) };
+}
+
+export function directionBetween(from: Point2D, to: Point2D): Point2D | undefined {
+  const dx = to.x - from.x;
+  const dz = to.z - from.z;
+  const length = Math.hypot(dx, dz);
+  return length > 0 ? { x: dx / length, z: dz / length } : undefined;
+}
+
+// `angle` is the full opening angle of the cone in radians
+export function isInCone(origin: Point2D, direction: Point2D, point: Point2D, range: number, angle: number): boolean {
+  const dx = point.x - origin.x;
+  const dz = point.z - origin.z;
+  const distance = Math.hypot(dx, dz);
+  if (distance > range) return false;
+  if (distance === 0) return true;
+
+  const cos = (dx * direction.x + dz * direction.z) / distance;
+  return cos >= Math.cos(angle / 2);
+}
+
+// Pushes `point` straight away from `origin`, staying inside the zone
+export function knockbackPosition(origin: Point2D, point: Point2D, distance: number): Point2D {
+  const direction = directionBetween(origin, point) ?? { x: 0, z: 1 };
+  const clamp = (value: number) => Math.max(-ZONE_HALF_SIZE, Math.min(ZONE_HALF_SIZE, value));
+  return {
+    x: clamp(point.x + direction.x * distance),
+    z: clamp(point.z + direction.z * distance),
+  };
+}
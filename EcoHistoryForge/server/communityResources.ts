@@ -0,0 +1,105 @@
+import {
+  FOOD_UPKEEP,
+  MAX_SUSTAINABILITY,
+  OVERHARVEST_PENALTY,
+  STARVATION_PENALTY,
+  SUSTAINABILITY_RECOVERY,
+  SUSTAINABLE_HUNTS,
+  type ResourceAmounts,
+  type ResourceSource,
+} from "@shared/communityResources";
+
+// One change to apply, before it's been clamped to what the community has
+export interface ResourceChange {
+  source: ResourceSource;
+  food?: number;
+  materials?: number;
+  sustainability?: number;
+  detail?: string;
+}
+
+// Gains banked since the last settlement, by source, plus the kills that
+// count towards over-harvesting
+export interface ResourceLedger {
+  gains: Map<ResourceSource, { food: number; materials: number; count: number }>;
+  hunts: number;
+}
+
+export function emptyLedger(): ResourceLedger {
+  return { gains: new Map(), hunts: 0 };
+}
+
+export function isEmptyLedger(ledger: ResourceLedger): boolean {
+  return ledger.gains.size === 0 && ledger.hunts === 0;
+}
+
+// Applies the changes in order. Nothing goes below zero and sustainability
+// stays a percentage, so each change keeps only the part that took effect;
+// changes that did nothing at all are left out.
+export function applyResourceChanges(
+  current: ResourceAmounts,
+  changes: ResourceChange[],
+): { amounts: ResourceAmounts; applied: Array<ResourceChange & ResourceAmounts> } {
+  const amounts = { ...current };
+  const applied: Array<ResourceChange & ResourceAmounts> = [];
+  for (const change of changes) {
+    const food = Math.max(0, amounts.food + (change.food ?? 0));
+    const materials = Math.max(0, amounts.materials + (change.materials ?? 0));
+    const sustainability = Math.min(MAX_SUSTAINABILITY, Math.max(0, amounts.sustainability + (change.sustainability ?? 0)));
+    const delta = {
+      food: food - amounts.food,
+      materials: materials - amounts.materials,
+      sustainability: sustainability - amounts.sustainability,
+    };
+    Object.assign(amounts, { food, materials, sustainability });
+    if (delta.food !== 0 || delta.materials !== 0 || delta.sustainability !== 0) {
+      applied.push({ ...change, ...delta });
+    }
+  }
+  return { amounts, applied };
+}
+
+// Everything a settlement does: bank the gains, charge for over-harvesting,
+// then pay upkeep out of what's there. A community that can't pay goes
+// hungry and loses sustainability; one that can, and wasn't over-harvesting,
+// recovers a little.
+export function settlementChanges(current: ResourceAmounts, ledger: ResourceLedger, upkeep: boolean): ResourceChange[] {
+  const changes: ResourceChange[] = [];
+  let food = current.food;
+  for (const [source, gain] of Array.from(ledger.gains)) {
+    changes.push({ source, food: gain.food, materials: gain.materials, detail: describeGain(source, gain.count) });
+    food += gain.food;
+  }
+
+  const overharvested = Math.max(0, ledger.hunts - SUSTAINABLE_HUNTS);
+  if (overharvested > 0) {
+    changes.push({
+      source: "hunting",
+      sustainability: -overharvested * OVERHARVEST_PENALTY,
+      detail: `Over-harvested: ${ledger.hunts} kills, ${SUSTAINABLE_HUNTS} sustainable`,
+    });
+  }
+
+  if (!upkeep) return changes;
+  const starving = food < FOOD_UPKEEP;
+  changes.push(starving
+    ? { source: "upkeep", food: -FOOD_UPKEEP, sustainability: -STARVATION_PENALTY, detail: "Not enough food" }
+    : { source: "upkeep", food: -FOOD_UPKEEP });
+  if (!starving && overharvested === 0) {
+    changes.push({ source: "recovery", sustainability: SUSTAINABILITY_RECOVERY });
+  }
+  return changes;
+}
+
+function describeGain(source: ResourceSource, count: number): string | undefined {
+  switch (source) {
+    case "hunting":
+      return `${count} ${count === 1 ? "kill" : "kills"}`;
+    case "gathering":
+      return `${count} ${count === 1 ? "pickup" : "pickups"}`;
+    case "crafting":
+      return `${count} ${count === 1 ? "craft" : "crafts"}`;
+    default:
+      return undefined;
+  }
+}
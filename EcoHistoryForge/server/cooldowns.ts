@@ -0,0 +1,29 @@
+import type { Player } from "@shared/schema";
+
+// Ability cooldowns are stored on the player as { [abilityId]: readyAt } so
+// they're flushed with everything else and survive a restart.
+
+// Cooldowns still running at `now`. The column is untyped jsonb, so anything
+// that isn't a finite end time is dropped.
+export function activeCooldownsOf(player: Player, now: number = Date.now()): Record<string, number> {
+  const raw = player.abilityCooldowns;
+  const active: Record<string, number> = {};
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return active;
+
+  for (const [abilityId, readyAt] of Object.entries(raw)) {
+    if (typeof readyAt === "number" && Number.isFinite(readyAt) && readyAt > now) {
+      active[abilityId] = readyAt;
+    }
+  }
+  return active;
+}
+
+export function cooldownEndOf(player: Player, abilityId: string, now: number = Date.now()): number | undefined {
+  return activeCooldownsOf(player, now)[abilityId];
+}
+
+// The player's cooldowns with these ({ [key]: duration ms }) started; expired entries are pruned on the way
+export function withCooldowns(player: Player, durations: Record<string, number>, now: number = Date.now()): Record<string, number> {
+  const started = Object.fromEntries(Object.entries(durations).map(([key, durationMs]) => [key, now + durationMs]));
+  return { ...activeCooldownsOf(player, now), ...started };
+}
@@ -0,0 +1,52 @@
+import fs from "fs";
+import path from "path";
+import { recipeListSchema, type CraftingJob, type Recipe } from "@shared/crafting";
+
+// Resolves to <repo>/shared/recipes.json from both server/ (dev) and dist/ (production)
+export const DEFAULT_RECIPES_FILE = path.resolve(import.meta.dirname, "..", "shared", "recipes.json");
+
+// Reads and validates the recipes against the item catalog; a broken file
+// stops startup with a readable error
+export function loadRecipes(itemNames: string[], file: string = DEFAULT_RECIPES_FILE): Recipe[] {
+  const raw = JSON.parse(fs.readFileSync(file, "utf-8"));
+  const parsed = recipeListSchema.safeParse(raw);
+  const known = new Set(itemNames);
+  const problems = parsed.success
+    ? parsed.data.flatMap((recipe, index) =>
+        [...recipe.inputs.map((input, inputIndex) => ({ item: input.item, path: `${index}.inputs.${inputIndex}` })),
+          { item: recipe.output.item, path: `${index}.output` }]
+          .filter(({ item }) => !known.has(item))
+          .map(({ item, path }) => `  ${path}.item: Unknown item "${item}"`)
+      )
+    : parsed.error.issues.map(issue => `  ${issue.path.join(".")}: ${issue.message}`);
+  if (!parsed.success || problems.length > 0) {
+    throw new Error(`Invalid recipes in ${file}:\n${problems.join("\n")}`);
+  }
+  return parsed.data;
+}
+
+// gameState.craftingQueue is untyped jsonb; anything that isn't a job is dropped
+export function parseCraftingQueue(raw: unknown): CraftingJob[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.filter((job): job is CraftingJob =>
+    typeof job === "object" && job !== null &&
+    typeof job.id === "string" &&
+    typeof job.recipeId === "string" &&
+    typeof job.itemName === "string" &&
+    typeof job.quantity === "number" &&
+    typeof job.startedAt === "number" &&
+    typeof job.readyAt === "number"
+  );
+}
+
+// `count` more crafts of the recipe, each starting when the previous one is ready
+export function scheduleCrafts(queue: CraftingJob[], recipe: Recipe, count: number, newId: () => string, now: number = Date.now()): CraftingJob[] {
+  const jobs: CraftingJob[] = [];
+  let startedAt = Math.max(now, ...queue.map(job => job.readyAt));
+  for (let i = 0; i < count; i++) {
+    const readyAt = startedAt + recipe.craftTimeMs;
+    jobs.push({ id: newId(), recipeId: recipe.id, itemName: recipe.output.item, quantity: recipe.output.quantity, startedAt, readyAt });
+    startedAt = readyAt;
+  }
+  return jobs;
+}
@@ -0,0 +1,59 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { Player } from "@shared/schema";
+import {
+  DEFAULT_DEATH_PENALTY,
+  droppedQuantityFor,
+  experienceLossFor,
+  nearestSpawnPoint,
+  resolveDeathPenalty,
+} from "./death";
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("resolveDeathPenalty", () => {
+  it("defaults to losing some experience", () => {
+    expect(resolveDeathPenalty({})).toBe(DEFAULT_DEATH_PENALTY);
+  });
+
+  it("reads the type and an optional fraction", () => {
+    expect(resolveDeathPenalty({ DEATH_PENALTY: "none" })).toEqual({ type: "none" });
+    expect(resolveDeathPenalty({ DEATH_PENALTY: " Inventory:0.25 " })).toEqual({ type: "inventory", fraction: 0.25 });
+    expect(resolveDeathPenalty({ DEATH_PENALTY: "experience" })).toEqual(DEFAULT_DEATH_PENALTY);
+  });
+
+  it("rejects unknown types and fractions outside 0 to 1", () => {
+    expect(() => resolveDeathPenalty({ DEATH_PENALTY: "gold" })).toThrow(/Unknown DEATH_PENALTY/);
+    expect(() => resolveDeathPenalty({ DEATH_PENALTY: "inventory:1.5" })).toThrow(/between 0 and 1/);
+    expect(() => resolveDeathPenalty({ DEATH_PENALTY: "experience:lots" })).toThrow(/between 0 and 1/);
+  });
+});
+
+describe("experienceLossFor", () => {
+  it("only takes from progress towards the next level", () => {
+    expect(experienceLossFor({ experience: 1250 } as Player, 0.1)).toBe(5);
+    expect(experienceLossFor({ experience: 300 } as Player, 1)).toBe(0);
+  });
+});
+
+describe("droppedQuantityFor", () => {
+  it("rounds randomly so small stacks can still lose something", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.95);
+    expect(droppedQuantityFor(1, 0.1)).toBe(1);
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+    expect(droppedQuantityFor(1, 0.1)).toBe(0);
+  });
+
+  it("never drops more than the stack", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.99);
+    expect(droppedQuantityFor(3, 1)).toBe(3);
+  });
+});
+
+describe("nearestSpawnPoint", () => {
+  it("picks the closest spawn point in the zone", () => {
+    expect(nearestSpawnPoint("selha_latna", { x: 50, y: 4, z: -70 })).toEqual({ x: 60, y: 0, z: -60 });
+    expect(nearestSpawnPoint("selha_latna", { x: 5, y: 0, z: 5 })).toEqual({ x: 0, y: 0, z: 0 });
+  });
+});
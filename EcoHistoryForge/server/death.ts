@@ -0,0 +1,67 @@
+import type { Player } from "@shared/schema";
+import type { Position } from "./movement";
+
+// What dying costs. "experience" takes a share of the progress made towards
+// the next level (never a whole level); "inventory" drops a share of every
+// carried stack as world loot at the death point.
+export type DeathPenalty =
+  | { type: "none" }
+  | { type: "experience"; fraction: number }
+  | { type: "inventory"; fraction: number };
+
+const DEFAULT_PENALTY_FRACTION = 0.1;
+
+export const DEFAULT_DEATH_PENALTY: DeathPenalty = { type: "experience", fraction: DEFAULT_PENALTY_FRACTION };
+
+export const RESPAWN_DELAY_MS = 10000;
+
+// Players come back at the closest of these
+export const ZONE_SPAWN_POINTS: Record<string, Position[]> = {
+  selha_latna: [
+    { x: 0, y: 0, z: 0 },
+    { x: 60, y: 0, z: 60 },
+    { x: -60, y: 0, z: 60 },
+    { x: 60, y: 0, z: -60 },
+    { x: -60, y: 0, z: -60 },
+  ],
+};
+
+const EXPERIENCE_PER_LEVEL = 100;
+
+// DEATH_PENALTY=none | experience[:fraction] | inventory[:fraction], e.g. "inventory:0.25"
+export function resolveDeathPenalty(env: NodeJS.ProcessEnv = process.env): DeathPenalty {
+  const requested = env.DEATH_PENALTY?.trim().toLowerCase();
+  if (!requested) {
+    return DEFAULT_DEATH_PENALTY;
+  }
+
+  const [type, rawFraction] = requested.split(":");
+  if (type === "none") {
+    return { type: "none" };
+  }
+  if (type !== "experience" && type !== "inventory") {
+    throw new Error(`Unknown DEATH_PENALTY "${env.DEATH_PENALTY}", expected "none", "experience" or "inventory"`);
+  }
+
+  const fraction = rawFraction === undefined ? DEFAULT_PENALTY_FRACTION : Number(rawFraction);
+  if (!Number.isFinite(fraction) || fraction < 0 || fraction > 1) {
+    throw new Error(`DEATH_PENALTY fraction must be between 0 and 1, got "${rawFraction}"`);
+  }
+  return { type, fraction };
+}
+
+export function experienceLossFor(player: Player, fraction: number): number {
+  return Math.floor((player.experience % EXPERIENCE_PER_LEVEL) * fraction);
+}
+
+// Rounds randomly so small stacks still lose something some of the time
+export function droppedQuantityFor(quantity: number, fraction: number): number {
+  return Math.min(quantity, Math.floor(quantity * fraction + Math.random()));
+}
+
+export function nearestSpawnPoint(zone: string, from: Position): Position {
+  const points = ZONE_SPAWN_POINTS[zone] ?? [{ x: 0, y: 0, z: 0 }];
+  return points.reduce((best, point) =>
+    Math.hypot(point.x - from.x, point.z - from.z) < Math.hypot(best.x - from.x, best.z - from.z) ? point : best
+  );
+}
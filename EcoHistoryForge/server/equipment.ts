@@ -0,0 +1,24 @@
+import type { GameState, LootItem } from "@shared/schema";
+import { EQUIPMENT_SLOTS, equipmentEffectsSchema, type EquipmentEffects, type EquipmentSlot } from "@shared/equipment";
+
+export type EquippedItemIds = Partial<Record<EquipmentSlot, string>>;
+
+// What the item does when worn, or undefined if it can't be worn
+export function equipmentEffectsOf(item: LootItem): EquipmentEffects | undefined {
+  if (item.type !== "equipment") return undefined;
+  const parsed = equipmentEffectsSchema.safeParse(item.effects);
+  return parsed.success ? parsed.data : undefined;
+}
+
+// gameState.equipment is untyped jsonb; anything that isn't a slot -> item id pair is ignored
+export function equippedItemIdsOf(state: GameState | undefined): EquippedItemIds {
+  const raw = (state?.equipment ?? {}) as Record<string, unknown>;
+  const equipped: EquippedItemIds = {};
+  for (const slot of EQUIPMENT_SLOTS) {
+    const itemId = raw[slot];
+    if (typeof itemId === "string") {
+      equipped[slot] = itemId;
+    }
+  }
+  return equipped;
+}
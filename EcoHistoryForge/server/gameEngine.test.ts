@@ -0,0 +1,138 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { GameEngine, type EngineEvent } from "./gameEngine";
+import { MemStorage } from "./memStorage";
+import type { GameSystem, TickContext } from "./systems/types";
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+async function createPlayers(storage: MemStorage, count: number) {
+  const players = [];
+  for (let i = 0; i < count; i++) {
+    players.push(await storage.createPlayer({ username: `player${i}`, password: "secret", characterName: `Player ${i}` }));
+  }
+  return players;
+}
+
+function recorder(name: string, calls: string[], contexts: TickContext[] = []): GameSystem {
+  return {
+    name,
+    update(ctx) {
+      calls.push(`${name}@${ctx.tick}`);
+      contexts.push(ctx);
+    },
+  };
+}
+
+describe("GameEngine.step", () => {
+  it("runs systems in the order they were added, once per tick", async () => {
+    const engine = new GameEngine(new MemStorage(), { tickRate: 10 });
+    const calls: string[] = [];
+    const contexts: TickContext[] = [];
+    engine.addSystem(recorder("first", calls, contexts));
+    engine.addSystem(recorder("second", calls));
+
+    await engine.step();
+    await engine.step();
+
+    expect(calls).toEqual(["first@1", "second@1", "first@2", "second@2"]);
+    expect(contexts.map(ctx => [ctx.tick, ctx.deltaMs, ctx.time])).toEqual([[1, 100, 100], [2, 100, 200]]);
+    const metrics = engine.getMetrics();
+    expect(metrics.tick).toBe(2);
+    expect(Object.keys(metrics.systems)).toEqual([
+      "spawning", "regeneration", "statusEffects", "monsterAI", "respawn", "casting",
+      "projectiles", "lootRolls", "crafting", "communityResources", "lootCleanup", "first", "second",
+    ]);
+  });
+
+  it("keeps running later systems when one throws", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const engine = new GameEngine(new MemStorage());
+    const calls: string[] = [];
+    engine.addSystem({ name: "broken", update: () => { throw new Error("boom"); } });
+    engine.addSystem(recorder("after", calls));
+
+    await engine.step();
+
+    expect(calls).toEqual(["after@1"]);
+    expect(console.error).toHaveBeenCalledWith("broken system error:", expect.any(Error));
+  });
+});
+
+describe("GameEngine flushing", () => {
+  it("writes dirty players only every flushEveryTicks, in batches", async () => {
+    const storage = new MemStorage();
+    const engine = new GameEngine(storage, { flushEveryTicks: 3 });
+    const players = await createPlayers(storage, 120);
+    for (const player of players) {
+      await engine.addPlayer(player.id);
+      engine.world.updatePlayer(player.id, { positionX: 7 });
+    }
+    const updatePlayers = vi.spyOn(storage, "updatePlayers");
+
+    await engine.step();
+    await engine.step();
+    expect(updatePlayers).not.toHaveBeenCalled();
+    expect((await storage.getPlayer(players[0].id))?.positionX).toBe(0);
+
+    await engine.step();
+    expect(updatePlayers.mock.calls.map(([batch]) => batch.length)).toEqual([50, 50, 20]);
+    expect((await storage.getPlayer(players[119].id))?.positionX).toBe(7);
+    expect(engine.getMetrics().lastFlush).toMatchObject({ players: 120, monsters: 0, failed: false });
+    expect(engine.world.takeAllPending()).toEqual({ players: [], monsters: [] });
+  });
+
+  it("keeps changes pending when a flush fails and writes them on the next one", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const storage = new MemStorage();
+    const engine = new GameEngine(storage, { flushEveryTicks: 1 });
+    const [player] = await createPlayers(storage, 1);
+    await engine.addPlayer(player.id);
+    engine.world.updatePlayer(player.id, { positionZ: -4 });
+    vi.spyOn(storage, "updatePlayers").mockRejectedValueOnce(new Error("connection lost"));
+
+    await engine.step();
+    expect(engine.getMetrics().lastFlush).toMatchObject({ players: 1, failed: true });
+    expect((await storage.getPlayer(player.id))?.positionZ).toBe(0);
+
+    await engine.step();
+    expect(engine.getMetrics().lastFlush).toMatchObject({ players: 1, failed: false });
+    expect((await storage.getPlayer(player.id))?.positionZ).toBe(-4);
+  });
+});
+
+describe("GameEngine monster broadcasts", () => {
+  it("sends state changes at once and throttles movement updates", async () => {
+    const storage = new MemStorage();
+    const engine = new GameEngine(storage);
+    const [player] = await createPlayers(storage, 1);
+    await engine.addPlayer(player.id);
+    // Inside the golem's aggro radius but well outside its attack range, so it spends the test chasing
+    const monster = await storage.createMonster({
+      name: "Stone Golem",
+      level: 1,
+      health: 100,
+      maxHealth: 100,
+      positionX: 10,
+      positionY: 0,
+      positionZ: 0,
+      zone: "selha_latna",
+      difficultyMultiplier: 1,
+    });
+    engine.world.addMonster(monster);
+    const broadcastTicks: number[] = [];
+    let tick = 0;
+    engine.onEvent((event: EngineEvent) => {
+      if (event.type === "monster_updated") broadcastTicks.push(tick);
+    });
+
+    for (tick = 1; tick <= 9; tick++) {
+      await engine.step();
+    }
+
+    expect(engine.monsterAI.getState(monster.id)).toBe("chasing");
+    expect(broadcastTicks).toEqual([1, 5, 9]);
+    expect(engine.world.monsters.get(monster.id)?.positionX).toBeLessThan(10);
+  });
+});
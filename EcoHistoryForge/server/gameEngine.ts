@@ -1,5 +1,133 @@
+import { randomUUID } from "crypto";
+import { performance } from "perf_hooks";
 import { IStorage } from "./storage";
-import { Monster, Player } from "@shared/schema";
+import { CommunityResources, LootItem, Monster, Player, WorldLoot } from "@shared/schema";
+import { WorldState } from "./world";
+import { GameSystem, TickContext } from "./systems/types";
+import { SpawningSystem } from "./systems/spawning";
+import { RegenerationSystem } from "./systems/regeneration";
+import { LootCleanupSystem } from "./systems/lootCleanup";
+import { MonsterAISystem, MonsterSnapshot } from "./systems/monsterAI";
+import { RespawnSystem } from "./systems/respawn";
+import { ProjectileSystem } from "./systems/projectiles";
+import { LootRoll, LootRollOutcome, LootRollSystem } from "./systems/lootRolls";
+import { MONSTER_TYPE_NAMES, MonsterAttackKind } from "./monsterTypes";
+import {
+  auraCostFor,
+  directionBetween,
+  facingDirection,
+  isInCone,
+  knockbackPosition,
+  mitigateDamage,
+  rollAbilityDamage,
+} from "./combat";
+import { hasLineOfSight, type Point2D } from "@shared/world";
+import {
+  GLOBAL_COOLDOWN_KEY,
+  GLOBAL_COOLDOWN_MS,
+  type AbilityDefinition,
+  type AbilityKind,
+  type CastEnded,
+  type CastStarted,
+  type CooldownSnapshot,
+  type LearnedAbility,
+  type PlayerAbilityProgress,
+} from "@shared/abilities";
+import { loadAbilities } from "./abilities";
+import { loadLootData, rollLoot, seedLootItems } from "./loot";
+import type { LootData } from "@shared/loot";
+import {
+  ABILITY_POINTS_PER_LEVEL,
+  ABILITY_POINTS_PER_RANK,
+  DEFAULT_ABILITY_REBIRTH_RULE,
+  AbilityRebirthRule,
+  abilityProgressFor,
+  abilityRankOf,
+  applyAbilityRebirthRule,
+  learnedAbilitiesOf,
+  levelUnlocksFor,
+  meetsTutorialUnlock,
+  rankMultiplierFor,
+  skillBookFor,
+} from "./abilityProgression";
+import { activeCooldownsOf, cooldownEndOf, withCooldowns } from "./cooldowns";
+import { Cast, CastingSystem } from "./systems/casting";
+import { StatusEffectSystem } from "./systems/statusEffects";
+import { BUFF_STATUS_EFFECTS, consumableEffectsOf, type ConsumableEffect } from "@shared/consumables";
+import { parseStatusEffects, withStatusEffect } from "./statusEffects";
+import type {
+  ActiveStatusEffect,
+  StatusEffectApplication,
+  StatusEffectType,
+  StatusEffectsUpdate,
+  StatusModifiers,
+} from "@shared/statusEffects";
+import {
+  EQUIPMENT_SLOTS,
+  NO_EQUIPMENT_STATS,
+  equipmentStatsFor,
+  type EquipmentEffects,
+  type EquipmentSlot,
+  type EquipmentSnapshot,
+  type EquipmentStats,
+} from "@shared/equipment";
+import { equipmentEffectsOf, equippedItemIdsOf } from "./equipment";
+import {
+  hasChanges,
+  planAdd,
+  planMerge,
+  planMove,
+  planSlotRepair,
+  planSplit,
+  planTake,
+  type InventoryEntry,
+  type InventoryPlan,
+} from "./inventory";
+import { normalizeRedeemCode, type RedeemResult, type RedeemReward } from "@shared/redeemCodes";
+import { describeReward, rewardsOf } from "./redeemCodes";
+import { Party, PartyChange, PartyManager } from "./parties";
+import type { LootRollChoice, LootRollEnded, LootRollStarted, PartyLootMode, PartySnapshot, PartyState } from "@shared/party";
+import {
+  DEFAULT_LOOT_OWNERSHIP_MS,
+  LOOT_PICKUP_RANGE,
+  LOOT_ROLL_WINDOW_MS,
+  UNROLLED_RARITIES,
+  mayCollect,
+} from "./lootRules";
+import { DEFAULT_DEATH_PENALTY, DeathPenalty, droppedQuantityFor, experienceLossFor, nearestSpawnPoint } from "./death";
+import { CraftingSystem } from "./systems/crafting";
+import { loadRecipes, parseCraftingQueue, scheduleCrafts } from "./crafting";
+import {
+  MAX_CRAFTING_QUEUE,
+  isNearStation,
+  type CraftCompleted,
+  type CraftingJob,
+  type CraftingQueueUpdate,
+  type CraftingSnapshot,
+  type Recipe,
+  type RecipeIngredient,
+} from "@shared/crafting";
+import { CommunityResourceSystem } from "./systems/communityResources";
+import { applyResourceChanges, isEmptyLedger, settlementChanges, type ResourceChange } from "./communityResources";
+import {
+  CRAFTING_YIELD,
+  RESOURCE_HISTORY_LIMIT,
+  abundanceFor,
+  contributionValueOf,
+  gatheringYieldFor,
+  huntingYieldFor,
+  type CommunityResourcesSnapshot,
+  type CommunityResourcesUpdate,
+  type ResourceAmounts,
+} from "@shared/communityResources";
+
+interface AbilityHit {
+  targetId: string;
+  damage: number;
+  critical: boolean;
+  missed: boolean;
+  killed: boolean;
+}
 
 interface AbilityResult {
   success: boolean;
@@ -9,68 +137,214 @@ interface AbilityResult {
   targetId?: string;
   message: string;
   auraCost: number;
+  critical?: boolean;
+  missed?: boolean;
+  kind?: AbilityKind;
+  hits?: AbilityHit[];
+  projectileId?: string;
+  shield?: number;
+  // Epoch ms when the ability can be used again: set after a cast, or when rejected for cooldown
+  cooldownEndsAt?: number;
+  // Charged and channeled abilities resolve over time; progress follows as cast_* events
+  castId?: string;
+  castEndsAt?: number;
 }
 
-interface AbilityDefinition {
-  name: string;
-  auraCost: number;
-  damage: number;
-  range: number;
-  cooldown: number;
-  requiredLevel: number;
+interface AbilityChange {
+  success: boolean;
+  message: string;
+}
+
+interface EquipmentChange {
+  success: boolean;
+  message: string;
+}
+
+interface LootAction {
+  success: boolean;
+  message: string;
+}
+
+interface InventoryAction {
+  success: boolean;
+  message: string;
+}
+
+interface PartyAction {
+  success: boolean;
+  message: string;
+}
+
+interface CraftAction {
+  success: boolean;
+  message: string;
+}
+
+interface ResourceAction {
+  success: boolean;
+  message: string;
+}
+
+// Where giveOrDrop put the item
+type Delivery = { inInventory: true } | { inInventory: false; loot: WorldLoot; item: LootItem };
+
+// What granting one redeem code reward did
+type RewardGrant =
+  | { status: "granted"; announce: () => Promise<unknown> | void }
+  // Misconfigured, so there's nothing to give
+  | { status: "skipped" }
+  // Nowhere to put it; the redemption is undone
+  | { status: "undeliverable"; message: string };
+
+// Thrown inside abortableTransaction to roll back and return `result`
+class TransactionAborted<T> extends Error {
+  constructor(readonly result: T) {
+    super("Transaction aborted");
+  }
+}
+
+interface ItemUse {
+  success: boolean;
+  message: string;
+  effects: ConsumableEffect[];
+}
+
+// Something clients should hear about; routes.ts forwards these over /ws
+export interface EngineEvent {
+  type: string;
+  data: unknown;
+  // Deliver only to this player instead of broadcasting
+  to?: string;
+}
+
+export interface GameEngineOptions {
+  tickRate?: number; // ticks per second
+  flushEveryTicks?: number;
+  zone?: string;
+  deathPenalty?: DeathPenalty;
+  abilityRebirthRule?: AbilityRebirthRule;
+  // Defaults to shared/abilities.json
+  abilities?: AbilityDefinition[];
+  // Defaults to shared/loot.json
+  loot?: LootData;
+  // How long drops stay reserved for whoever earned them
+  lootOwnershipMs?: number;
+  // Defaults to shared/recipes.json
+  recipes?: Recipe[];
+}
+
+type DamageSource = { monsterId?: string; attackKind?: MonsterAttackKind; statusEffect?: StatusEffectType };
+
+interface TimingStats {
+  lastMs: number;
+  avgMs: number;
+  maxMs: number;
+}
+
+export interface TickMetrics extends TimingStats {
+  tick: number;
+  tickRate: number;
+  budgetMs: number;
+  // Ticks that took longer than the budget, and ticks skipped to catch up
+  overruns: number;
+  skippedTicks: number;
+  systems: Record<string, TimingStats>;
+  lastFlush: { players: number; monsters: number; durationMs: number; failed: boolean } | null;
 }
 
+const DEFAULT_TICK_RATE = 20;
+const DEFAULT_FLUSH_EVERY_TICKS = 20; // once a second at 20 Hz
+const FLUSH_BATCH_SIZE = 50;
+// Weight of the newest sample in the moving averages
+const METRICS_SMOOTHING = 0.1;
+// Fall this many ticks behind and the loop stops trying to catch up
+const MAX_CATCH_UP_TICKS = 5;
+
 export class GameEngine {
   private storage: IStorage;
   private abilities: Map<string, AbilityDefinition> = new Map();
-  private playerCooldowns: Map<string, Map<string, number>> = new Map();
+  private readonly loot: LootData;
+  private readonly recipes: Map<string, Recipe> = new Map();
 
-  constructor(storage: IStorage) {
+  readonly world = new WorldState();
+  private systems: GameSystem[] = [];
+  private readonly tickRate: number;
+  private readonly tickMs: number;
+  private readonly flushEveryTicks: number;
+  private readonly zone: string;
+  private readonly deathPenalty: DeathPenalty;
+  private readonly abilityRebirthRule: AbilityRebirthRule;
+  private readonly lootOwnershipMs: number;
+  private tickCount = 0;
+  private loopTimer: NodeJS.Timeout | null = null;
+  private flushing: Promise<void> | null = null;
+  private metrics: TickMetrics;
+  private listeners: Array<(event: EngineEvent) => void> = [];
+  readonly monsterAI = new MonsterAISystem();
+  readonly respawn = new RespawnSystem();
+  readonly projectiles = new ProjectileSystem();
+  readonly casting = new CastingSystem();
+  readonly statusEffects = new StatusEffectSystem();
+  readonly lootRolls = new LootRollSystem();
+  readonly parties = new PartyManager();
+  readonly crafting = new CraftingSystem();
+  readonly communityResources = new CommunityResourceSystem();
+  // What connected players are wearing, so hits don't need a storage read
+  private equipmentStats: Map<string, EquipmentStats> = new Map();
+
+  constructor(storage: IStorage, options: GameEngineOptions = {}) {
     this.storage = storage;
-    this.initializeAbilities();
-  }
-
-  private initializeAbilities() {
-    // Define abilities from the Sword King universe
-    this.abilities.set("stone_bullet", {
-      name: "Stone Bullet",
-      auraCost: 50,
-      damage: 150,
-      range: 30,
-      cooldown: 2000, // 2 seconds
-      requiredLevel: 1,
-    });
+    this.tickRate = options.tickRate ?? DEFAULT_TICK_RATE;
+    this.tickMs = 1000 / this.tickRate;
+    this.flushEveryTicks = options.flushEveryTicks ?? DEFAULT_FLUSH_EVERY_TICKS;
+    this.zone = options.zone ?? "selha_latna";
+    this.deathPenalty = options.deathPenalty ?? DEFAULT_DEATH_PENALTY;
+    this.abilityRebirthRule = options.abilityRebirthRule ?? DEFAULT_ABILITY_REBIRTH_RULE;
+    this.lootOwnershipMs = options.lootOwnershipMs ?? DEFAULT_LOOT_OWNERSHIP_MS;
+    this.metrics = {
+      tick: 0,
+      tickRate: this.tickRate,
+      budgetMs: this.tickMs,
+      lastMs: 0,
+      avgMs: 0,
+      maxMs: 0,
+      overruns: 0,
+      skippedTicks: 0,
+      systems: {},
+      lastFlush: null,
+    };
+    (options.abilities ?? loadAbilities()).forEach(ability => this.abilities.set(ability.id, ability));
+    this.loot = options.loot ?? loadLootData();
+    (options.recipes ?? loadRecipes(this.loot.items.map(item => item.name))).forEach(recipe => this.recipes.set(recipe.id, recipe));
+    this.registerDefaultSystems();
+  }
 
-    this.abilities.set("wind_manipulation", {
-      name: "Wind Manipulation",
-      auraCost: 75,
-      damage: 200,
-      range: 15,
-      cooldown: 3000, // 3 seconds
-      requiredLevel: 15,
-    });
+  private registerDefaultSystems() {
+    this.addSystem(new SpawningSystem(this.zone));
+    this.addSystem(new RegenerationSystem());
+    this.addSystem(this.statusEffects);
+    this.addSystem(this.monsterAI);
+    this.addSystem(this.respawn);
+    this.addSystem(this.casting);
+    this.addSystem(this.projectiles);
+    this.addSystem(this.lootRolls);
+    this.addSystem(this.crafting);
+    this.addSystem(this.communityResources);
+    this.addSystem(new LootCleanupSystem());
+  }
 
-    this.abilities.set("ground_dig_up", {
-      name: "Ground Dig-Up",
-      auraCost: 100,
-      damage: 300,
-      range: 10,
-      cooldown: 5000, // 5 seconds
-      requiredLevel: 60,
-    });
+  // Systems run every tick in the order they were added
+  addSystem(system: GameSystem): void {
+    this.systems.push(system);
+    this.metrics.systems[system.name] = { lastMs: 0, avgMs: 0, maxMs: 0 };
+  }
 
-    this.abilities.set("aura_release", {
-      name: "Aura Release",
-      auraCost: 200,
-      damage: 500,
-      range: 25,
-      cooldown: 10000, // 10 seconds
-      requiredLevel: 85,
-    });
+  getAbilities(): AbilityDefinition[] {
+    return Array.from(this.abilities.values());
   }
 
   async useAbility(playerId: string, abilityName: string, targetId?: string): Promise<AbilityResult> {
-    const player = await this.storage.getPlayer(playerId);
+    const player = await this.getPlayer(playerId);
     if (!player) {
       return {
         success: false,
@@ -81,7 +355,18 @@ export class GameEngine {
       };
     }
 
-    const ability = this.abilities.get(abilityName.toLowerCase().replace(" ", "_"));
+    if (this.isPlayerDead(playerId)) {
+      return {
+        success: false,
+        abilityUsed: abilityName,
+        playerId,
+        message: "You are dead",
+        auraCost: 0,
+      };
+    }
+
+    const abilityKey = abilityName.trim().toLowerCase().replace(/\s+/g, "_");
+    const ability = this.abilities.get(abilityKey);
     if (!ability) {
       return {
         success: false,
@@ -92,259 +377,1819 @@ export class GameEngine {
       };
     }
 
-    // Check level requirement
-    if (player.level < ability.requiredLevel) {
+    if (this.statusModifiers(playerId).stunned) {
+      return {
+        success: false,
+        abilityUsed: abilityName,
+        playerId,
+        message: "You are stunned",
+        auraCost: 0,
+      };
+    }
+
+    // Only learned abilities can be cast
+    const rank = abilityRankOf(player, ability.id);
+    if (rank === 0) {
       return {
         success: false,
         abilityUsed: abilityName,
         playerId,
-        message: `Requires level ${ability.requiredLevel}`,
+        message: player.level < ability.requiredLevel
+          ? `Requires level ${ability.requiredLevel}`
+          : `You haven't learned ${ability.name}`,
         auraCost: ability.auraCost,
       };
     }
 
-    // Check aura cost
-    if (player.aura < ability.auraCost) {
+    // Intelligence makes abilities cheaper
+    const auraCost = auraCostFor(player, ability.auraCost);
+    if (player.aura < auraCost) {
       return {
         success: false,
         abilityUsed: abilityName,
         playerId,
         message: "Not enough aura",
-        auraCost: ability.auraCost,
+        auraCost,
       };
     }
 
     // Check cooldown
-    if (this.isOnCooldown(playerId, abilityName)) {
-      const remainingTime = this.getRemainingCooldown(playerId, abilityName);
+    const cooldownEndsAt = cooldownEndOf(player, ability.id);
+    if (cooldownEndsAt !== undefined) {
       return {
         success: false,
         abilityUsed: abilityName,
         playerId,
-        message: `Ability on cooldown (${remainingTime}ms remaining)`,
-        auraCost: ability.auraCost,
+        message: `Ability on cooldown (${cooldownEndsAt - Date.now()}ms remaining)`,
+        auraCost,
+        cooldownEndsAt,
       };
     }
 
-    // Calculate damage with hidden stats
-    const totalDamage = ability.damage + Math.floor(player.hiddenStrength * 0.1);
+    if (this.casting.isCasting(playerId)) {
+      return {
+        success: false,
+        abilityUsed: abilityName,
+        playerId,
+        message: "Already casting",
+        auraCost,
+      };
+    }
 
-    // Apply aura cost
-    await this.storage.updatePlayer(playerId, {
-      aura: player.aura - ability.auraCost,
-    });
+    const globalCooldownEndsAt = cooldownEndOf(player, GLOBAL_COOLDOWN_KEY);
+    if (globalCooldownEndsAt !== undefined) {
+      return {
+        success: false,
+        abilityUsed: abilityName,
+        playerId,
+        message: `Global cooldown (${globalCooldownEndsAt - Date.now()}ms remaining)`,
+        auraCost,
+        cooldownEndsAt: globalCooldownEndsAt,
+      };
+    }
 
-    // Set cooldown
-    this.setCooldown(playerId, abilityName, ability.cooldown);
-
-    // Handle target damage if targetId provided
-    if (targetId) {
-      const monster = await this.findNearbyMonster(player, targetId);
-      if (monster) {
-        const newHealth = Math.max(0, monster.health - totalDamage);
-        await this.storage.updateMonster(monster.id, { health: newHealth });
-        
-        if (newHealth <= 0) {
-          await this.storage.deleteMonster(monster.id);
-          // Award experience
-          const expGain = Math.floor(monster.level * 10 * (1 + player.rebirthCycle * 0.1));
-          await this.awardExperience(player, expGain);
-          
-          // Drop loot
-          await this.dropLoot(monster, player.id);
-        }
+    // Single-target casts check their target before spending anything, so a blocked cast costs nothing
+    let monster: Monster | undefined;
+    if (targetId && ability.kind === "projectile") {
+      const target = this.resolveTarget(player, targetId, ability.range);
+      if (!target.monster) {
+        return {
+          success: false,
+          abilityUsed: abilityName,
+          playerId,
+          targetId,
+          message: target.message,
+          auraCost,
+        };
       }
+      monster = target.monster;
     }
 
-    return {
+    // Charged abilities only start the global cooldown now; aura and the
+    // ability's own cooldown are paid when the cast completes
+    if (ability.castTimeMs) {
+      const cooldowns = await this.startCooldowns(player, { [GLOBAL_COOLDOWN_KEY]: GLOBAL_COOLDOWN_MS });
+      const cast = this.beginCast(player, ability, "cast", ability.castTimeMs, targetId);
+      return {
+        success: true,
+        abilityUsed: abilityName,
+        playerId,
+        targetId,
+        message: `Casting ${ability.name}`,
+        auraCost,
+        kind: ability.kind,
+        castId: cast.id,
+        castEndsAt: cast.endsAt,
+        cooldownEndsAt: cooldowns[GLOBAL_COOLDOWN_KEY],
+      };
+    }
+
+    return this.resolveAbility(player, ability, abilityName, targetId, monster, auraCost, true);
+  }
+
+  // Pays for the ability and applies it (or starts its channel)
+  private async resolveAbility(
+    player: Player,
+    ability: AbilityDefinition,
+    abilityName: string,
+    targetId: string | undefined,
+    monster: Monster | undefined,
+    auraCost: number,
+    withGlobalCooldown: boolean,
+  ): Promise<AbilityResult> {
+    const durations: Record<string, number> = { [ability.id]: ability.cooldown };
+    if (withGlobalCooldown) {
+      durations[GLOBAL_COOLDOWN_KEY] = GLOBAL_COOLDOWN_MS;
+    }
+    const cooldowns = await this.startCooldowns(player, durations, { aura: player.aura - auraCost });
+
+    const result: AbilityResult = {
       success: true,
-      damage: totalDamage,
       abilityUsed: abilityName,
-      playerId,
+      playerId: player.id,
       targetId,
-      message: `Used ${ability.name} for ${totalDamage} damage`,
-      auraCost: ability.auraCost,
+      message: "",
+      auraCost,
+      kind: ability.kind,
+      cooldownEndsAt: cooldowns[ability.id],
     };
+
+    if (ability.channelDurationMs) {
+      const cast = this.beginCast(player, ability, "channel", ability.channelDurationMs, targetId);
+      result.message = `Channeling ${ability.name}`;
+      result.castId = cast.id;
+      result.castEndsAt = cast.endsAt;
+      return result;
+    }
+
+    return { ...result, ...(await this.performAbility(player, ability, monster, targetId)) };
   }
 
-  private isOnCooldown(playerId: string, abilityName: string): boolean {
-    const playerCooldowns = this.playerCooldowns.get(playerId);
-    if (!playerCooldowns) return false;
+  // The ability's effect from where the caster stands now
+  private async performAbility(
+    player: Player,
+    ability: AbilityDefinition,
+    monster: Monster | undefined,
+    targetId?: string,
+  ): Promise<Partial<AbilityResult>> {
+    const result: Partial<AbilityResult> = {};
+    const origin = { x: player.positionX, z: player.positionZ };
+    // Aim at the selected target if there is one, otherwise straight ahead
+    const aimAt = targetId ? this.world.monsters.get(targetId) : undefined;
+    const direction = (aimAt && directionBetween(origin, { x: aimAt.positionX, z: aimAt.positionZ }))
+      ?? facingDirection(player.rotationY);
+
+    switch (ability.kind) {
+      case "projectile": {
+        result.projectileId = this.projectiles.launch({
+          casterId: player.id,
+          abilityKey: ability.id,
+          zone: this.zone,
+          origin,
+          targetId: monster?.id,
+          direction,
+          speed: ability.projectileSpeed ?? 40,
+          range: ability.range,
+        });
+        result.message = `Launched ${ability.name}`;
+        break;
+      }
+
+      case "cone":
+      case "radius": {
+        const hits: AbilityHit[] = [];
+        for (const victim of this.findAreaTargets(ability, origin, direction)) {
+          const hit = await this.applyAbilityHit(player.id, ability.id, victim.id, origin);
+          if (hit) hits.push(hit);
+        }
+        result.hits = hits;
+        result.damage = hits.reduce((total, hit) => total + hit.damage, 0);
+        result.critical = hits.some(hit => hit.critical);
+        result.missed = hits.length > 0 && hits.every(hit => hit.missed);
+        result.message = hits.length === 0
+          ? `${ability.name} hit nothing`
+          : result.missed
+            ? `${ability.name} missed`
+            : `${result.critical ? "Critical! " : ""}${ability.name} hit ${hits.length} target${hits.length === 1 ? "" : "s"} for ${result.damage} damage`;
+        break;
+      }
+
+      case "shield": {
+        const amount = Math.round((ability.shieldAmount ?? 0) * rankMultiplierFor(ability, abilityRankOf(player, ability.id)));
+        this.grantShield(player.id, amount, ability.shieldDurationMs ?? 0);
+        result.shield = amount;
+        result.message = `${ability.name} raises a ${amount} point shield`;
+        break;
+      }
+    }
+
+    // Lets every client draw the effect
+    this.emit({
+      type: "ability_effect",
+      data: {
+        kind: ability.kind,
+        abilityName: ability.id,
+        casterId: player.id,
+        originX: origin.x,
+        originZ: origin.z,
+        directionX: direction.x,
+        directionZ: direction.z,
+        range: ability.range,
+        coneAngle: ability.coneAngle,
+        targetId: monster?.id,
+        projectileId: result.projectileId,
+        speed: ability.projectileSpeed,
+        shieldDurationMs: ability.shieldDurationMs,
+      },
+    });
 
-    const cooldownEnd = playerCooldowns.get(abilityName);
-    return cooldownEnd ? Date.now() < cooldownEnd : false;
+    return result;
+  }
+
+  private beginCast(player: Player, ability: AbilityDefinition, kind: "cast" | "channel", durationMs: number, targetId?: string): Cast {
+    const cast = this.casting.begin({
+      casterId: player.id,
+      abilityId: ability.id,
+      kind,
+      targetId,
+      durationMs,
+      pulseEveryMs: kind === "channel" ? ability.channelTickMs : undefined,
+      origin: { x: player.positionX, z: player.positionZ },
+    });
+    const started: CastStarted = {
+      castId: cast.id,
+      casterId: player.id,
+      abilityId: ability.id,
+      abilityName: ability.name,
+      kind,
+      targetId: targetId ?? null,
+      startedAt: cast.startedAt,
+      endsAt: cast.endsAt,
+    };
+    this.emit({ type: "cast_started", data: started });
+    return cast;
   }
 
-  private getRemainingCooldown(playerId: string, abilityName: string): number {
-    const playerCooldowns = this.playerCooldowns.get(playerId);
-    if (!playerCooldowns) return 0;
+  // Called by the casting system each time a channel ticks
+  async pulseChannel(cast: Cast): Promise<void> {
+    const player = this.world.players.get(cast.casterId);
+    const ability = this.abilities.get(cast.abilityId);
+    if (!player || !ability) return;
 
-    const cooldownEnd = playerCooldowns.get(abilityName);
-    return cooldownEnd ? Math.max(0, cooldownEnd - Date.now()) : 0;
+    const monster = cast.targetId ? this.world.monsters.get(cast.targetId) : undefined;
+    await this.performAbility(player, ability, monster, cast.targetId);
   }
 
-  private setCooldown(playerId: string, abilityName: string, duration: number): void {
-    if (!this.playerCooldowns.has(playerId)) {
-      this.playerCooldowns.set(playerId, new Map());
+  // Called by the casting system when a cast's time is up. Charged casts are
+  // re-checked, since aura or the target may have changed while charging.
+  async completeCast(cast: Cast): Promise<void> {
+    const player = this.world.players.get(cast.casterId);
+    const ability = this.abilities.get(cast.abilityId);
+    if (!player || !ability) return;
+
+    if (cast.kind === "channel") {
+      this.endCast(cast, "completed", null, `${ability.name} ends`);
+      return;
     }
-    
-    const playerCooldowns = this.playerCooldowns.get(playerId)!;
-    playerCooldowns.set(abilityName, Date.now() + duration);
+
+    const auraCost = auraCostFor(player, ability.auraCost);
+    if (player.aura < auraCost) {
+      this.endCast(cast, "interrupted", "failed", "Not enough aura");
+      return;
+    }
+    let monster: Monster | undefined;
+    if (cast.targetId && ability.kind === "projectile") {
+      const target = this.resolveTarget(player, cast.targetId, ability.range);
+      if (!target.monster) {
+        this.endCast(cast, "interrupted", "failed", target.message);
+        return;
+      }
+      monster = target.monster;
+    }
+
+    const result = await this.resolveAbility(player, ability, ability.name, cast.targetId, monster, auraCost, false);
+    this.endCast(cast, "completed", null, result.message);
   }
 
-  private async findNearbyMonster(player: Player, targetId: string): Promise<Monster | undefined> {
-    const monsters = await this.storage.getMonstersInZone("selha_latna");
-    return monsters.find(m => m.id === targetId && this.isInRange(player, m, 50));
+  // Stops whatever the player is casting; returns false if they weren't
+  interruptCast(playerId: string, reason: "moved" | "damaged" | "stunned" | "left"): boolean {
+    const cast = this.casting.cancel(playerId);
+    if (!cast) return false;
+
+    const ability = this.abilities.get(cast.abilityId);
+    const name = ability?.name ?? cast.abilityId;
+    const message = reason === "moved"
+      ? `${name} interrupted: you moved`
+      : reason === "damaged"
+        ? `${name} interrupted: you took damage`
+        : reason === "stunned"
+          ? `${name} interrupted: you are stunned`
+          : `${name} interrupted`;
+    this.endCast(cast, "interrupted", reason, message);
+    return true;
   }
 
-  private isInRange(player: Player, monster: Monster, range: number): boolean {
-    const dx = player.positionX - monster.positionX;
-    const dy = player.positionY - monster.positionY;
-    const dz = player.positionZ - monster.positionZ;
-    const distance = Math.sqrt(dx * dx + dy * dy + dz * dz);
-    return distance <= range;
+  private endCast(cast: Cast, outcome: CastEnded["outcome"], reason: CastEnded["reason"], message: string): void {
+    const ended: CastEnded = { castId: cast.id, casterId: cast.casterId, abilityId: cast.abilityId, outcome, reason, message };
+    this.emit({ type: outcome === "completed" ? "cast_completed" : "cast_interrupted", data: ended });
   }
 
-  private async awardExperience(player: Player, exp: number): Promise<void> {
-    const newExp = player.experience + exp;
-    const newLevel = Math.floor(newExp / 100) + 1; // Simple level formula
-    
-    const updates: Partial<Player> = { experience: newExp };
-    
-    if (newLevel > player.level && newLevel <= 100) {
-      updates.level = newLevel;
-      // Increase max health and aura on level up
-      updates.maxHealth = 1000 + (newLevel * 50);
-      updates.maxAura = 500 + (newLevel * 25);
-      updates.health = updates.maxHealth; // Full heal on level up
-      updates.aura = updates.maxAura;
+  // Starts the given cooldowns ({ [abilityId or GLOBAL_COOLDOWN_KEY]: ms }) along with any other player updates
+  private async startCooldowns(
+    player: Player,
+    durations: Record<string, number>,
+    updates: Partial<Player> = {},
+  ): Promise<Record<string, number>> {
+    const abilityCooldowns = withCooldowns(player, durations);
+    await this.updatePlayer(player.id, { ...updates, abilityCooldowns });
+    this.emit({ type: "cooldowns", data: this.cooldownSnapshot(player.id, abilityCooldowns), to: player.id });
+    return abilityCooldowns;
+  }
+
+  // Ends the given abilities' cooldowns, or every running one (the global cooldown included)
+  private async resetCooldowns(playerId: string, abilityIds?: string[]): Promise<void> {
+    const player = await this.getPlayer(playerId);
+    if (!player) return;
+
+    const abilityCooldowns = abilityIds
+      ? Object.fromEntries(Object.entries(activeCooldownsOf(player)).filter(([key]) => !abilityIds.includes(key)))
+      : {};
+    await this.updatePlayer(playerId, { abilityCooldowns });
+    this.emit({ type: "cooldowns", data: this.cooldownSnapshot(playerId, abilityCooldowns), to: playerId });
+  }
+
+  // Rolls and applies one hit of an ability on one monster. Projectiles call
+  // this when they land, so the caster may have moved or left since casting.
+  async applyAbilityHit(casterId: string, abilityKey: string, monsterId: string, origin: Point2D): Promise<AbilityHit | undefined> {
+    const player = this.world.players.get(casterId);
+    const ability = this.abilities.get(abilityKey);
+    const monster = this.world.monsters.get(monsterId);
+    if (!player || !ability || !monster) return undefined;
+
+    // Rank, gear and buffs such as Strength scale the base before stats and rolls
+    const rankedDamage = ability.damage
+      * rankMultiplierFor(ability, abilityRankOf(player, ability.id))
+      * (1 + this.equipmentStatsOf(casterId).damage)
+      * this.statusModifiers(casterId).damageMultiplier;
+    const roll = rollAbilityDamage(player, rankedDamage, monster.level);
+    const newHealth = Math.max(0, monster.health - roll.damage);
+    this.world.updateMonster(monster.id, { health: newHealth });
+    // A miss still provokes the monster
+    this.monsterAI.provoke(monster.id, player.id);
+
+    const killed = newHealth <= 0;
+    if (killed) {
+      this.world.killMonster(monster.id);
+      this.emit({ type: "monster_killed", data: { id: monster.id, killerId: player.id } });
+      // Award experience
+      const expGain = Math.floor(monster.level * 10 * (1 + player.rebirthCycle * 0.1));
+      await this.awardExperience(player, expGain);
+      
+      // Drop loot
+      await this.dropLoot(monster, player.id);
+      this.communityResources.bank(player.id, "hunting", huntingYieldFor(monster.level));
+    } else if (ability.knockback && !roll.missed) {
+      const pushed = knockbackPosition(origin, { x: monster.positionX, z: monster.positionZ }, ability.knockback);
+      this.world.updateMonster(monster.id, { positionX: pushed.x, positionZ: pushed.z });
     }
-    
-    await this.storage.updatePlayer(player.id, updates);
+
+    const hit: AbilityHit = { targetId: monster.id, damage: roll.damage, critical: roll.critical, missed: roll.missed, killed };
+    this.emit({ type: "ability_hit", data: { casterId, abilityName: abilityKey, ...hit } });
+    return hit;
   }
 
-  async spawnMonster(zone: string, level: number, difficultyMultiplier: number = 1.0): Promise<Monster> {
-    const monsterTypes = ["Stone Golem", "Shadow Wolf", "Crystal Spider", "Wind Elemental"];
-    const randomType = monsterTypes[Math.floor(Math.random() * monsterTypes.length)];
-    
-    const baseHealth = level * 100;
-    const scaledHealth = Math.floor(baseHealth * difficultyMultiplier);
-    
-    // Random position in zone
-    const x = Math.random() * 200 - 100;
-    const z = Math.random() * 200 - 100;
-    
-    return await this.storage.createMonster({
-      name: randomType,
-      level,
-      health: scaledHealth,
-      maxHealth: scaledHealth,
-      positionX: x,
-      positionY: 0,
-      positionZ: z,
-      zone,
-      difficultyMultiplier,
+  private findAreaTargets(ability: AbilityDefinition, origin: Point2D, direction: Point2D): Monster[] {
+    return this.world.getMonstersInZone(this.zone).filter(monster => {
+      const point = { x: monster.positionX, z: monster.positionZ };
+      const inArea = ability.kind === "cone"
+        ? isInCone(origin, direction, point, ability.range, ((ability.coneAngle ?? 90) * Math.PI) / 180)
+        : Math.hypot(point.x - origin.x, point.z - origin.z) <= ability.range;
+      return inArea && hasLineOfSight(this.zone, origin, point);
     });
   }
 
-  async dropLoot(monster: Monster, killerId: string): Promise<void> {
-    // Get all available loot items
-    const allLootItems = await this.storage.getAllLootItems();
-    const boneItem = allLootItems.find(item => item.name === 'Monster Bone');
-    const meatItem = allLootItems.find(item => item.name === 'Monster Meat');
-    
-    if (!boneItem || !meatItem) {
-      console.warn("Loot items not found in database");
-      return;
+  async getAbilityProgress(playerId: string): Promise<PlayerAbilityProgress | undefined> {
+    const player = await this.getPlayer(playerId);
+    if (!player) return undefined;
+
+    const itemNames = await this.inventoryItemNames(playerId);
+    return {
+      abilityPoints: player.abilityPoints,
+      abilities: this.getAbilities().map(ability => abilityProgressFor(player, ability, itemNames)),
+    };
+  }
+
+  // Level milestones and tutorial steps teach for free; otherwise a matching
+  // skill book is used up
+  async learnAbility(playerId: string, abilityId: string): Promise<AbilityChange> {
+    const player = await this.getPlayer(playerId);
+    const ability = this.abilities.get(abilityId);
+    if (!player) return { success: false, message: "Player not found" };
+    if (!ability) return { success: false, message: "Unknown ability" };
+    if (abilityRankOf(player, ability.id) > 0) {
+      return { success: false, message: `You already know ${ability.name}` };
     }
 
-    // Drop chance based on monster level and type
-    const dropChance = Math.min(0.8, 0.3 + (monster.level * 0.01)); // 30% base + 1% per level, max 80%
-    
-    const drops: Array<{ itemId: string; quantity: number }> = [];
-    
-    // Bones drop more commonly
-    if (Math.random() < dropChance) {
-      const boneQuantity = Math.floor(Math.random() * 3) + 1; // 1-3 bones
-      drops.push({ itemId: boneItem.id, quantity: boneQuantity });
+    let message = `Learned ${ability.name}`;
+    if (player.level < ability.requiredLevel && !meetsTutorialUnlock(player, ability)) {
+      const inventory = await this.storage.getPlayerInventory(playerId);
+      const book = skillBookFor(ability, inventory.map(entry => entry.item.name));
+      const entry = book && inventory.find(candidate => candidate.item.name === book);
+      if (!entry || !(await this.storage.removeFromInventory(playerId, entry.itemId, 1))) {
+        return { success: false, message: `${ability.name} can't be learned yet` };
+      }
+      message = `Learned ${ability.name} from ${book}`;
     }
-    
-    // Meat drops less commonly but gives better regen
-    if (Math.random() < dropChance * 0.6) {
-      const meatQuantity = Math.floor(Math.random() * 2) + 1; // 1-2 meat
-      drops.push({ itemId: meatItem.id, quantity: meatQuantity });
+
+    await this.teachAbilities(player, [{ id: ability.id, rank: 1 }]);
+    return { success: true, message };
+  }
+
+  async upgradeAbility(playerId: string, abilityId: string): Promise<AbilityChange> {
+    const player = await this.getPlayer(playerId);
+    const ability = this.abilities.get(abilityId);
+    if (!player) return { success: false, message: "Player not found" };
+    if (!ability) return { success: false, message: "Unknown ability" };
+
+    const rank = abilityRankOf(player, ability.id);
+    if (rank === 0) {
+      return { success: false, message: `You haven't learned ${ability.name}` };
+    }
+    if (rank >= ability.maxRank) {
+      return { success: false, message: `${ability.name} is already at its highest rank` };
+    }
+    if (player.abilityPoints < ABILITY_POINTS_PER_RANK) {
+      return { success: false, message: "Not enough ability points" };
     }
 
-    // Create world loot objects near monster position
-    for (const drop of drops) {
-      // Random position near monster (within 5 units)
-      const offsetX = (Math.random() - 0.5) * 10;
-      const offsetZ = (Math.random() - 0.5) * 10;
-      
-      await this.storage.createWorldLoot({
-        itemId: drop.itemId,
-        quantity: drop.quantity,
-        positionX: monster.positionX + offsetX,
-        positionY: monster.positionY,
-        positionZ: monster.positionZ + offsetZ,
-        zone: monster.zone,
-        droppedBy: killerId,
+    await this.updatePlayer(playerId, {
+      abilityPoints: player.abilityPoints - ABILITY_POINTS_PER_RANK,
+      unlockedAbilities: learnedAbilitiesOf(player).map(learned =>
+        learned.id === ability.id ? { id: learned.id, rank: rank + 1 } : learned
+      ),
+    });
+    return { success: true, message: `${ability.name} is now rank ${rank + 1}` };
+  }
+
+  // What the player keeps of their abilities after being reborn, per ABILITY_REBIRTH_RULE
+  abilitiesAfterRebirth(player: Player): Pick<Player, "unlockedAbilities" | "abilityPoints"> {
+    return applyAbilityRebirthRule(player, this.getAbilities(), this.abilityRebirthRule);
+  }
+
+  private async teachAbilities(player: Player, abilities: LearnedAbility[], updates: Partial<Player> = {}): Promise<void> {
+    await this.updatePlayer(player.id, {
+      ...updates,
+      unlockedAbilities: [...learnedAbilitiesOf(player), ...abilities],
+    });
+    if (abilities.length > 0) {
+      this.emit({
+        type: "abilities_learned",
+        data: { playerId: player.id, abilityIds: abilities.map(ability => ability.id) },
+        to: player.id,
       });
     }
   }
 
-  start(): void {
-    console.log("Game Engine started");
-    
-    // Spawn monsters periodically
-    setInterval(async () => {
-      try {
-        const onlinePlayers = await this.storage.getOnlinePlayers();
-        if (onlinePlayers.length > 0) {
-          // Calculate average rebirth cycle for difficulty scaling
-          const avgRebirthCycle = onlinePlayers.reduce((sum, p) => sum + p.rebirthCycle, 0) / onlinePlayers.length;
-          const difficultyMultiplier = 1 + (avgRebirthCycle * 0.5);
-          
-          const monsters = await this.storage.getMonstersInZone("selha_latna");
-          const maxMonsters = Math.min(20, onlinePlayers.length * 3);
-          
-          if (monsters.length < maxMonsters) {
-            const level = Math.floor(Math.random() * 90) + 10; // Level 10-99
-            await this.spawnMonster("selha_latna", level, difficultyMultiplier);
-          }
-        }
-      } catch (error) {
-        console.error("Monster spawn error:", error);
-      }
-    }, 30000); // Every 30 seconds
-    
-    // Regenerate player aura/health
-    setInterval(async () => {
-      try {
-        const onlinePlayers = await this.storage.getOnlinePlayers();
-        for (const player of onlinePlayers) {
-          const healthRegen = Math.min(player.maxHealth, player.health + Math.floor(player.maxHealth * 0.01));
-          const auraRegen = Math.min(player.maxAura, player.aura + Math.floor(player.maxAura * 0.02));
-          
-          if (healthRegen !== player.health || auraRegen !== player.aura) {
-            await this.storage.updatePlayer(player.id, {
-              health: healthRegen,
-              aura: auraRegen,
-            });
-          }
-        }
-      } catch (error) {
-        console.error("Regeneration error:", error);
-      }
-    }, 5000); // Every 5 seconds
-    
-    // Cleanup expired loot periodically
-    setInterval(async () => {
-      try {
-        await this.storage.cleanupExpiredLoot();
-      } catch (error) {
-        console.error("Loot cleanup error:", error);
-      }
-    }, 60000); // Every minute
+  private async inventoryItemNames(playerId: string): Promise<string[]> {
+    const inventory = await this.storage.getPlayerInventory(playerId);
+    return inventory.map(entry => entry.item.name);
+  }
+
+  private grantShield(playerId: string, amount: number, durationMs: number): void {
+    // Shields use the "replace" stacking rule: a new one replaces the old rather than stacking
+    const shield = this.applyStatusEffect(playerId, { type: "shield", magnitude: amount, durationMs, sourceId: playerId });
+    if (shield) {
+      this.emit({ type: "player_shield", data: { playerId, amount: shield.magnitude, expiresAt: shield.expiresAt } });
+    }
+  }
+
+  // Takes as much of `damage` as the player's shield can hold; returns what's left
+  private absorbWithShield(playerId: string, damage: number): number {
+    const shield = this.statusEffects.find(playerId, "shield");
+    if (!shield || damage <= 0) return damage;
+    if (shield.expiresAt !== null && Date.now() >= shield.expiresAt) {
+      return damage; // the status effect system drops it on its next tick
+    }
+
+    const absorbed = Math.min(shield.magnitude, damage);
+    shield.magnitude -= absorbed;
+    if (shield.magnitude <= 0) {
+      this.statusEffects.remove(playerId, "shield");
+    }
+    this.emit({ type: "player_shield", data: { playerId, amount: shield.magnitude, expiresAt: shield.expiresAt } });
+    this.emitStatusEffects(playerId);
+    return damage - absorbed;
+  }
+
+  // Starts or stacks an effect on an online player; the dead can't be affected
+  applyStatusEffect(playerId: string, application: StatusEffectApplication): ActiveStatusEffect | undefined {
+    if (!this.world.players.has(playerId) || this.isPlayerDead(playerId)) return undefined;
+
+    const effect = this.statusEffects.apply(playerId, application);
+    if (effect.type === "stun") {
+      this.interruptCast(playerId, "stunned");
+    }
+    this.statusEffectsChanged(playerId).catch(error => {
+      console.error(`Saving status effects failed for ${playerId}:`, error);
+    });
+    return effect;
+  }
+
+  removeStatusEffect(playerId: string, type: StatusEffectType): void {
+    if (this.statusEffects.remove(playerId, type)) {
+      this.statusEffectsChanged(playerId).catch(error => {
+        console.error(`Saving status effects failed for ${playerId}:`, error);
+      });
+    }
+  }
+
+  // Players who aren't connected only have what was last saved
+  async getStatusEffects(playerId: string): Promise<StatusEffectsUpdate> {
+    if (this.world.players.has(playerId)) {
+      return this.currentStatusEffects(playerId);
+    }
+    const combatState = await this.readCombatState(playerId);
+    return { playerId, effects: parseStatusEffects(combatState.statusEffects) };
+  }
+
+  private currentStatusEffects(playerId: string): StatusEffectsUpdate {
+    return { playerId, effects: this.statusEffects.get(playerId) };
+  }
+
+  statusModifiers(playerId: string): StatusModifiers {
+    return this.statusEffects.modifiersFor(playerId);
+  }
+
+  // Tells clients and saves to gameState.combatState; called whenever the set of effects changes
+  async statusEffectsChanged(playerId: string): Promise<void> {
+    this.emitStatusEffects(playerId);
+    await this.saveStatusEffects(playerId, this.statusEffects.get(playerId));
+  }
+
+  private emitStatusEffects(playerId: string): void {
+    this.emit({ type: "status_effects", data: this.currentStatusEffects(playerId) });
+  }
+
+  private async saveStatusEffects(playerId: string, effects: ActiveStatusEffect[]): Promise<void> {
+    const state = await this.storage.getGameState(playerId);
+    if (!state) return;
+    const combatState = (state.combatState ?? {}) as Record<string, unknown>;
+    await this.storage.updateGameState(playerId, { combatState: { ...combatState, statusEffects: effects } });
+  }
+
+  private async loadStatusEffects(playerId: string): Promise<void> {
+    const combatState = await this.readCombatState(playerId);
+    this.statusEffects.load(playerId, parseStatusEffects(combatState.statusEffects));
+  }
+
+  private async readCombatState(playerId: string): Promise<Record<string, unknown>> {
+    const state = await this.storage.getGameState(playerId);
+    return (state?.combatState ?? {}) as Record<string, unknown>;
+  }
+
+  // Health restored by effects and items; never above max, never for the dead
+  healPlayer(playerId: string, amount: number): void {
+    const player = this.world.players.get(playerId);
+    if (!player || player.health <= 0 || amount <= 0) return;
+
+    const health = Math.min(player.maxHealth, player.health + Math.floor(amount));
+    const healed = health - player.health;
+    if (healed <= 0) return;
+    this.world.updatePlayer(playerId, { health });
+    this.emit({ type: "player_healed", data: { playerId, amount: healed, health, maxHealth: player.maxHealth } });
+  }
+
+  private restoreAura(playerId: string, amount: number): void {
+    const player = this.world.players.get(playerId);
+    if (!player || player.health <= 0 || amount <= 0) return;
+    this.world.updatePlayer(playerId, { aura: Math.min(player.maxAura, player.aura + Math.floor(amount)) });
+  }
+
+  async getEquipment(playerId: string): Promise<EquipmentSnapshot> {
+    return this.readEquipment(playerId);
+  }
+
+  // Moves one of the item from the inventory into its slot; whatever was
+  // there goes back to the inventory
+  async equipItem(playerId: string, itemId: string): Promise<EquipmentChange> {
+    const player = await this.getPlayer(playerId);
+    if (!player) return { success: false, message: "Player not found" };
+
+    const inventory = await this.storage.getPlayerInventory(playerId);
+    const entry = inventory.find(candidate => candidate.itemId === itemId);
+    if (!entry) return { success: false, message: "You don't have that item" };
+    const effects = equipmentEffectsOf(entry.item);
+    if (!effects) return { success: false, message: `${entry.item.name} can't be equipped` };
+
+    type Change = { success: false; message: string } | { success: true; before: EquipmentSnapshot; delivery?: Delivery };
+    const change = await this.abortableTransaction<Change>(async (tx, abort) => {
+      await tx.lockPlayer(playerId);
+      const state = await tx.getGameState(playerId);
+      if (!state) return { success: false as const, message: "Game state not found" };
+      const before = await this.readEquipment(playerId, tx);
+      if (!(await tx.removeFromInventory(playerId, itemId, 1))) {
+        return { success: false as const, message: "You don't have that item" };
+      }
+
+      const equipped = equippedItemIdsOf(state);
+      const replacedId = equipped[effects.slot];
+      const delivery = replacedId ? await this.giveOrDrop(playerId, replacedId, 1, tx) : undefined;
+      if (replacedId && !delivery) {
+        // Keeps the new item in the bags rather than losing the old one
+        return abort({ success: false, message: "Your inventory is full" });
+      }
+      await tx.updateGameState(playerId, { equipment: { ...equipped, [effects.slot]: itemId } });
+      return { success: true as const, before, delivery };
+    });
+    if (!change.success) return change;
+    this.announceDelivery(change.delivery);
+    await this.changeEquipmentStats(playerId, change.before.stats);
+
+    const replaced = change.before.slots[effects.slot];
+    return {
+      success: true,
+      message: replaced ? `Equipped ${entry.item.name} in place of ${replaced.name}` : `Equipped ${entry.item.name}`,
+    };
+  }
+
+  async unequipItem(playerId: string, slot: EquipmentSlot): Promise<EquipmentChange> {
+    const player = await this.getPlayer(playerId);
+    if (!player) return { success: false, message: "Player not found" };
+
+    // Locked so two unequips of the same slot can't both hand the item back
+    const change = await this.storage.transaction(async (tx) => {
+      await tx.lockPlayer(playerId);
+      const state = await tx.getGameState(playerId);
+      if (!state) return { success: false as const, message: "Game state not found" };
+      const equipped = equippedItemIdsOf(state);
+      const itemId = equipped[slot];
+      if (!itemId) return { success: false as const, message: `Nothing is equipped as ${slot}` };
+
+      const before = await this.readEquipment(playerId, tx);
+      if (!(await tx.addToInventory(playerId, itemId, 1))) {
+        return { success: false as const, message: "Your inventory is full" };
+      }
+      const { [slot]: _removed, ...remaining } = equipped;
+      await tx.updateGameState(playerId, { equipment: remaining });
+      return { success: true as const, before };
+    });
+    if (!change.success) return change;
+    await this.changeEquipmentStats(playerId, change.before.stats);
+
+    return { success: true, message: `Unequipped ${change.before.slots[slot]?.name ?? "item"}` };
+  }
+
+  // Rebirth puts max health and aura back to their level 1 values; worn gear still adds on top
+  async equipmentBonusesAfterRebirth(reborn: Player): Promise<Pick<Player, "maxHealth" | "maxAura" | "health" | "aura">> {
+    const { stats } = await this.readEquipment(reborn.id);
+    const maxHealth = reborn.maxHealth + stats.maxHealth;
+    const maxAura = reborn.maxAura + stats.maxAura;
+    return { maxHealth, maxAura, health: maxHealth, aura: maxAura };
+  }
+
+  private equipmentStatsOf(playerId: string): EquipmentStats {
+    return this.equipmentStats.get(playerId) ?? NO_EQUIPMENT_STATS;
+  }
+
+  private async readEquipment(playerId: string, storage: IStorage = this.storage): Promise<EquipmentSnapshot> {
+    const equipped = equippedItemIdsOf(await storage.getGameState(playerId));
+    const slots: Record<EquipmentSlot, LootItem | null> = { weapon: null, armor: null, accessory: null };
+    const gear: EquipmentEffects[] = [];
+    for (const slot of EQUIPMENT_SLOTS) {
+      const itemId = equipped[slot];
+      const item = itemId ? await storage.getLootItem(itemId) : undefined;
+      const effects = item && equipmentEffectsOf(item);
+      if (item && effects) {
+        slots[slot] = item;
+        gear.push(effects);
+      }
+    }
+    return { slots, stats: equipmentStatsFor(gear) };
+  }
+
+  // Max health and aura move by the difference in gear; current values are
+  // capped but never topped up
+  private async changeEquipmentStats(playerId: string, before: EquipmentStats): Promise<void> {
+    const player = await this.getPlayer(playerId);
+    if (!player) return;
+
+    const { stats } = await this.readEquipment(playerId);
+    if (this.world.players.has(playerId)) {
+      this.equipmentStats.set(playerId, stats);
+    }
+    const maxHealth = player.maxHealth + stats.maxHealth - before.maxHealth;
+    const maxAura = player.maxAura + stats.maxAura - before.maxAura;
+    await this.updatePlayer(playerId, {
+      maxHealth,
+      maxAura,
+      health: Math.min(player.health, maxHealth),
+      aura: Math.min(player.aura, maxAura),
+    });
+  }
+
+  // Claims the code and delivers its rewards in one transaction. If a reward
+  // can't be delivered the claim is undone, so the code isn't used up.
+  async redeemCode(playerId: string, code: string): Promise<RedeemResult> {
+    type Redemption =
+      | { success: false; message: string }
+      | { success: true; granted: Array<{ reward: RedeemReward; announce: () => Promise<unknown> | void }> };
+    const redemption = await this.abortableTransaction<Redemption>(async (tx, abort) => {
+      await tx.lockPlayer(playerId);
+      const claim = await tx.claimRedeemCode(playerId, normalizeRedeemCode(code));
+      if (!claim.success) return claim;
+
+      const granted = [];
+      for (const reward of rewardsOf(claim.code)) {
+        const grant = await this.grantReward(playerId, reward, tx);
+        if (grant.status === "undeliverable") {
+          return abort({ success: false, message: `Couldn't deliver ${describeReward(reward)}: ${grant.message}` });
+        }
+        if (grant.status === "granted") {
+          granted.push({ reward, announce: grant.announce });
+        }
+      }
+      return { success: true, granted };
+    });
+    if (!redemption.success) {
+      return { success: false, message: redemption.message, rewards: [] };
+    }
+
+    for (const { announce } of redemption.granted) {
+      await announce();
+    }
+    const rewards = redemption.granted.map(({ reward }) => reward);
+    return {
+      success: true,
+      message: rewards.length > 0 ? `Received ${rewards.map(describeReward).join(", ")}` : "Code redeemed",
+      rewards,
+    };
+  }
+
+  // Writes the reward inside the redemption's transaction; `announce` runs
+  // once it has committed. Status effects live in the simulation, so they're
+  // only applied then.
+  private async grantReward(playerId: string, reward: RedeemReward, tx: IStorage): Promise<RewardGrant> {
+    switch (reward.type) {
+      case "item": {
+        const items = await tx.getAllLootItems();
+        const item = items.find(candidate => candidate.name === reward.item);
+        if (!item) {
+          console.warn(`Redeem code reward "${reward.item}" is not a known item`);
+          return { status: "skipped" };
+        }
+        const delivery = await this.giveOrDrop(playerId, item.id, reward.quantity, tx);
+        if (!delivery) return { status: "undeliverable", message: "your inventory is full" };
+        return { status: "granted", announce: () => this.announceDelivery(delivery) };
+      }
+      case "status_effect":
+        return {
+          status: "granted",
+          announce: () => this.grantStatusEffect(playerId, {
+            type: reward.effect,
+            magnitude: reward.magnitude,
+            durationMs: reward.durationMs,
+          }),
+        };
+      case "resources": {
+        const resources = await tx.getCommunityResources(playerId);
+        if (!resources) return { status: "undeliverable", message: "you have no community" };
+        const update = await this.saveCommunityResources(playerId, resources, [
+          { source: "reward", food: reward.food, materials: reward.materials, detail: "Redeemed code" },
+        ], tx);
+        return { status: "granted", announce: () => this.communityResourcesChanged(update) };
+      }
+    }
+  }
+
+  // Like applyStatusEffect, but players who aren't connected get it added to
+  // their saved effects instead
+  private async grantStatusEffect(playerId: string, application: StatusEffectApplication): Promise<boolean> {
+    if (this.world.players.has(playerId)) {
+      return this.applyStatusEffect(playerId, application) !== undefined;
+    }
+    const combatState = await this.readCombatState(playerId);
+    await this.saveStatusEffects(playerId, withStatusEffect(parseStatusEffects(combatState.statusEffects), application));
+    return true;
+  }
+
+  async getCooldowns(playerId: string): Promise<CooldownSnapshot | undefined> {
+    const player = await this.getPlayer(playerId);
+    return player && this.cooldownSnapshot(playerId, activeCooldownsOf(player));
+  }
+
+  private cooldownSnapshot(playerId: string, cooldowns: Record<string, number>): CooldownSnapshot {
+    return { playerId, cooldowns, serverTime: Date.now() };
+  }
+
+  private resolveTarget(player: Player, targetId: string, range: number): { monster?: Monster; message: string } {
+    const monster = this.world.monsters.get(targetId);
+    if (!monster) {
+      return { message: this.world.players.has(targetId) ? "You can't attack other players" : "Target not found" };
+    }
+    if (!this.isInRange(player, monster, range)) {
+      return { message: "Target out of range" };
+    }
+    const from = { x: player.positionX, z: player.positionZ };
+    const to = { x: monster.positionX, z: monster.positionZ };
+    if (!hasLineOfSight(monster.zone, from, to)) {
+      return { message: "No line of sight" };
+    }
+    return { monster, message: "" };
+  }
+
+  private isInRange(player: Player, monster: Monster, range: number): boolean {
+    const dx = player.positionX - monster.positionX;
+    const dy = player.positionY - monster.positionY;
+    const dz = player.positionZ - monster.positionZ;
+    const distance = Math.sqrt(dx * dx + dy * dy + dz * dz);
+    return distance <= range;
+  }
+
+  private async awardExperience(player: Player, exp: number): Promise<void> {
+    const newExp = player.experience + Math.floor(exp * this.statusModifiers(player.id).experienceMultiplier);
+    const newLevel = Math.floor(newExp / 100) + 1; // Simple level formula
+    
+    const updates: Partial<Player> = { experience: newExp };
+    
+    if (newLevel > player.level && newLevel <= 100) {
+      updates.level = newLevel;
+      // Increase max health and aura on level up; gear adds on top
+      const gear = this.equipmentStatsOf(player.id);
+      updates.maxHealth = 1000 + (newLevel * 50) + gear.maxHealth;
+      updates.maxAura = 500 + (newLevel * 25) + gear.maxAura;
+      updates.health = updates.maxHealth; // Full heal on level up
+      updates.aura = updates.maxAura;
+      updates.abilityPoints = player.abilityPoints + (newLevel - player.level) * ABILITY_POINTS_PER_LEVEL;
+
+      // Any ability milestones passed on the way are learned straight away
+      const unlocked = levelUnlocksFor({ ...player, level: newLevel }, this.getAbilities());
+      await this.teachAbilities(player, unlocked, updates);
+      return;
+    }
+    
+    await this.updatePlayer(player.id, updates);
+  }
+
+  async spawnMonster(zone: string, level: number, difficultyMultiplier: number = 1.0): Promise<Monster> {
+    const randomType = MONSTER_TYPE_NAMES[Math.floor(Math.random() * MONSTER_TYPE_NAMES.length)];
+    
+    const baseHealth = level * 100;
+    const scaledHealth = Math.floor(baseHealth * difficultyMultiplier);
+    
+    // Random position in zone
+    const x = Math.random() * 200 - 100;
+    const z = Math.random() * 200 - 100;
+    
+    const monster = await this.storage.createMonster({
+      name: randomType,
+      level,
+      health: scaledHealth,
+      maxHealth: scaledHealth,
+      positionX: x,
+      positionY: 0,
+      positionZ: z,
+      zone,
+      difficultyMultiplier,
+    });
+    this.world.addMonster(monster);
+    this.emit({ type: "monster_spawned", data: this.monsterAI.describe(monster) });
+    return monster;
+  }
+
+  // Live monsters straight from the simulation, for clients joining mid-game
+  getMonsterSnapshots(zone: string): MonsterSnapshot[] {
+    return this.world.getMonstersInZone(zone).map(monster => this.monsterAI.describe(monster));
+  }
+
+  // Rolls the monster's loot tables (shared/loot.json) and scatters the drops
+  // around it, reserved for the killer or their party by its loot mode. The
+  // killer's over-harvested land drops less.
+  async dropLoot(monster: Monster, killerId: string): Promise<void> {
+    const drops = rollLoot(this.loot, monster, this.communityResources.abundanceOf(killerId));
+    if (drops.length === 0) return;
+
+    const items = new Map((await this.storage.getAllLootItems()).map(item => [item.name, item]));
+    const party = this.parties.partyOf(killerId);
+    for (const drop of drops) {
+      const item = items.get(drop.item);
+      if (!item) {
+        console.warn(`Loot item "${drop.item}" is missing from storage`);
+        continue;
+      }
+
+      const now = Date.now();
+      const rollers = party ? this.lootRollersFor(party, item) : [];
+
+      // Random position near monster (within 5 units)
+      const offsetX = (Math.random() - 0.5) * 10;
+      const offsetZ = (Math.random() - 0.5) * 10;
+      
+      const loot = await this.storage.createWorldLoot({
+        itemId: item.id,
+        quantity: drop.quantity,
+        positionX: monster.positionX + offsetX,
+        positionY: monster.positionY,
+        positionZ: monster.positionZ + offsetZ,
+        zone: monster.zone,
+        droppedBy: killerId,
+        // Nobody may take a drop that's being rolled for until the roll decides
+        ...(rollers.length > 0
+          ? { ownerId: null, partyId: null, ownedUntil: new Date(now + LOOT_ROLL_WINDOW_MS + this.lootOwnershipMs) }
+          : { ...this.lootOwnerFor(killerId, party), ownedUntil: new Date(now + this.lootOwnershipMs) }),
+      });
+      this.emit({ type: "loot_dropped", data: { ...loot, item } });
+
+      if (party && rollers.length > 0) {
+        const roll = this.lootRolls.begin({
+          lootId: loot.id,
+          itemName: item.name,
+          partyId: party.id,
+          eligible: rollers,
+          endsAt: now + LOOT_ROLL_WINDOW_MS,
+        });
+        const started: LootRollStarted = { lootId: loot.id, itemName: item.name, rarity: item.rarity, endsAt: roll.endsAt };
+        rollers.forEach(memberId => this.emit({ type: "loot_roll_started", data: started, to: memberId }));
+      }
+    }
+  }
+
+  private lootOwnerFor(killerId: string, party: Party | undefined): { ownerId: string; partyId: string | null } {
+    if (!party) return { ownerId: killerId, partyId: null };
+    if (party.lootMode === "round_robin") {
+      // Members who aren't connected lose their turn
+      return { ownerId: this.parties.takeNextLooter(party, memberId => !this.world.players.has(memberId)), partyId: null };
+    }
+    return { ownerId: killerId, partyId: party.id };
+  }
+
+  // Connected members who get to roll for the item; empty when it isn't rolled for
+  private lootRollersFor(party: Party, item: LootItem): string[] {
+    if (party.lootMode !== "need_greed" || this.lootOwnershipMs <= 0 || UNROLLED_RARITIES.includes(item.rarity)) {
+      return [];
+    }
+    const online = party.memberIds.filter(memberId => this.world.players.has(memberId));
+    return online.length > 1 ? online : [];
+  }
+
+  async chooseLootRoll(playerId: string, lootId: string, choice: LootRollChoice): Promise<LootAction> {
+    if (!this.lootRolls.isPending(lootId)) return { success: false, message: "That roll has already ended" };
+    if (!this.lootRolls.choose(lootId, playerId, choice)) return { success: false, message: "You aren't part of that roll" };
+    return { success: true, message: choice === "pass" ? "Passed" : `Rolling ${choice}` };
+  }
+
+  // Called by the loot roll system once everyone has chosen or time is up
+  async finishLootRoll(roll: LootRoll, outcome: LootRollOutcome): Promise<void> {
+    const now = Date.now();
+    // With every member passing the drop is free for anyone
+    await this.storage.updateWorldLoot(roll.lootId, outcome.winnerId
+      ? { ownerId: outcome.winnerId, partyId: null, ownedUntil: new Date(now + this.lootOwnershipMs) }
+      : { ownerId: null, partyId: null, ownedUntil: new Date(now) });
+
+    const winner = outcome.winnerId ? await this.getPlayer(outcome.winnerId) : undefined;
+    const ended: LootRollEnded = {
+      lootId: roll.lootId,
+      itemName: roll.itemName,
+      winnerId: outcome.winnerId,
+      winnerName: winner?.characterName ?? null,
+      choice: outcome.choice,
+      roll: outcome.roll,
+    };
+    roll.eligible.forEach(memberId => this.emit({ type: "loot_roll_ended", data: ended, to: memberId }));
+  }
+
+  // Picks up a drop for a connected player standing next to it, as long as
+  // it isn't reserved for someone else
+  async collectLoot(playerId: string, lootId: string): Promise<LootAction> {
+    const player = this.world.players.get(playerId);
+    if (!player) return { success: false, message: "You need to be in the world to collect loot" };
+
+    const loot = await this.storage.getWorldLoot(lootId);
+    if (!loot) return { success: false, message: "That loot is gone" };
+    if (this.lootRolls.isPending(lootId)) return { success: false, message: "Your party is still rolling for that" };
+    if (loot.zone !== this.zone
+      || Math.hypot(player.positionX - loot.positionX, player.positionZ - loot.positionZ) > LOOT_PICKUP_RANGE) {
+      return { success: false, message: "Too far away to collect that" };
+    }
+    if (!mayCollect(loot, playerId, this.parties.partyOf(playerId)?.id)) {
+      return { success: false, message: "That loot belongs to someone else for now" };
+    }
+    const room = planAdd(await this.storage.getPlayerInventory(playerId), loot.item, loot.quantity);
+    if (!room.success) return { success: false, message: room.message };
+
+    if (!(await this.storage.collectWorldLoot(playerId, lootId))) {
+      return { success: false, message: "That loot is gone" };
+    }
+    this.emit({ type: "loot_collected", data: { lootId, playerId } });
+    this.communityResources.bank(playerId, "gathering", gatheringYieldFor(loot.quantity));
+    return { success: true, message: `Collected ${loot.quantity > 1 ? `${loot.quantity}x ` : ""}${loot.item.name}` };
+  }
+
+  async moveInventoryItem(playerId: string, entryId: string, slot: number): Promise<InventoryAction> {
+    return this.changeInventory(playerId, entries => planMove(entries, entryId, slot), "Moved");
+  }
+
+  async splitInventoryStack(playerId: string, entryId: string, quantity: number, slot?: number): Promise<InventoryAction> {
+    return this.changeInventory(playerId, entries => planSplit(entries, entryId, quantity, slot), `Split off ${quantity}`);
+  }
+
+  async mergeInventoryStacks(playerId: string, fromId: string, intoId: string): Promise<InventoryAction> {
+    return this.changeInventory(playerId, entries => planMerge(entries, fromId, intoId), "Stacks merged");
+  }
+
+  // Puts part of a stack on the ground at the player's feet, where it's
+  // theirs for the usual ownership window and anyone's after that
+  async dropInventoryItem(playerId: string, entryId: string, quantity: number): Promise<InventoryAction> {
+    const player = this.world.players.get(playerId);
+    if (!player) return { success: false, message: "You need to be in the world to drop items" };
+
+    const dropped = await this.storage.transaction(async (tx) => {
+      await tx.lockPlayer(playerId);
+      const entries = await tx.getPlayerInventory(playerId);
+      const plan = planTake(entries, entryId, quantity);
+      if (!plan.success) return plan;
+      const entry = entries.find(candidate => candidate.id === entryId)!;
+
+      await tx.applyInventoryChanges(playerId, plan.changes);
+      return { success: true as const, item: entry.item, loot: await this.dropAtFeet(player, entry.item, quantity, tx) };
+    });
+    if (!dropped.success) return dropped;
+
+    this.emit({ type: "loot_dropped", data: { ...dropped.loot, item: dropped.item } });
+    return { success: true, message: `Dropped ${quantity > 1 ? `${quantity}x ` : ""}${dropped.item.name}` };
+  }
+
+  // Uses up the items, then applies their effects in order. Instant restores
+  // scale with the quantity; timed effects are applied once.
+  async useItem(playerId: string, itemId: string, quantity: number = 1): Promise<ItemUse> {
+    if (!this.world.players.has(playerId)) {
+      return { success: false, message: "You need to be in the world to use items", effects: [] };
+    }
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      return { success: false, message: "Use at least one", effects: [] };
+    }
+
+    const item = await this.storage.getLootItem(itemId);
+    const effects = item && consumableEffectsOf(item);
+    if (!item || !effects) {
+      return { success: false, message: `${item?.name ?? "That item"} can't be used`, effects: [] };
+    }
+    if (!(await this.storage.removeFromInventory(playerId, itemId, quantity))) {
+      return { success: false, message: "You don't have enough of that item", effects: [] };
+    }
+
+    for (const effect of effects) {
+      await this.applyConsumableEffect(playerId, effect, quantity);
+    }
+    return { success: true, message: `Used ${quantity > 1 ? `${quantity}x ` : ""}${item.name}`, effects };
+  }
+
+  private async applyConsumableEffect(playerId: string, effect: ConsumableEffect, quantity: number): Promise<void> {
+    switch (effect.type) {
+      case "restore":
+        this.healPlayer(playerId, effect.health * quantity);
+        this.restoreAura(playerId, effect.aura * quantity);
+        break;
+      case "heal_over_time":
+        this.applyStatusEffect(playerId, { type: "regen", magnitude: effect.healthPerSecond, durationMs: effect.durationMs, sourceId: playerId });
+        break;
+      case "buff":
+        this.applyStatusEffect(playerId, {
+          type: BUFF_STATUS_EFFECTS[effect.stat],
+          magnitude: effect.amount,
+          durationMs: effect.durationMs,
+          sourceId: playerId,
+        });
+        break;
+      case "reset_cooldowns":
+        await this.resetCooldowns(playerId, effect.abilities);
+        break;
+      case "cleanse":
+        if (this.statusEffects.cleanse(playerId)) {
+          await this.statusEffectsChanged(playerId);
+        }
+        break;
+      case "teleport_to_spawn":
+        this.teleportToSpawn(playerId);
+        break;
+      case "experience_boost":
+        this.applyStatusEffect(playerId, { type: "experience_boost", magnitude: effect.amount, durationMs: effect.durationMs, sourceId: playerId });
+        break;
+    }
+  }
+
+  private async changeInventory(
+    playerId: string,
+    plan: (entries: InventoryEntry[]) => InventoryPlan,
+    message: string,
+  ): Promise<InventoryAction> {
+    return this.storage.transaction(async (tx) => {
+      await tx.lockPlayer(playerId);
+      const result = plan(await tx.getPlayerInventory(playerId));
+      if (!result.success) return result;
+      await tx.applyInventoryChanges(playerId, result.changes);
+      return { success: true, message };
+    });
+  }
+
+  // Like storage.transaction, but `work` may call abort(result) to undo
+  // everything it wrote and still hand `result` back
+  private async abortableTransaction<T>(work: (tx: IStorage, abort: (result: T) => never) => Promise<T>): Promise<T> {
+    try {
+      return await this.storage.transaction(tx => work(tx, result => {
+        throw new TransactionAborted(result);
+      }));
+    } catch (error) {
+      if (error instanceof TransactionAborted) return error.result as T;
+      throw error;
+    }
+  }
+
+  private async repairInventorySlots(playerId: string): Promise<void> {
+    const changes = planSlotRepair(await this.storage.getPlayerInventory(playerId));
+    if (hasChanges(changes)) {
+      await this.storage.applyInventoryChanges(playerId, changes);
+    }
+  }
+
+  // For items the player is owed: anything that doesn't fit in their bags
+  // lands at their feet instead. Undefined if neither was possible. Drops
+  // are announced with announceDelivery once the caller has committed.
+  private async giveOrDrop(playerId: string, itemId: string, quantity: number, storage: IStorage = this.storage): Promise<Delivery | undefined> {
+    if (await storage.addToInventory(playerId, itemId, quantity)) return { inInventory: true };
+
+    const player = this.world.players.get(playerId);
+    const item = await storage.getLootItem(itemId);
+    if (!player || !item) return undefined;
+    return { inInventory: false, loot: await this.dropAtFeet(player, item, quantity, storage), item };
+  }
+
+  private announceDelivery(delivery: Delivery | undefined): void {
+    if (delivery && !delivery.inInventory) {
+      this.emit({ type: "loot_dropped", data: { ...delivery.loot, item: delivery.item } });
+    }
+  }
+
+  // Callers announce the drop once it's committed
+  private dropAtFeet(player: Player, item: LootItem, quantity: number, storage: IStorage = this.storage): Promise<WorldLoot> {
+    return storage.createWorldLoot({
+      itemId: item.id,
+      quantity,
+      positionX: player.positionX,
+      positionY: player.positionY,
+      positionZ: player.positionZ,
+      zone: this.zone,
+      droppedBy: player.id,
+      ownerId: player.id,
+      ownedUntil: new Date(Date.now() + this.lootOwnershipMs),
+    });
+  }
+
+  // Players who aren't connected only have what was last saved
+  async getCrafting(playerId: string): Promise<CraftingSnapshot> {
+    const items = new Map((await this.storage.getAllLootItems()).map(item => [item.name, item]));
+    const ingredient = (name: string, quantity: number): RecipeIngredient => {
+      const item = items.get(name);
+      return { item: { id: item?.id ?? "", name, icon: item?.icon ?? "fas fa-cube", rarity: item?.rarity ?? "common" }, quantity };
+    };
+
+    const recipes = Array.from(this.recipes.values()).map(recipe => ({
+      id: recipe.id,
+      inputs: recipe.inputs.map(input => ingredient(input.item, input.quantity)),
+      output: ingredient(recipe.output.item, recipe.output.quantity),
+      craftTimeMs: recipe.craftTimeMs,
+      requiredLevel: recipe.requiredLevel,
+      station: recipe.station ?? null,
+    }));
+    const queue = this.world.players.has(playerId)
+      ? this.crafting.get(playerId)
+      : parseCraftingQueue((await this.storage.getGameState(playerId))?.craftingQueue);
+    return { recipes, queue };
+  }
+
+  // Takes the ingredients for `count` crafts and queues them, all in one
+  // transaction so the items and the queue can't disagree
+  async startCraft(playerId: string, recipeId: string, count: number = 1): Promise<CraftAction> {
+    const player = this.world.players.get(playerId);
+    const recipe = this.recipes.get(recipeId);
+    if (!player) return { success: false, message: "You need to be in the world to craft" };
+    if (!recipe) return { success: false, message: "Unknown recipe" };
+    if (!Number.isInteger(count) || count < 1) return { success: false, message: "Craft at least one" };
+    if (player.level < recipe.requiredLevel) {
+      return { success: false, message: `Requires level ${recipe.requiredLevel}` };
+    }
+    if (recipe.station && !isNearStation(this.zone, recipe.station, { x: player.positionX, z: player.positionZ })) {
+      return { success: false, message: `You need to be at a ${recipe.station}` };
+    }
+
+    const items = new Map((await this.storage.getAllLootItems()).map(item => [item.name, item]));
+    const inputs = recipe.inputs.map(input => ({ item: items.get(input.item), quantity: input.quantity * count }));
+    if (inputs.some(input => !input.item)) {
+      console.warn(`Recipe "${recipe.id}" uses an item missing from storage`);
+      return { success: false, message: "That recipe can't be crafted right now" };
+    }
+
+    const started = await this.storage.transaction(async (tx) => {
+      await tx.lockPlayer(playerId);
+      const state = await tx.getGameState(playerId);
+      if (!state) return { success: false as const, message: "Game state not found" };
+      const queue = parseCraftingQueue(state.craftingQueue);
+      if (queue.length + count > MAX_CRAFTING_QUEUE) {
+        return { success: false as const, message: `You can only queue ${MAX_CRAFTING_QUEUE} crafts` };
+      }
+
+      // Everything is counted before anything is taken, so a missing
+      // ingredient leaves the rest untouched
+      const inventory = await tx.getPlayerInventory(playerId);
+      for (const { item, quantity } of inputs) {
+        const held = inventory.filter(entry => entry.itemId === item!.id).reduce((total, entry) => total + entry.quantity, 0);
+        if (held < quantity) {
+          return { success: false as const, message: `You need ${quantity} ${item!.name} (you have ${held})` };
+        }
+      }
+      for (const { item, quantity } of inputs) {
+        await tx.removeFromInventory(playerId, item!.id, quantity);
+      }
+
+      const updated = [...queue, ...scheduleCrafts(queue, recipe, count, randomUUID)];
+      await tx.updateGameState(playerId, { craftingQueue: updated });
+      return { success: true as const, queue: updated };
+    });
+    if (!started.success) return started;
+
+    this.crafting.load(playerId, started.queue);
+    this.emitCraftingQueue(playerId);
+    const message = `Crafting ${count > 1 ? `${count}x ` : ""}${recipe.output.item}`;
+    return { success: true, message };
+  }
+
+  // Called by the crafting system once a job's time is up. The saved queue is
+  // checked under the lock, so a job is only ever delivered once.
+  async finishCraft(playerId: string, job: CraftingJob): Promise<void> {
+    const player = this.world.players.get(playerId);
+    const item = (await this.storage.getAllLootItems()).find(candidate => candidate.name === job.itemName);
+    if (!item) {
+      console.warn(`Crafted item "${job.itemName}" is missing from storage`);
+      return;
+    }
+
+    const delivered = await this.storage.transaction(async (tx) => {
+      await tx.lockPlayer(playerId);
+      const queue = parseCraftingQueue((await tx.getGameState(playerId))?.craftingQueue);
+      if (!queue.some(queued => queued.id === job.id)) return undefined;
+
+      let dropped: WorldLoot | undefined;
+      if (!(await tx.addToInventory(playerId, item.id, job.quantity))) {
+        // Kept in the queue for next time if there's nowhere to put it
+        if (!player) return undefined;
+        dropped = await this.dropAtFeet(player, item, job.quantity, tx);
+      }
+      await tx.updateGameState(playerId, { craftingQueue: queue.filter(queued => queued.id !== job.id) });
+      return { dropped };
+    });
+    if (!delivered) return;
+
+    if (delivered.dropped) {
+      this.emit({ type: "loot_dropped", data: { ...delivered.dropped, item } });
+    }
+    this.communityResources.bank(playerId, "crafting", { food: 0, materials: CRAFTING_YIELD });
+    const completed: CraftCompleted = { playerId, itemName: item.name, quantity: job.quantity, inInventory: !delivered.dropped };
+    this.emit({ type: "craft_completed", data: completed, to: playerId });
+    this.emitCraftingQueue(playerId);
+  }
+
+  private emitCraftingQueue(playerId: string): void {
+    const update: CraftingQueueUpdate = { playerId, queue: this.crafting.get(playerId) };
+    this.emit({ type: "crafting_queue", data: update, to: playerId });
+  }
+
+  async getCommunityResources(playerId: string): Promise<CommunityResourcesSnapshot | undefined> {
+    const resources = await this.storage.getCommunityResources(playerId);
+    if (!resources) return undefined;
+    return {
+      food: resources.food,
+      materials: resources.materials,
+      sustainability: resources.sustainability,
+      abundance: abundanceFor(resources.sustainability),
+      history: await this.storage.getCommunityResourceHistory(playerId, RESOURCE_HISTORY_LIMIT),
+    };
+  }
+
+  // Hands items over to the player's community: consumables become food,
+  // materials become materials, at the item's value each
+  async contributeResources(playerId: string, itemId: string, quantity: number = 1): Promise<ResourceAction> {
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      return { success: false, message: "Contribute at least one" };
+    }
+    const item = await this.storage.getLootItem(itemId);
+    const value = item && contributionValueOf(item);
+    if (!item || !value) {
+      return { success: false, message: `${item?.name ?? "That item"} can't be contributed` };
+    }
+
+    const label = `${quantity > 1 ? `${quantity}x ` : ""}${item.name}`;
+    const update = await this.storage.transaction(async (tx) => {
+      await tx.lockPlayer(playerId);
+      const resources = await tx.getCommunityResources(playerId);
+      if (!resources) return { success: false as const, message: "Your community doesn't exist" };
+      if (!(await tx.removeFromInventory(playerId, itemId, quantity))) {
+        return { success: false as const, message: "You don't have enough of that item" };
+      }
+      const change: ResourceChange = {
+        source: "contribution",
+        food: value.food * quantity,
+        materials: value.materials * quantity,
+        detail: label,
+      };
+      return { success: true as const, update: await this.saveCommunityResources(playerId, resources, [change], tx) };
+    });
+    if (!update.success) return update;
+
+    this.communityResourcesChanged(update.update);
+    const gained = [
+      value.food > 0 ? `${value.food * quantity} food` : "",
+      value.materials > 0 ? `${value.materials * quantity} materials` : "",
+    ].filter(Boolean).join(" and ");
+    return { success: true, message: `Contributed ${label} for ${gained}` };
+  }
+
+  // Called by the community resource system every interval, and without the
+  // upkeep when the player leaves, so nothing banked is lost
+  async settleCommunityResources(playerId: string, upkeep: boolean = true): Promise<void> {
+    const ledger = this.communityResources.take(playerId);
+    if (!ledger || (!upkeep && isEmptyLedger(ledger))) return;
+    await this.changeCommunityResources(playerId, current => settlementChanges(current, ledger, upkeep));
+  }
+
+  // Plans the changes against the player's resources under their lock, saves
+  // them, then tells the player. Undefined for players without a community.
+  private async changeCommunityResources(
+    playerId: string,
+    plan: (current: ResourceAmounts) => ResourceChange[],
+  ): Promise<CommunityResourcesUpdate | undefined> {
+    const update = await this.storage.transaction(async (tx) => {
+      await tx.lockPlayer(playerId);
+      const resources = await tx.getCommunityResources(playerId);
+      if (!resources) return undefined;
+      return this.saveCommunityResources(playerId, resources, plan(resources), tx);
+    });
+    if (update) {
+      this.communityResourcesChanged(update);
+    }
+    return update;
+  }
+
+  // Applies and records the changes inside the caller's transaction; only
+  // the parts that took effect make it into the history
+  private async saveCommunityResources(
+    playerId: string,
+    resources: CommunityResources,
+    changes: ResourceChange[],
+    tx: IStorage,
+  ): Promise<CommunityResourcesUpdate> {
+    const { amounts, applied } = applyResourceChanges(resources, changes);
+    if (applied.length > 0) {
+      await tx.updateCommunityResources(playerId, amounts);
+    }
+    const recorded = [];
+    for (const change of applied) {
+      recorded.push(await tx.recordCommunityResourceChange({
+        playerId,
+        source: change.source,
+        food: change.food,
+        materials: change.materials,
+        sustainability: change.sustainability,
+        detail: change.detail ?? null,
+      }));
+    }
+    return { playerId, ...amounts, abundance: abundanceFor(amounts.sustainability), changes: recorded.reverse() };
+  }
+
+  private communityResourcesChanged(update: CommunityResourcesUpdate): void {
+    this.communityResources.setSustainability(update.playerId, update.sustainability);
+    if (update.changes.length > 0) {
+      this.emit({ type: "community_resources", data: update, to: update.playerId });
+    }
+  }
+
+  async getPartyState(playerId: string): Promise<PartyState> {
+    const party = this.parties.partyOf(playerId);
+    const invites = await Promise.all(this.parties.invitesFor(playerId).map(async invite => ({
+      fromId: invite.fromId,
+      fromName: (await this.getPlayer(invite.fromId))?.characterName ?? "Unknown",
+      expiresAt: invite.expiresAt,
+    })));
+    return { party: party ? await this.partySnapshot(party) : null, invites };
+  }
+
+  async inviteToParty(fromId: string, toId: string): Promise<PartyAction> {
+    const [from, to] = await Promise.all([this.getPlayer(fromId), this.getPlayer(toId)]);
+    if (!from || !to) return { success: false, message: "Player not found" };
+
+    const change = this.parties.invite(fromId, toId);
+    if (change.success) {
+      const invite = this.parties.invitesFor(toId).find(candidate => candidate.fromId === fromId)!;
+      this.emit({
+        type: "party_invite",
+        data: { fromId, fromName: from.characterName, expiresAt: invite.expiresAt },
+        to: toId,
+      });
+      return { success: true, message: `Invited ${to.characterName}` };
+    }
+    return this.partyChanged(change);
+  }
+
+  async acceptPartyInvite(playerId: string, fromId: string): Promise<PartyAction> {
+    return this.partyChanged(this.parties.accept(playerId, fromId));
+  }
+
+  async declinePartyInvite(playerId: string, fromId: string): Promise<PartyAction> {
+    return this.partyChanged(this.parties.decline(playerId, fromId));
+  }
+
+  async leaveParty(playerId: string): Promise<PartyAction> {
+    return this.partyChanged(this.parties.leave(playerId));
+  }
+
+  async setPartyLootMode(playerId: string, mode: PartyLootMode): Promise<PartyAction> {
+    return this.partyChanged(this.parties.setLootMode(playerId, mode));
+  }
+
+  // Everyone the change touched refetches their party
+  private partyChanged(change: PartyChange): PartyAction {
+    change.affected.forEach(memberId => {
+      this.emit({ type: "party_updated", data: { partyId: this.parties.partyOf(memberId)?.id ?? null }, to: memberId });
+    });
+    return { success: change.success, message: change.message };
+  }
+
+  private async partySnapshot(party: Party): Promise<PartySnapshot> {
+    const members = await Promise.all(party.memberIds.map(async memberId => ({
+      id: memberId,
+      characterName: (await this.getPlayer(memberId))?.characterName ?? "Unknown",
+    })));
+    return { id: party.id, leaderId: party.leaderId, members, lootMode: party.lootMode };
+  }
+
+  // Online players live in the world while connected; everyone else is read from storage
+  async getPlayer(playerId: string): Promise<Player | undefined> {
+    return this.world.players.get(playerId) ?? await this.storage.getPlayer(playerId);
+  }
+
+  private async updatePlayer(playerId: string, updates: Partial<Player>): Promise<void> {
+    if (!this.world.updatePlayer(playerId, updates)) {
+      await this.storage.updatePlayer(playerId, updates);
+    }
+  }
+
+  async addPlayer(playerId: string): Promise<Player | undefined> {
+    // Reconnecting players keep their in-world state, which may be newer than storage
+    const existing = this.world.players.get(playerId);
+    if (existing) {
+      return existing;
+    }
+
+    const player = await this.storage.getPlayer(playerId);
+    if (player) {
+      this.world.addPlayer(player);
+      await this.loadStatusEffects(playerId);
+      this.crafting.load(playerId, parseCraftingQueue((await this.storage.getGameState(playerId))?.craftingQueue));
+      const resources = await this.storage.getCommunityResources(playerId);
+      if (resources) {
+        this.communityResources.load(playerId, resources.sustainability);
+      }
+      await this.repairInventorySlots(playerId);
+      this.equipmentStats.set(playerId, (await this.readEquipment(playerId)).stats);
+      // Catches up milestones from before abilities had to be learned, and after rebirth
+      const unlocked = levelUnlocksFor(player, this.getAbilities());
+      if (unlocked.length > 0) {
+        await this.teachAbilities(player, unlocked);
+      }
+    }
+    return this.world.players.get(playerId) ?? player;
+  }
+
+  async removePlayer(playerId: string): Promise<void> {
+    this.interruptCast(playerId, "left");
+    // Shields may have been worn down since the last save
+    await this.saveStatusEffects(playerId, this.statusEffects.forget(playerId));
+    this.equipmentStats.delete(playerId);
+    this.crafting.forget(playerId);
+    await this.settleCommunityResources(playerId, false);
+    this.communityResources.forget(playerId);
+    const pending = this.world.removePlayer(playerId);
+    if (pending) {
+      await this.storage.updatePlayers([pending]);
+    }
+  }
+
+  // Health never drops below 0; reaching it starts the death flow
+  damagePlayer(playerId: string, damage: number, source: DamageSource = {}): void {
+    const player = this.world.players.get(playerId);
+    if (!player || player.health <= 0) return;
+
+    // Endurance soaks part of every hit, then the shield takes what it can
+    const mitigated = mitigateDamage(player, damage);
+    const taken = this.absorbWithShield(playerId, mitigated);
+    const health = Math.max(0, player.health - taken);
+    if (taken > 0) {
+      this.world.updatePlayer(playerId, { health });
+      // Anything that gets through the shield breaks concentration
+      this.interruptCast(playerId, "damaged");
+    }
+    this.emit({
+      type: "player_damaged",
+      data: { playerId, damage: taken, absorbed: mitigated - taken, health, maxHealth: player.maxHealth, ...source },
+    });
+
+    if (health === 0) {
+      this.killPlayer(player, source).catch(error => {
+        console.error(`Death handling failed for ${playerId}:`, error);
+      });
+    }
+  }
+
+  isPlayerDead(playerId: string): boolean {
+    const player = this.world.players.get(playerId);
+    return this.respawn.isDead(playerId) || (player !== undefined && player.health <= 0);
+  }
+
+  private async killPlayer(player: Player, source: DamageSource): Promise<void> {
+    const death = this.respawn.markDead(player);
+    // Death wipes every buff and debuff
+    if (this.statusEffects.clear(player.id)) {
+      await this.statusEffectsChanged(player.id);
+    }
+    const penalty = await this.applyDeathPenalty(player);
+
+    this.emit({
+      type: "player_died",
+      data: {
+        playerId: player.id,
+        characterName: player.characterName,
+        positionX: death.positionX,
+        positionY: death.positionY,
+        positionZ: death.positionZ,
+        respawnAt: death.respawnAt,
+        killedBy: source.monsterId ?? null,
+        penalty,
+      },
+    });
+  }
+
+  private async applyDeathPenalty(player: Player): Promise<{ type: DeathPenalty["type"]; experienceLost: number; itemsDropped: number }> {
+    const penalty = this.deathPenalty;
+    let experienceLost = 0;
+    let itemsDropped = 0;
+
+    if (penalty.type === "experience") {
+      experienceLost = experienceLossFor(player, penalty.fraction);
+      if (experienceLost > 0) {
+        await this.updatePlayer(player.id, { experience: player.experience - experienceLost });
+      }
+    } else if (penalty.type === "inventory") {
+      const inventory = await this.storage.getPlayerInventory(player.id);
+      for (const entry of inventory) {
+        const quantity = droppedQuantityFor(entry.quantity, penalty.fraction);
+        if (quantity <= 0) continue;
+        // Taken and dropped together, so a failure can't lose the items
+        const dropped = await this.storage.transaction(async (tx) => {
+          if (!(await tx.removeFromInventory(player.id, entry.itemId, quantity))) return undefined;
+
+          // Scattered around the body and held for the owner for a while
+          return tx.createWorldLoot({
+            itemId: entry.itemId,
+            quantity,
+            positionX: player.positionX + (Math.random() - 0.5) * 4,
+            positionY: player.positionY,
+            positionZ: player.positionZ + (Math.random() - 0.5) * 4,
+            zone: this.zone,
+            droppedBy: player.id,
+            ownerId: player.id,
+            ownedUntil: new Date(Date.now() + this.lootOwnershipMs),
+          });
+        });
+        if (dropped) {
+          itemsDropped += quantity;
+          this.emit({ type: "loot_dropped", data: { ...dropped, item: entry.item } });
+        }
+      }
+    }
+
+    return { type: penalty.type, experienceLost, itemsDropped };
+  }
+
+  // Called by the respawn system once the death timer has run out
+  respawnPlayer(playerId: string): void {
+    const player = this.world.players.get(playerId);
+    if (!player) return;
+
+    const spawn = nearestSpawnPoint(this.zone, { x: player.positionX, y: player.positionY, z: player.positionZ });
+    this.world.updatePlayer(playerId, {
+      health: player.maxHealth,
+      aura: player.maxAura,
+      positionX: spawn.x,
+      positionY: spawn.y,
+      positionZ: spawn.z,
+    });
+    this.emit({
+      type: "player_respawned",
+      data: {
+        playerId,
+        positionX: spawn.x,
+        positionY: spawn.y,
+        positionZ: spawn.z,
+        health: player.maxHealth,
+        aura: player.maxAura,
+      },
+    });
+  }
+
+  // Like a respawn's move, without the heal
+  teleportToSpawn(playerId: string): void {
+    const player = this.world.players.get(playerId);
+    if (!player || player.health <= 0) return;
+
+    const spawn = nearestSpawnPoint(this.zone, { x: player.positionX, y: player.positionY, z: player.positionZ });
+    this.world.updatePlayer(playerId, { positionX: spawn.x, positionY: spawn.y, positionZ: spawn.z });
+    this.interruptCast(playerId, "moved");
+    this.emit({
+      type: "player_teleported",
+      data: { playerId, positionX: spawn.x, positionY: spawn.y, positionZ: spawn.z },
+    });
+  }
+
+  onEvent(listener: (event: EngineEvent) => void): void {
+    this.listeners.push(listener);
+  }
+
+  emit(event: EngineEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`Engine event listener error (${event.type}):`, error);
+      }
+    }
+  }
+
+  setPlayerPosition(playerId: string, x: number, y: number, z: number, rotation?: number): void {
+    const updates: Partial<Player> = { positionX: x, positionY: y, positionZ: z };
+    if (rotation !== undefined) {
+      updates.rotationY = rotation;
+    }
+    this.world.updatePlayer(playerId, updates);
+  }
+
+  // For changes made straight through storage (items, rebirth): the world's
+  // pending changes are written first, and afterwards only the fields the
+  // write changed are copied back, so damage, regen or movement from ticks
+  // that ran during the write aren't lost.
+  async withPersistedPlayer<T>(playerId: string, write: () => Promise<T>): Promise<T> {
+    const pending = this.world.takePendingPlayer(playerId);
+    if (pending) {
+      await this.storage.updatePlayers([pending]);
+    }
+    const before = this.world.players.has(playerId) ? await this.storage.getPlayer(playerId) : undefined;
+
+    const result = await write();
+
+    const after = before && this.world.players.has(playerId) ? await this.storage.getPlayer(playerId) : undefined;
+    if (before && after) {
+      const changed = Object.fromEntries(
+        Object.entries(after).filter(([key, value]) =>
+          JSON.stringify(value) !== JSON.stringify(before[key as keyof Player])
+        )
+      ) as Partial<Player>;
+      this.world.applyStoredPlayer(playerId, changed);
+    }
+    return result;
+  }
+
+  // Advances the simulation by exactly one tick. start() calls this on a
+  // timer; tests can call it directly to step the world deterministically.
+  async step(): Promise<void> {
+    const tickStart = performance.now();
+    this.tickCount++;
+
+    const ctx: TickContext = {
+      tick: this.tickCount,
+      deltaMs: this.tickMs,
+      time: this.tickCount * this.tickMs,
+      world: this.world,
+      storage: this.storage,
+      engine: this,
+    };
+
+    for (const system of this.systems) {
+      const systemStart = performance.now();
+      try {
+        await system.update(ctx);
+      } catch (error) {
+        console.error(`${system.name} system error:`, error);
+      }
+      this.recordTiming(this.metrics.systems[system.name], performance.now() - systemStart);
+    }
+
+    if (this.tickCount % this.flushEveryTicks === 0) {
+      await this.flush();
+    }
+
+    const duration = performance.now() - tickStart;
+    this.recordTiming(this.metrics, duration);
+    this.metrics.tick = this.tickCount;
+    if (duration > this.tickMs) {
+      this.metrics.overruns++;
+    }
+  }
+
+  // Writes every pending player and monster change to storage in batches
+  async flush(): Promise<void> {
+    // Never run two flushes at once; the second waits and then flushes what's new
+    while (this.flushing) {
+      await this.flushing;
+    }
+
+    const { players, monsters } = this.world.takeAllPending();
+    if (players.length === 0 && monsters.length === 0) return;
+
+    const flushStart = performance.now();
+    this.flushing = (async () => {
+      let failed = false;
+      try {
+        for (let i = 0; i < players.length; i += FLUSH_BATCH_SIZE) {
+          await this.storage.updatePlayers(players.slice(i, i + FLUSH_BATCH_SIZE));
+        }
+        for (let i = 0; i < monsters.length; i += FLUSH_BATCH_SIZE) {
+          await this.storage.updateMonsters(monsters.slice(i, i + FLUSH_BATCH_SIZE));
+        }
+      } catch (error) {
+        failed = true;
+        console.error("World flush error:", error);
+        this.world.restorePending(players, monsters);
+      }
+      this.metrics.lastFlush = {
+        players: players.length,
+        monsters: monsters.length,
+        durationMs: performance.now() - flushStart,
+        failed,
+      };
+    })();
+
+    try {
+      await this.flushing;
+    } finally {
+      this.flushing = null;
+    }
+  }
+
+  getMetrics(): TickMetrics {
+    return {
+      ...this.metrics,
+      systems: Object.fromEntries(
+        Object.entries(this.metrics.systems).map(([name, stats]) => [name, { ...stats }]),
+      ),
+      lastFlush: this.metrics.lastFlush && { ...this.metrics.lastFlush },
+    };
+  }
+
+  private recordTiming(stats: TimingStats, durationMs: number): void {
+    stats.lastMs = durationMs;
+    stats.avgMs = stats.avgMs === 0 ? durationMs : stats.avgMs + (durationMs - stats.avgMs) * METRICS_SMOOTHING;
+    stats.maxMs = Math.max(stats.maxMs, durationMs);
+  }
+
+  async start(): Promise<void> {
+    // Items the loot tables refer to must exist before anything can drop
+    await seedLootItems(this.storage, this.loot.items);
+
+    // Pick up monsters that were alive when the server last stopped
+    const monsters = await this.storage.getMonstersInZone(this.zone);
+    monsters.forEach(monster => this.world.addMonster(monster));
+
+    let nextTickAt = performance.now();
+    const loop = async () => {
+      await this.step();
+
+      nextTickAt += this.tickMs;
+      const now = performance.now();
+      if (now - nextTickAt > this.tickMs * MAX_CATCH_UP_TICKS) {
+        // Too far behind (e.g. a slow flush): skip ahead instead of bursting ticks
+        this.metrics.skippedTicks += Math.floor((now - nextTickAt) / this.tickMs);
+        nextTickAt = now;
+      }
+
+      if (this.loopTimer) {
+        this.loopTimer = setTimeout(loop, Math.max(0, nextTickAt - now));
+      }
+    };
+    this.loopTimer = setTimeout(loop, this.tickMs);
+  }
+
+  async stop(): Promise<void> {
+    if (this.loopTimer) {
+      clearTimeout(this.loopTimer);
+      this.loopTimer = null;
+    }
+    await this.flush();
   }
 }
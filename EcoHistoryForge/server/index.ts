@@ -1,6 +1,7 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { createStorage, createSessionStore, resolveStorageBackend } from "./storageBackend";
 
 const app = express();
 app.use(express.json());
@@ -37,7 +38,12 @@ app.use((req, res, next) => {
 });
 
 (async () => {
-  const server = await registerRoutes(app);
+  const backend = resolveStorageBackend();
+  const storage = await createStorage(backend);
+  const sessionStore = await createSessionStore(backend);
+  log(`using ${backend} storage`);
+
+  const server = await registerRoutes(app, storage, sessionStore);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
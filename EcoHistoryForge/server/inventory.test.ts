@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import type { LootItem } from "@shared/schema";
+import {
+  hasChanges,
+  planAdd,
+  planMerge,
+  planMove,
+  planRemove,
+  planSlotRepair,
+  planSplit,
+  planTake,
+  type InventoryEntry,
+} from "./inventory";
+
+function item(overrides: Partial<LootItem> = {}): LootItem {
+  return {
+    id: "bone",
+    name: "Monster Bone",
+    type: "material",
+    rarity: "common",
+    description: "",
+    effects: {},
+    value: 2,
+    stackable: true,
+    maxStack: 10,
+    icon: "fas fa-bone",
+    createdAt: null,
+    ...overrides,
+  };
+}
+
+function entry(id: string, slot: number, quantity: number, stackItem: LootItem = item()): InventoryEntry {
+  return { id, playerId: "player", itemId: stackItem.id, quantity, slot, acquiredAt: null, item: stackItem };
+}
+
+describe("planAdd", () => {
+  it("tops up existing stacks before starting new ones", () => {
+    const plan = planAdd([entry("a", 0, 8)], item(), 5);
+    expect(plan).toEqual({
+      success: true,
+      changes: { inserts: [{ itemId: "bone", slot: 1, quantity: 3 }], updates: [{ id: "a", quantity: 10 }], deletes: [] },
+    });
+  });
+
+  it("puts unstackable items one per slot", () => {
+    const sword = item({ id: "sword", stackable: false });
+    const plan = planAdd([], sword, 2);
+    expect(plan.success && plan.changes.inserts.map(insert => insert.quantity)).toEqual([1, 1]);
+  });
+
+  it("adds nothing unless all of it fits", () => {
+    const full = [entry("a", 0, 10), entry("b", 1, 9)];
+    expect(planAdd(full, item(), 2, 2)).toEqual({ success: false, message: "Your inventory is full" });
+  });
+});
+
+describe("planRemove", () => {
+  it("takes from the smallest stacks first", () => {
+    const plan = planRemove([entry("a", 0, 10), entry("b", 1, 3)], "bone", 5);
+    expect(plan).toEqual({ success: true, changes: { inserts: [], updates: [{ id: "a", quantity: 8 }], deletes: ["b"] } });
+  });
+
+  it("refuses to take more than there is", () => {
+    expect(planRemove([entry("a", 0, 3)], "bone", 4).success).toBe(false);
+  });
+});
+
+describe("planTake", () => {
+  it("takes from the one stack asked for", () => {
+    expect(planTake([entry("a", 0, 3)], "a", 3)).toEqual({
+      success: true,
+      changes: { inserts: [], updates: [], deletes: ["a"] },
+    });
+  });
+
+  it("rejects unknown entries", () => {
+    expect(planTake([entry("a", 0, 3)], "missing", 1).success).toBe(false);
+  });
+});
+
+describe("planMove", () => {
+  it("swaps with whatever is in the target slot", () => {
+    const plan = planMove([entry("a", 0, 1), entry("b", 1, 1)], "a", 1);
+    expect(plan.success && plan.changes.updates).toEqual(expect.arrayContaining([{ id: "a", slot: 1 }, { id: "b", slot: 0 }]));
+  });
+
+  it("rejects slots outside the bags", () => {
+    expect(planMove([entry("a", 0, 1)], "a", 5, 4).success).toBe(false);
+  });
+});
+
+describe("planSplit and planMerge", () => {
+  it("splits part of a stack into a free slot", () => {
+    const plan = planSplit([entry("a", 0, 6)], "a", 2);
+    expect(plan.success && plan.changes).toEqual({
+      inserts: [{ itemId: "bone", slot: 1, quantity: 2 }],
+      updates: [{ id: "a", quantity: 4 }],
+      deletes: [],
+    });
+  });
+
+  it("merges as much as the target stack holds", () => {
+    const plan = planMerge([entry("a", 0, 6), entry("b", 1, 7)], "a", "b");
+    expect(plan.success && plan.changes.updates).toEqual(expect.arrayContaining([{ id: "b", quantity: 10 }, { id: "a", quantity: 3 }]));
+  });
+});
+
+describe("planSlotRepair", () => {
+  it("spreads stacks sharing a slot into free slots", () => {
+    const changes = planSlotRepair([entry("a", 0, 1), entry("b", 0, 1), entry("c", 0, 1), entry("d", 1, 1)], 4);
+    expect(changes).toEqual({ inserts: [], updates: [{ id: "b", slot: 2 }, { id: "c", slot: 3 }], deletes: [] });
+  });
+
+  it("leaves a tidy inventory alone", () => {
+    expect(hasChanges(planSlotRepair([entry("a", 0, 1), entry("b", 1, 1)]))).toBe(false);
+  });
+});
@@ -0,0 +1,181 @@
+import type { LootItem, PlayerInventory } from "@shared/schema";
+import { INVENTORY_SLOTS } from "@shared/inventory";
+
+// Inventory changes are planned against the player's current rows and then
+// applied by storage in one go, so every rule about slots and stacks lives here.
+
+export type InventoryEntry = PlayerInventory & { item: LootItem };
+
+export interface InventoryChanges {
+  inserts: Array<{ itemId: string; slot: number; quantity: number }>;
+  updates: Array<{ id: string; slot?: number; quantity?: number }>;
+  deletes: string[];
+}
+
+export type InventoryPlan =
+  | { success: true; changes: InventoryChanges }
+  | { success: false; message: string };
+
+function noChanges(): InventoryChanges {
+  return { inserts: [], updates: [], deletes: [] };
+}
+
+export function stackLimitOf(item: LootItem): number {
+  return item.stackable ? Math.max(1, item.maxStack) : 1;
+}
+
+function freeSlots(entries: InventoryEntry[], capacity: number): number[] {
+  const used = new Set(entries.map(entry => entry.slot));
+  return Array.from({ length: capacity }, (_, slot) => slot).filter(slot => !used.has(slot));
+}
+
+function bySlot(entries: InventoryEntry[]): InventoryEntry[] {
+  return [...entries].sort((a, b) => a.slot - b.slot);
+}
+
+// Tops up existing stacks in slot order, then starts new ones in free slots.
+// Nothing is added unless all of it fits.
+export function planAdd(entries: InventoryEntry[], item: LootItem, quantity: number, capacity: number = INVENTORY_SLOTS): InventoryPlan {
+  const limit = stackLimitOf(item);
+  const changes = noChanges();
+  let remaining = quantity;
+
+  for (const entry of bySlot(entries)) {
+    if (remaining === 0) break;
+    if (entry.itemId !== item.id || entry.quantity >= limit) continue;
+    const added = Math.min(limit - entry.quantity, remaining);
+    changes.updates.push({ id: entry.id, quantity: entry.quantity + added });
+    remaining -= added;
+  }
+  for (const slot of freeSlots(entries, capacity)) {
+    if (remaining === 0) break;
+    const added = Math.min(limit, remaining);
+    changes.inserts.push({ itemId: item.id, slot, quantity: added });
+    remaining -= added;
+  }
+
+  if (remaining > 0) return { success: false, message: "Your inventory is full" };
+  return { success: true, changes };
+}
+
+// Takes from the smallest stacks first so whole stacks free their slots
+export function planRemove(entries: InventoryEntry[], itemId: string, quantity: number): InventoryPlan {
+  const stacks = entries
+    .filter(entry => entry.itemId === itemId)
+    .sort((a, b) => a.quantity - b.quantity || b.slot - a.slot);
+  if (stacks.reduce((total, entry) => total + entry.quantity, 0) < quantity) {
+    return { success: false, message: "You don't have enough of that item" };
+  }
+
+  const changes = noChanges();
+  let remaining = quantity;
+  for (const entry of stacks) {
+    if (remaining === 0) break;
+    const taken = Math.min(entry.quantity, remaining);
+    if (taken === entry.quantity) {
+      changes.deletes.push(entry.id);
+    } else {
+      changes.updates.push({ id: entry.id, quantity: entry.quantity - taken });
+    }
+    remaining -= taken;
+  }
+  return { success: true, changes };
+}
+
+// Like planRemove, but from one particular stack
+export function planTake(entries: InventoryEntry[], entryId: string, quantity: number): InventoryPlan {
+  const entry = entries.find(candidate => candidate.id === entryId);
+  if (!entry) return { success: false, message: "That item isn't in your inventory" };
+  if (quantity < 1 || quantity > entry.quantity) return { success: false, message: `You only have ${entry.quantity}` };
+
+  const changes = noChanges();
+  if (quantity === entry.quantity) {
+    changes.deletes.push(entry.id);
+  } else {
+    changes.updates.push({ id: entry.id, quantity: entry.quantity - quantity });
+  }
+  return { success: true, changes };
+}
+
+// Moving onto an occupied slot swaps the two stacks
+export function planMove(entries: InventoryEntry[], entryId: string, slot: number, capacity: number = INVENTORY_SLOTS): InventoryPlan {
+  const entry = entries.find(candidate => candidate.id === entryId);
+  if (!entry) return { success: false, message: "That item isn't in your inventory" };
+  if (!Number.isInteger(slot) || slot < 0 || slot >= capacity) return { success: false, message: "No such inventory slot" };
+
+  const changes = noChanges();
+  if (slot === entry.slot) return { success: true, changes };
+  const occupant = entries.find(candidate => candidate.slot === slot && candidate.id !== entry.id);
+  changes.updates.push({ id: entry.id, slot });
+  if (occupant) {
+    changes.updates.push({ id: occupant.id, slot: entry.slot });
+  }
+  return { success: true, changes };
+}
+
+// Splits `quantity` off into a new stack, in `slot` if given or else the first free one
+export function planSplit(
+  entries: InventoryEntry[],
+  entryId: string,
+  quantity: number,
+  slot?: number,
+  capacity: number = INVENTORY_SLOTS,
+): InventoryPlan {
+  const entry = entries.find(candidate => candidate.id === entryId);
+  if (!entry) return { success: false, message: "That item isn't in your inventory" };
+  if (!Number.isInteger(quantity) || quantity < 1 || quantity >= entry.quantity) {
+    return { success: false, message: `Split off between 1 and ${entry.quantity - 1}` };
+  }
+
+  const free = freeSlots(entries, capacity);
+  const target = slot ?? free[0];
+  if (target === undefined) return { success: false, message: "Your inventory is full" };
+  if (!free.includes(target)) return { success: false, message: "That slot isn't empty" };
+
+  const changes = noChanges();
+  changes.updates.push({ id: entry.id, quantity: entry.quantity - quantity });
+  changes.inserts.push({ itemId: entry.itemId, slot: target, quantity });
+  return { success: true, changes };
+}
+
+// Moves as much of one stack onto another of the same item as its maxStack allows
+export function planMerge(entries: InventoryEntry[], fromId: string, intoId: string): InventoryPlan {
+  const from = entries.find(candidate => candidate.id === fromId);
+  const into = entries.find(candidate => candidate.id === intoId);
+  if (!from || !into || from.id === into.id) return { success: false, message: "Pick two different stacks" };
+  if (from.itemId !== into.itemId) return { success: false, message: "Only stacks of the same item can be merged" };
+
+  const moved = Math.min(from.quantity, stackLimitOf(into.item) - into.quantity);
+  if (moved <= 0) return { success: false, message: `${into.item.name} can't stack any higher` };
+
+  const changes = noChanges();
+  changes.updates.push({ id: into.id, quantity: into.quantity + moved });
+  if (moved === from.quantity) {
+    changes.deletes.push(from.id);
+  } else {
+    changes.updates.push({ id: from.id, quantity: from.quantity - moved });
+  }
+  return { success: true, changes };
+}
+
+// Rows from before inventories had slots all sit in slot 0; this spreads
+// any doubled-up rows into free slots
+export function planSlotRepair(entries: InventoryEntry[], capacity: number = INVENTORY_SLOTS): InventoryChanges {
+  const changes = noChanges();
+  const free = freeSlots(entries, capacity);
+  const seen = new Set<number>();
+  for (const entry of bySlot(entries)) {
+    if (!seen.has(entry.slot)) {
+      seen.add(entry.slot);
+      continue;
+    }
+    const slot = free.shift();
+    if (slot === undefined) break;
+    changes.updates.push({ id: entry.id, slot });
+  }
+  return changes;
+}
+
+export function hasChanges(changes: InventoryChanges): boolean {
+  return changes.inserts.length + changes.updates.length + changes.deletes.length > 0;
+}
@@ -0,0 +1,126 @@
+import fs from "fs";
+import path from "path";
+import type { Monster } from "@shared/schema";
+import {
+  LOOT_RARITIES,
+  lootDataSchema,
+  type LootData,
+  type LootEntry,
+  type LootItemDefinition,
+  type LootRarity,
+  type LootTable,
+} from "@shared/loot";
+import type { IStorage } from "./storage";
+import { MONSTER_TYPE_NAMES } from "./monsterTypes";
+
+// Resolves to <repo>/shared/loot.json from both server/ (dev) and dist/ (production)
+export const DEFAULT_LOOT_FILE = path.resolve(import.meta.dirname, "..", "shared", "loot.json");
+
+export interface LootDrop {
+  item: string; // lootItems name
+  quantity: number;
+}
+
+// Reads and validates the loot data; a broken file stops startup with a readable error
+export function loadLootData(file: string = DEFAULT_LOOT_FILE): LootData {
+  const raw = JSON.parse(fs.readFileSync(file, "utf-8"));
+  const parsed = lootDataSchema.safeParse(raw);
+  const problems = parsed.success
+    ? parsed.data.tables.flatMap((table, index) =>
+        table.monsters
+          .filter(monster => !MONSTER_TYPE_NAMES.includes(monster))
+          .map(monster => `  tables.${index}.monsters: Unknown monster type "${monster}"`)
+      )
+    : parsed.error.issues.map(issue => `  ${issue.path.join(".")}: ${issue.message}`);
+  if (!parsed.success || problems.length > 0) {
+    throw new Error(`Invalid loot data in ${file}:\n${problems.join("\n")}`);
+  }
+  return parsed.data;
+}
+
+// Every table whose monsters and level band include this monster; all of them drop
+export function lootTablesFor(tables: LootTable[], monster: Pick<Monster, "name" | "level">): LootTable[] {
+  return tables.filter(table =>
+    (table.monsters.length === 0 || table.monsters.includes(monster.name)) &&
+    monster.level >= table.minLevel &&
+    monster.level <= table.maxLevel
+  );
+}
+
+function rollQuantity(range: { min: number; max: number }, random: () => number): number {
+  return range.min + Math.floor(random() * (range.max - range.min + 1));
+}
+
+function pickWeighted<T>(options: T[], weightOf: (option: T) => number, random: () => number): T | undefined {
+  const total = options.reduce((sum, option) => sum + weightOf(option), 0);
+  if (total <= 0) return undefined;
+
+  let remaining = random() * total;
+  for (const option of options) {
+    remaining -= weightOf(option);
+    if (remaining < 0) return option;
+  }
+  return options[options.length - 1];
+}
+
+// Guaranteed drops, then each roll picks a rarity tier by the table's weights
+// and an entry of that tier by the entries' weights. `abundance` scales the
+// chance of each roll; guaranteed drops always drop.
+export function rollLootTable(
+  table: LootTable,
+  rarityOf: (item: string) => LootRarity | undefined,
+  abundance: number = 1,
+  random: () => number = Math.random,
+): LootDrop[] {
+  const drops: LootDrop[] = table.guaranteed.map(drop => ({ item: drop.item, quantity: rollQuantity(drop, random) }));
+
+  const tiers = new Map<LootRarity, LootEntry[]>();
+  for (const entry of table.entries) {
+    const rarity = rarityOf(entry.item);
+    if (rarity) {
+      tiers.set(rarity, [...(tiers.get(rarity) ?? []), entry]);
+    }
+  }
+  const available = LOOT_RARITIES.filter(rarity => tiers.has(rarity));
+
+  for (let roll = 0; roll < table.rolls; roll++) {
+    if (random() >= table.dropChance * abundance) continue;
+    const rarity = pickWeighted(available, tier => table.rarityWeights[tier] ?? 0, random);
+    const entry = rarity && pickWeighted(tiers.get(rarity)!, candidate => candidate.weight, random);
+    if (entry) {
+      drops.push({ item: entry.item, quantity: rollQuantity(entry, random) });
+    }
+  }
+  return drops;
+}
+
+// Everything the monster drops across its tables, one stack per item
+export function rollLoot(
+  data: LootData,
+  monster: Pick<Monster, "name" | "level">,
+  abundance: number = 1,
+  random: () => number = Math.random,
+): LootDrop[] {
+  const rarities = new Map(data.items.map(item => [item.name, item.rarity]));
+  const merged = new Map<string, number>();
+  for (const table of lootTablesFor(data.tables, monster)) {
+    for (const drop of rollLootTable(table, item => rarities.get(item), abundance, random)) {
+      merged.set(drop.item, (merged.get(drop.item) ?? 0) + drop.quantity);
+    }
+  }
+  return Array.from(merged, ([item, quantity]) => ({ item, quantity }));
+}
+
+// Creates the catalog items that don't exist yet, matched by name; rows that
+// already exist are left as they are. Returns how many were created.
+export async function seedLootItems(storage: IStorage, items: LootItemDefinition[]): Promise<number> {
+  const existing = new Set((await storage.getAllLootItems()).map(item => item.name));
+  let created = 0;
+  for (const item of items) {
+    if (!existing.has(item.name)) {
+      await storage.createLootItem(item);
+      created++;
+    }
+  }
+  return created;
+}
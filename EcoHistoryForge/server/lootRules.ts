@@ -0,0 +1,39 @@
+import type { WorldLoot } from "@shared/schema";
+
+// Who may pick up a drop. For a while after it lands only its owner may (or,
+// when the drop carries a partyId, anyone in that party); after that anyone can.
+
+export const DEFAULT_LOOT_OWNERSHIP_MS = 60000;
+
+// A little more than the client's pickup distance, to allow for movement lag
+export const LOOT_PICKUP_RANGE = 4;
+
+// How long party members get to choose need, greed or pass
+export const LOOT_ROLL_WINDOW_MS = 15000;
+
+// Common drops are never rolled for, even in need_greed parties
+export const UNROLLED_RARITIES = ["common"];
+
+// LOOT_OWNERSHIP_SECONDS=60; 0 makes every drop free-for-all straight away
+export function resolveLootOwnershipMs(env: NodeJS.ProcessEnv = process.env): number {
+  const requested = env.LOOT_OWNERSHIP_SECONDS?.trim();
+  if (!requested) {
+    return DEFAULT_LOOT_OWNERSHIP_MS;
+  }
+
+  const seconds = Number(requested);
+  if (!Number.isFinite(seconds) || seconds < 0) {
+    throw new Error(`Invalid LOOT_OWNERSHIP_SECONDS "${env.LOOT_OWNERSHIP_SECONDS}", expected a number of seconds >= 0`);
+  }
+  return seconds * 1000;
+}
+
+export function isLootReserved(loot: WorldLoot, now: number = Date.now()): boolean {
+  return loot.ownedUntil !== null && loot.ownedUntil.getTime() > now;
+}
+
+export function mayCollect(loot: WorldLoot, playerId: string, partyId: string | undefined, now: number = Date.now()): boolean {
+  if (!isLootReserved(loot, now)) return true;
+  if (loot.ownerId === playerId) return true;
+  return loot.partyId !== null && loot.partyId === partyId;
+}
@@ -0,0 +1,362 @@
+import { describe, expect, it, vi, afterEach } from "vitest";
+import { getTableColumns, is, SQL } from "drizzle-orm";
+import type { PgTable } from "drizzle-orm/pg-core";
+import {
+  chatMessages,
+  communityResources,
+  gameState,
+  lootItems,
+  monsters,
+  playerInventory,
+  players,
+  redeemCodes,
+  worldLoot,
+} from "@shared/schema";
+import { INVENTORY_SLOTS } from "@shared/inventory";
+import { MemStorage } from "./memStorage";
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+async function seed(storage = new MemStorage()) {
+  const player = await storage.createPlayer({ username: "tamsin", password: "secret", characterName: "Tamsin" });
+  const bone = await storage.createLootItem({ name: "Monster Bone", type: "material", description: "" });
+  return { storage, player, bone };
+}
+
+// DatabaseStorage gets these from the column defaults, so a row MemStorage
+// creates must have every column and the same default values
+function expectColumnDefaults(table: PgTable, row: Record<string, unknown>) {
+  for (const [key, column] of Object.entries(getTableColumns(table))) {
+    expect(row, key).toHaveProperty(key);
+    if (!column.hasDefault) continue;
+    if (is(column.default, SQL)) {
+      // gen_random_uuid() and now()
+      expect(row[key], key).toBeTruthy();
+    } else {
+      expect(row[key], key).toEqual(column.default);
+    }
+  }
+}
+
+describe("MemStorage rows match the DatabaseStorage column defaults", () => {
+  it("fills in defaults for every table", async () => {
+    const { storage, player, bone } = await seed();
+
+    expectColumnDefaults(players, player);
+    expectColumnDefaults(lootItems, bone);
+    expectColumnDefaults(chatMessages, await storage.createChatMessage({ playerId: player.id, message: "hi" }));
+    expectColumnDefaults(communityResources, await storage.createCommunityResources({ playerId: player.id }));
+    expectColumnDefaults(gameState, await storage.createGameState({ playerId: player.id }));
+    expectColumnDefaults(monsters, await storage.createMonster({
+      name: "Wolf", level: 1, health: 50, maxHealth: 50, positionX: 0, positionY: 0, positionZ: 0,
+    }));
+    await storage.addToInventory(player.id, bone.id);
+    expectColumnDefaults(playerInventory, (await storage.getPlayerInventory(player.id))[0]);
+    expectColumnDefaults(worldLoot, await storage.createWorldLoot({ itemId: bone.id, positionX: 0, positionY: 0, positionZ: 0 }));
+    expectColumnDefaults(redeemCodes, await storage.createRedeemCode({ code: "welcome" }));
+  });
+});
+
+describe("MemStorage CRUD", () => {
+  it("looks players up by id and username", async () => {
+    const { storage, player } = await seed();
+
+    expect(await storage.getPlayer(player.id)).toEqual(player);
+    expect(await storage.getPlayerByUsername("tamsin")).toEqual(player);
+    expect(await storage.getPlayer("missing")).toBeUndefined();
+  });
+
+  it("keeps usernames unique like the database constraint", async () => {
+    const { storage } = await seed();
+    await expect(storage.createPlayer({ username: "tamsin", password: "x", characterName: "Other" })).rejects.toThrow(/already exists/);
+  });
+
+  it("updates rows and rejects updates to missing ones", async () => {
+    const { storage, player } = await seed();
+
+    const updated = await storage.updatePlayer(player.id, { level: 5, id: "changed" });
+    expect(updated).toMatchObject({ id: player.id, level: 5 });
+    expect(await storage.getPlayer(player.id)).toEqual(updated);
+    await expect(storage.updatePlayer("missing", { level: 2 })).rejects.toThrow("Player not found");
+  });
+
+  it("sets lastSeen when a player goes offline", async () => {
+    const { storage, player } = await seed();
+    await storage.setPlayerOnlineStatus(player.id, true);
+    expect((await storage.getOnlinePlayers()).map(p => p.id)).toEqual([player.id]);
+
+    await storage.setPlayerOnlineStatus(player.id, false);
+    expect(await storage.getOnlinePlayers()).toEqual([]);
+    expect((await storage.getPlayer(player.id))!.lastSeen!.getTime()).toBeGreaterThanOrEqual(player.lastSeen!.getTime());
+  });
+
+  it("lists a channel's chat newest first with the sender's name", async () => {
+    vi.useFakeTimers();
+    const { storage, player } = await seed();
+    await storage.createChatMessage({ playerId: player.id, message: "first", channel: "world" });
+    vi.advanceTimersByTime(1000);
+    await storage.createChatMessage({ playerId: player.id, message: "second", channel: "world" });
+    await storage.createChatMessage({ playerId: player.id, message: "elsewhere" });
+    await storage.createChatMessage({ playerId: "nobody", message: "orphan", channel: "world" });
+
+    const messages = await storage.getChatMessages("world");
+    expect(messages.map(m => m.message)).toEqual(["second", "first"]);
+    expect(messages[0]).toMatchObject({ playerName: "Tamsin" });
+  });
+
+  it("treats deleted monsters as dead rather than gone", async () => {
+    const { storage } = await seed();
+    const monster = await storage.createMonster({
+      name: "Wolf", level: 1, health: 50, maxHealth: 50, positionX: 0, positionY: 0, positionZ: 0,
+    });
+
+    await storage.deleteMonster(monster.id);
+    expect(await storage.getMonstersInZone("selha_latna")).toEqual([]);
+    await expect(storage.updateMonster(monster.id, { health: 10 })).resolves.toMatchObject({ isAlive: false });
+  });
+});
+
+describe("MemStorage inventory", () => {
+  it("stacks repeat adds into one entry", async () => {
+    const { storage, player, bone } = await seed();
+    expect(await storage.addToInventory(player.id, bone.id, 2)).toBe(true);
+    expect(await storage.addToInventory(player.id, bone.id, 3)).toBe(true);
+
+    const inventory = await storage.getPlayerInventory(player.id);
+    expect(inventory).toHaveLength(1);
+    expect(inventory[0]).toMatchObject({ quantity: 5, slot: 0, item: bone });
+  });
+
+  it("starts new stacks past the item's maxStack and adds nothing once the bags are full", async () => {
+    const { storage, player } = await seed();
+    const arrow = await storage.createLootItem({ name: "Arrow", type: "material", description: "", maxStack: 10 });
+
+    expect(await storage.addToInventory(player.id, arrow.id, 25)).toBe(true);
+    expect((await storage.getPlayerInventory(player.id)).map(entry => [entry.slot, entry.quantity]).sort())
+      .toEqual([[0, 10], [1, 10], [2, 5]]);
+
+    expect(await storage.addToInventory(player.id, arrow.id, INVENTORY_SLOTS * 10)).toBe(false);
+    expect(await storage.getPlayerInventory(player.id)).toHaveLength(3);
+  });
+
+  it("refuses unknown items", async () => {
+    const { storage, player } = await seed();
+    expect(await storage.addToInventory(player.id, "missing")).toBe(false);
+  });
+
+  it("removes only what's there, deleting emptied entries", async () => {
+    const { storage, player, bone } = await seed();
+    await storage.addToInventory(player.id, bone.id, 3);
+
+    expect(await storage.removeFromInventory(player.id, bone.id, 4)).toBe(false);
+    expect(await storage.removeFromInventory(player.id, bone.id, 2)).toBe(true);
+    expect((await storage.getPlayerInventory(player.id))[0].quantity).toBe(1);
+    expect(await storage.removeFromInventory(player.id, bone.id, 1)).toBe(true);
+    expect(await storage.getPlayerInventory(player.id)).toEqual([]);
+  });
+});
+
+describe("MemStorage world loot", () => {
+  it("gives collected loot to the player exactly once", async () => {
+    const { storage, player, bone } = await seed();
+    const loot = await storage.createWorldLoot({ itemId: bone.id, quantity: 2, positionX: 1, positionY: 0, positionZ: 1 });
+
+    expect(await storage.collectWorldLoot(player.id, loot.id)).toBe(true);
+    expect(await storage.collectWorldLoot(player.id, loot.id)).toBe(false);
+    expect((await storage.getPlayerInventory(player.id))[0].quantity).toBe(2);
+    expect(await storage.getWorldLootInZone("selha_latna")).toEqual([]);
+  });
+
+  it("leaves loot in the world when the bags are full", async () => {
+    const { storage, player, bone } = await seed();
+    const sword = await storage.createLootItem({ name: "Sword", type: "weapon", description: "", stackable: false });
+    await storage.addToInventory(player.id, sword.id, INVENTORY_SLOTS);
+    const loot = await storage.createWorldLoot({ itemId: bone.id, positionX: 1, positionY: 0, positionZ: 1 });
+
+    expect(await storage.collectWorldLoot(player.id, loot.id)).toBe(false);
+    expect((await storage.getWorldLootInZone("selha_latna")).map(entry => entry.id)).toEqual([loot.id]);
+  });
+
+  it("can't collect or see expired loot", async () => {
+    vi.useFakeTimers();
+    const { storage, player, bone } = await seed();
+    const loot = await storage.createWorldLoot({ itemId: bone.id, positionX: 1, positionY: 0, positionZ: 1 });
+
+    vi.advanceTimersByTime(5 * 60 * 1000);
+    expect(await storage.getWorldLootInZone("selha_latna")).toEqual([]);
+    expect(await storage.collectWorldLoot(player.id, loot.id)).toBe(false);
+    expect(await storage.getPlayerInventory(player.id)).toEqual([]);
+  });
+});
+
+describe("MemStorage redeem codes", () => {
+  it("lets each player claim a code once and counts the uses", async () => {
+    const { storage, player } = await seed();
+    const other = await storage.createPlayer({ username: "wren", password: "secret", characterName: "Wren" });
+    await storage.createRedeemCode({ code: "welcome", maxUses: 5 });
+
+    const claim = await storage.claimRedeemCode(player.id, "welcome");
+    expect(claim).toMatchObject({ success: true, code: { uses: 1 } });
+    expect(await storage.claimRedeemCode(player.id, "welcome")).toEqual({
+      success: false,
+      message: "You have already redeemed this code",
+    });
+    expect(await storage.claimRedeemCode(other.id, "welcome")).toMatchObject({ success: true, code: { uses: 2 } });
+  });
+
+  it("stops claims once the code is used up", async () => {
+    const { storage, player } = await seed();
+    const other = await storage.createPlayer({ username: "wren", password: "secret", characterName: "Wren" });
+    await storage.createRedeemCode({ code: "first", maxUses: 1 });
+
+    await storage.claimRedeemCode(player.id, "first");
+    expect(await storage.claimRedeemCode(other.id, "first")).toEqual({
+      success: false,
+      message: "This code has been fully redeemed",
+    });
+  });
+
+  it("rejects unknown, revoked and expired codes", async () => {
+    const { storage, player } = await seed();
+    const revoked = await storage.createRedeemCode({ code: "revoked" });
+    await storage.revokeRedeemCode(revoked.id);
+    await storage.createRedeemCode({ code: "expired", expiresAt: new Date(Date.now() - 1000) });
+
+    expect(await storage.claimRedeemCode(player.id, "missing")).toEqual({ success: false, message: "Invalid code" });
+    expect(await storage.claimRedeemCode(player.id, "revoked")).toEqual({ success: false, message: "Invalid code" });
+    expect(await storage.claimRedeemCode(player.id, "expired")).toEqual({ success: false, message: "This code has expired" });
+  });
+
+  it("keeps codes unique like the database constraint", async () => {
+    const { storage } = await seed();
+    await storage.createRedeemCode({ code: "welcome" });
+    await expect(storage.createRedeemCode({ code: "welcome" })).rejects.toThrow(/already exists/);
+  });
+});
+
+describe("MemStorage transactions", () => {
+  it("rolls back map and list writes made through tx when the work throws", async () => {
+    const { storage, player, bone } = await seed();
+    await storage.addToInventory(player.id, bone.id, 5);
+    const loot = await storage.createWorldLoot({ itemId: bone.id, positionX: 1, positionY: 0, positionZ: 1 });
+
+    await expect(storage.transaction(async (tx) => {
+      await tx.updatePlayer(player.id, { level: 9 });
+      await tx.removeFromInventory(player.id, bone.id, 5);
+      await tx.collectWorldLoot(player.id, loot.id);
+      await tx.createChatMessage({ playerId: player.id, message: "never sent" });
+      throw new Error("changed my mind");
+    })).rejects.toThrow("changed my mind");
+
+    expect((await storage.getPlayer(player.id))!.level).toBe(1);
+    expect((await storage.getPlayerInventory(player.id)).map(entry => entry.quantity)).toEqual([5]);
+    expect((await storage.getWorldLootInZone("selha_latna")).map(entry => entry.id)).toEqual([loot.id]);
+    expect(await storage.getChatMessages("tutorial")).toEqual([]);
+  });
+
+  it("keeps writes made to other rows outside the transaction while it ran", async () => {
+    const { storage, player } = await seed();
+    const other = await storage.createPlayer({ username: "wren", password: "secret", characterName: "Wren" });
+
+    await expect(storage.transaction(async (tx) => {
+      await tx.updatePlayer(player.id, { level: 9 });
+      await storage.updatePlayerPosition(other.id, 5, 0, 5);
+      throw new Error("rollback");
+    })).rejects.toThrow("rollback");
+
+    expect((await storage.getPlayer(player.id))!.level).toBe(1);
+    expect(await storage.getPlayer(other.id)).toMatchObject({ positionX: 5, positionZ: 5 });
+  });
+
+  it("commits what the work wrote when it succeeds", async () => {
+    const { storage, player, bone } = await seed();
+
+    const result = await storage.transaction(async (tx) => {
+      await tx.addToInventory(player.id, bone.id, 2);
+      return "done";
+    });
+
+    expect(result).toBe("done");
+    expect((await storage.getPlayerInventory(player.id))[0].quantity).toBe(2);
+  });
+
+  it("rolls back only a failing nested transaction, like a savepoint", async () => {
+    const { storage, player, bone } = await seed();
+
+    await storage.transaction(async (tx) => {
+      await tx.updatePlayer(player.id, { level: 2 });
+      await expect(tx.transaction(async (inner) => {
+        await inner.updatePlayer(player.id, { level: 3, experience: 50 });
+        await inner.addToInventory(player.id, bone.id, 4);
+        throw new Error("inner failed");
+      })).rejects.toThrow("inner failed");
+      await tx.updatePlayer(player.id, { health: 900 });
+    });
+
+    expect(await storage.getPlayer(player.id)).toMatchObject({ level: 2, experience: 0, health: 900 });
+    expect(await storage.getPlayerInventory(player.id)).toEqual([]);
+  });
+
+  it("rolls back a nested transaction that succeeded when the outer one fails", async () => {
+    const { storage, player } = await seed();
+
+    await expect(storage.transaction(async (tx) => {
+      await tx.transaction(async (inner) => {
+        await inner.updatePlayer(player.id, { level: 3 });
+      });
+      throw new Error("outer failed");
+    })).rejects.toThrow("outer failed");
+
+    expect((await storage.getPlayer(player.id))!.level).toBe(1);
+  });
+
+  it("runs concurrent transactions one after another, in the order they started", async () => {
+    const { storage, player } = await seed();
+    const events: string[] = [];
+    let release!: () => void;
+    const released = new Promise<void>(resolve => {
+      release = resolve;
+    });
+
+    const first = storage.transaction(async (tx) => {
+      events.push("first started");
+      await released;
+      await tx.updatePlayer(player.id, { level: 2 });
+      events.push("first finished");
+    });
+    const second = storage.transaction(async (tx) => {
+      events.push("second started");
+      const current = await tx.getPlayer(player.id);
+      await tx.updatePlayer(player.id, { level: current!.level + 1 });
+    });
+    const failing = storage.transaction(async () => {
+      events.push("failing started");
+      throw new Error("nope");
+    });
+    const last = storage.transaction(async () => {
+      events.push("last started");
+    });
+
+    await Promise.resolve();
+    expect(events).toEqual(["first started"]);
+    release();
+    await Promise.all([first, second, expect(failing).rejects.toThrow("nope"), last]);
+
+    expect(events).toEqual(["first started", "first finished", "second started", "failing started", "last started"]);
+    expect((await storage.getPlayer(player.id))!.level).toBe(3);
+  });
+
+  it("rejects starting a transaction on the storage itself from inside one instead of waiting forever", async () => {
+    const { storage, player, bone } = await seed();
+
+    await expect(storage.transaction(async () => {
+      await storage.addToInventory(player.id, bone.id);
+    })).rejects.toThrow(/inside its own transaction/);
+    expect(await storage.getPlayerInventory(player.id)).toEqual([]);
+
+    // The storage is usable again afterwards
+    expect(await storage.addToInventory(player.id, bone.id)).toBe(true);
+  });
+});
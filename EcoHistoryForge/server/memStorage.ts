@@ -0,0 +1,633 @@
+import { randomUUID } from "crypto";
+import { AsyncLocalStorage } from "async_hooks";
+import type {
+  Player,
+  InsertPlayer,
+  ChatMessage,
+  InsertChatMessage,
+  CommunityResources,
+  InsertCommunityResources,
+  CommunityResourceChange,
+  InsertCommunityResourceChange,
+  GameState,
+  InsertGameState,
+  Monster,
+  InsertMonster,
+  LootItem,
+  InsertLootItem,
+  PlayerInventory,
+  WorldLoot,
+  InsertWorldLoot,
+  RedeemCode,
+  InsertRedeemCode,
+  CodeRedemption,
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+import { redeemCodeProblem, type RedeemClaim } from "./redeemCodes";
+import { planAdd, planRemove, type InventoryChanges } from "./inventory";
+
+// How long dropped loot stays in the world, matching the world_loot column default
+const WORLD_LOOT_TTL_MS = 5 * 60 * 1000;
+
+// The table as a transaction sees it: the same rows, but every set or
+// delete first records how to put the previous row back
+function journaledMap<V>(map: Map<string, V>, undo: Array<() => void>): Map<string, V> {
+  const remember = (key: string) => {
+    const existed = map.has(key);
+    const previous = map.get(key);
+    undo.push(() => (existed ? map.set(key, previous as V) : map.delete(key)));
+  };
+  return new Proxy(map, {
+    get(target, property) {
+      if (property === "set") {
+        return (key: string, value: V) => {
+          remember(key);
+          target.set(key, value);
+          return target;
+        };
+      }
+      if (property === "delete") {
+        return (key: string) => {
+          remember(key);
+          return target.delete(key);
+        };
+      }
+      const value = Reflect.get(target, property, target);
+      return typeof value === "function" ? value.bind(target) : value;
+    },
+  });
+}
+
+// Lists are only ever appended to; rolling back takes out what was pushed
+function journaledList<V>(list: V[], undo: Array<() => void>): V[] {
+  return new Proxy(list, {
+    get(target, property, receiver) {
+      if (property === "push") {
+        return (...items: V[]) => {
+          undo.push(() => {
+            for (const item of items) {
+              const index = target.indexOf(item);
+              if (index >= 0) target.splice(index, 1);
+            }
+          });
+          return target.push(...items);
+        };
+      }
+      return Reflect.get(target, property, receiver);
+    },
+  });
+}
+
+// In-memory IStorage used when no Postgres database is configured.
+// Mirrors the column defaults and query semantics of DatabaseStorage so the
+// game behaves the same offline; all data is lost when the process exits.
+export class MemStorage implements IStorage {
+  private players: Map<string, Player> = new Map();
+  private chatMessages: ChatMessage[] = [];
+  private communityResources: Map<string, CommunityResources> = new Map();
+  private communityResourceHistory: CommunityResourceChange[] = [];
+  private gameStates: Map<string, GameState> = new Map();
+  private monsters: Map<string, Monster> = new Map();
+  private lootItems: Map<string, LootItem> = new Map();
+  private playerInventory: Map<string, PlayerInventory> = new Map();
+  private worldLoot: Map<string, WorldLoot> = new Map();
+  private redeemCodes: Map<string, RedeemCode> = new Map();
+  private codeRedemptions: CodeRedemption[] = [];
+  // Transactions run one after another, in the order they were started
+  private transactionQueue: Promise<unknown> = Promise.resolve();
+  // Set while a transaction's work runs, so a call back into this storage's
+  // own transaction from inside it fails instead of waiting on itself forever
+  private runningTransaction = new AsyncLocalStorage<{ finished: boolean }>();
+
+  async transaction<T>(work: (tx: IStorage) => Promise<T>): Promise<T> {
+    return this.runTransaction(work);
+  }
+
+  // Same as transaction, but `tx` keeps its MemStorage type so the methods
+  // here can reach its journaled tables
+  private async runTransaction<T>(work: (tx: MemStorage) => Promise<T>): Promise<T> {
+    if (this.runningTransaction.getStore()?.finished === false) {
+      throw new Error("Storage called from inside its own transaction; go through the tx passed to the callback");
+    }
+
+    const run = async (): Promise<T> => {
+      // Writes through the transaction note how to take themselves back, so a
+      // rollback undoes just those rows and leaves writes made meanwhile by
+      // anyone else alone
+      const undo: Array<() => void> = [];
+      const rollBackTo = (savepoint: number) => undo.splice(savepoint).reverse().forEach(step => step());
+      const tables = Object.fromEntries(
+        Object.entries(this.tables()).map(([name, table]) => [
+          name,
+          { value: Array.isArray(table) ? journaledList(table, undo) : journaledMap(table, undo) },
+        ])
+      );
+      // Nested calls run inline on the same view rather than queueing behind
+      // themselves. Like a savepoint, one that throws takes back only its own writes.
+      const tx: MemStorage = Object.create(this, {
+        ...tables,
+        runTransaction: {
+          value: async <U>(inner: (tx: MemStorage) => Promise<U>): Promise<U> => {
+            const savepoint = undo.length;
+            try {
+              return await inner(tx);
+            } catch (error) {
+              rollBackTo(savepoint);
+              throw error;
+            }
+          },
+        },
+      });
+
+      const state = { finished: false };
+      try {
+        return await this.runningTransaction.run(state, () => work(tx));
+      } catch (error) {
+        rollBackTo(0);
+        throw error;
+      } finally {
+        state.finished = true;
+      }
+    };
+    const result = this.transactionQueue.then(run, run);
+    this.transactionQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  // Transactions already run one at a time, so there's nothing extra to hold
+  async lockPlayer(id: string): Promise<Player | undefined> {
+    return this.getPlayer(id);
+  }
+
+  // Everything a transaction may change, for rolling back
+  private tables(): Record<string, Map<string, unknown> | unknown[]> {
+    return {
+      players: this.players,
+      chatMessages: this.chatMessages,
+      communityResources: this.communityResources,
+      communityResourceHistory: this.communityResourceHistory,
+      gameStates: this.gameStates,
+      monsters: this.monsters,
+      lootItems: this.lootItems,
+      playerInventory: this.playerInventory,
+      worldLoot: this.worldLoot,
+      redeemCodes: this.redeemCodes,
+      codeRedemptions: this.codeRedemptions,
+    };
+  }
+
+  async getPlayer(id: string): Promise<Player | undefined> {
+    return this.players.get(id);
+  }
+
+  async getPlayerByUsername(username: string): Promise<Player | undefined> {
+    return Array.from(this.players.values()).find(p => p.username === username);
+  }
+
+  async createPlayer(insertPlayer: InsertPlayer): Promise<Player> {
+    if (await this.getPlayerByUsername(insertPlayer.username)) {
+      throw new Error(`Username "${insertPlayer.username}" already exists`);
+    }
+
+    const now = new Date();
+    const player: Player = {
+      level: 1,
+      experience: 0,
+      rebirthCycle: 0,
+      health: 1000,
+      maxHealth: 1000,
+      aura: 500,
+      maxAura: 500,
+      hiddenStrength: 0,
+      hiddenAgility: 0,
+      hiddenIntelligence: 0,
+      hiddenEndurance: 0,
+      positionX: 0,
+      positionY: 0,
+      positionZ: 0,
+      rotationY: 0,
+      isInTutorialZone: true,
+      tutorialProgress: 0,
+      unlockedAbilities: [],
+      abilityPoints: 0,
+      abilityCooldowns: {},
+      isAdmin: false,
+      isOnline: false,
+      ...insertPlayer,
+      id: randomUUID(),
+      lastSeen: now,
+      createdAt: now,
+    };
+    this.players.set(player.id, player);
+    return player;
+  }
+
+  async updatePlayer(id: string, updates: Partial<Player>): Promise<Player> {
+    const player = this.players.get(id);
+    if (!player) {
+      throw new Error("Player not found");
+    }
+
+    const updated = { ...player, ...updates, id };
+    this.players.set(id, updated);
+    return updated;
+  }
+
+  async updatePlayers(batch: Array<{ id: string; updates: Partial<Player> }>): Promise<void> {
+    for (const { id, updates } of batch) {
+      // Players deleted since the batch was built are skipped, like a no-op UPDATE
+      if (this.players.has(id)) {
+        await this.updatePlayer(id, updates);
+      }
+    }
+  }
+
+  async updatePlayerPosition(id: string, x: number, y: number, z: number, rotation?: number): Promise<void> {
+    const player = this.players.get(id);
+    if (!player) return;
+
+    const updates: Partial<Player> = { positionX: x, positionY: y, positionZ: z };
+    if (rotation !== undefined) {
+      updates.rotationY = rotation;
+    }
+    this.players.set(id, { ...player, ...updates });
+  }
+
+  async setPlayerOnlineStatus(id: string, isOnline: boolean): Promise<void> {
+    const player = this.players.get(id);
+    if (!player) return;
+
+    this.players.set(id, {
+      ...player,
+      isOnline,
+      lastSeen: isOnline ? player.lastSeen : new Date(),
+    });
+  }
+
+  async getOnlinePlayers(): Promise<Player[]> {
+    return Array.from(this.players.values()).filter(p => p.isOnline);
+  }
+
+  async createChatMessage(insertMessage: InsertChatMessage): Promise<ChatMessage> {
+    const message: ChatMessage = {
+      channel: "tutorial",
+      ...insertMessage,
+      id: randomUUID(),
+      createdAt: new Date(),
+    };
+    this.chatMessages.push(message);
+    return message;
+  }
+
+  async getChatMessages(channel: string, limit: number = 50): Promise<ChatMessage[]> {
+    // Same shape as the DatabaseStorage join: only messages from known players, newest first
+    return this.chatMessages
+      .filter(m => m.channel === channel && this.players.has(m.playerId))
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0))
+      .slice(0, limit)
+      .map(m => ({ ...m, playerName: this.players.get(m.playerId)!.characterName }));
+  }
+
+  async getCommunityResources(playerId: string): Promise<CommunityResources | undefined> {
+    return this.communityResources.get(playerId);
+  }
+
+  async createCommunityResources(insertResources: InsertCommunityResources): Promise<CommunityResources> {
+    const resources: CommunityResources = {
+      food: 0,
+      materials: 0,
+      sustainability: 0,
+      ...insertResources,
+      id: randomUUID(),
+      lastUpdated: new Date(),
+    };
+    this.communityResources.set(resources.playerId, resources);
+    return resources;
+  }
+
+  async updateCommunityResources(playerId: string, updates: Partial<CommunityResources>): Promise<CommunityResources> {
+    const resources = this.communityResources.get(playerId);
+    if (!resources) {
+      throw new Error("Resources not found");
+    }
+
+    const updated = { ...resources, ...updates, playerId, lastUpdated: new Date() };
+    this.communityResources.set(playerId, updated);
+    return updated;
+  }
+
+  async recordCommunityResourceChange(insertChange: InsertCommunityResourceChange): Promise<CommunityResourceChange> {
+    const change: CommunityResourceChange = {
+      food: 0,
+      materials: 0,
+      sustainability: 0,
+      detail: null,
+      ...insertChange,
+      id: randomUUID(),
+      createdAt: new Date(),
+    };
+    this.communityResourceHistory.push(change);
+    return change;
+  }
+
+  async getCommunityResourceHistory(playerId: string, limit: number = 50): Promise<CommunityResourceChange[]> {
+    // Pushed in order, so reversing gives newest first even within the same millisecond
+    return this.communityResourceHistory
+      .filter(change => change.playerId === playerId)
+      .reverse()
+      .slice(0, limit);
+  }
+
+  async getGameState(playerId: string): Promise<GameState | undefined> {
+    return this.gameStates.get(playerId);
+  }
+
+  async createGameState(insertGameState: InsertGameState): Promise<GameState> {
+    const state: GameState = {
+      currentZone: "selha_latna",
+      activeQuests: [],
+      inventory: [],
+      equipment: {},
+      combatState: {},
+      craftingQueue: [],
+      ...insertGameState,
+      id: randomUUID(),
+      lastSaved: new Date(),
+    };
+    this.gameStates.set(state.playerId, state);
+    return state;
+  }
+
+  async updateGameState(playerId: string, updates: Partial<GameState>): Promise<GameState> {
+    const state = this.gameStates.get(playerId);
+    if (!state) {
+      throw new Error("Game state not found");
+    }
+
+    const updated = { ...state, ...updates, playerId, lastSaved: new Date() };
+    this.gameStates.set(playerId, updated);
+    return updated;
+  }
+
+  async createMonster(insertMonster: InsertMonster): Promise<Monster> {
+    const monster: Monster = {
+      zone: "selha_latna",
+      difficultyMultiplier: 1.0,
+      isAlive: true,
+      ...insertMonster,
+      id: randomUUID(),
+      spawnedAt: new Date(),
+    };
+    this.monsters.set(monster.id, monster);
+    return monster;
+  }
+
+  async getMonstersInZone(zone: string): Promise<Monster[]> {
+    return Array.from(this.monsters.values()).filter(m => m.zone === zone && m.isAlive);
+  }
+
+  async updateMonster(id: string, updates: Partial<Monster>): Promise<Monster> {
+    const monster = this.monsters.get(id);
+    if (!monster) {
+      throw new Error("Monster not found");
+    }
+
+    const updated = { ...monster, ...updates, id };
+    this.monsters.set(id, updated);
+    return updated;
+  }
+
+  async updateMonsters(batch: Array<{ id: string; updates: Partial<Monster> }>): Promise<void> {
+    for (const { id, updates } of batch) {
+      if (this.monsters.has(id)) {
+        await this.updateMonster(id, updates);
+      }
+    }
+  }
+
+  async deleteMonster(id: string): Promise<void> {
+    const monster = this.monsters.get(id);
+    if (monster) {
+      this.monsters.set(id, { ...monster, isAlive: false });
+    }
+  }
+
+  async performRebirth(playerId: string): Promise<Player> {
+    const player = await this.lockPlayer(playerId);
+    if (!player) {
+      throw new Error("Player not found");
+    }
+
+    // Same stat accumulation as DatabaseStorage.performRebirth
+    const statGains = Math.floor(player.level * 10);
+
+    return this.updatePlayer(playerId, {
+      level: 1,
+      experience: 0,
+      rebirthCycle: player.rebirthCycle + 1,
+      health: 1000,
+      maxHealth: 1000,
+      aura: 500,
+      maxAura: 500,
+      hiddenStrength: player.hiddenStrength + statGains,
+      hiddenAgility: player.hiddenAgility + statGains,
+      hiddenIntelligence: player.hiddenIntelligence + statGains,
+      hiddenEndurance: player.hiddenEndurance + statGains,
+    });
+  }
+
+  // Loot system implementation
+  async createLootItem(insertItem: InsertLootItem): Promise<LootItem> {
+    const item: LootItem = {
+      rarity: "common",
+      effects: {},
+      value: 1,
+      stackable: true,
+      maxStack: 99,
+      icon: "fas fa-cube",
+      ...insertItem,
+      id: randomUUID(),
+      createdAt: new Date(),
+    };
+    this.lootItems.set(item.id, item);
+    return item;
+  }
+
+  async getLootItem(id: string): Promise<LootItem | undefined> {
+    return this.lootItems.get(id);
+  }
+
+  async getAllLootItems(): Promise<LootItem[]> {
+    return Array.from(this.lootItems.values());
+  }
+
+  // Player inventory implementation
+  async getPlayerInventory(playerId: string): Promise<(PlayerInventory & { item: LootItem })[]> {
+    return Array.from(this.playerInventory.values())
+      .filter(entry => entry.playerId === playerId && this.lootItems.has(entry.itemId))
+      .map(entry => ({ ...entry, item: this.lootItems.get(entry.itemId)! }));
+  }
+
+  async addToInventory(playerId: string, itemId: string, quantity: number = 1): Promise<boolean> {
+    const item = this.lootItems.get(itemId);
+    if (!item) {
+      return false;
+    }
+
+    return this.transaction(async (tx) => {
+      const plan = planAdd(await tx.getPlayerInventory(playerId), item, quantity);
+      if (!plan.success) {
+        return false;
+      }
+      await tx.applyInventoryChanges(playerId, plan.changes);
+      return true;
+    });
+  }
+
+  async removeFromInventory(playerId: string, itemId: string, quantity: number = 1): Promise<boolean> {
+    return this.transaction(async (tx) => {
+      const plan = planRemove(await tx.getPlayerInventory(playerId), itemId, quantity);
+      if (!plan.success) {
+        return false;
+      }
+      await tx.applyInventoryChanges(playerId, plan.changes);
+      return true;
+    });
+  }
+
+  async applyInventoryChanges(playerId: string, changes: InventoryChanges): Promise<void> {
+    for (const id of changes.deletes) {
+      if (this.playerInventory.get(id)?.playerId === playerId) {
+        this.playerInventory.delete(id);
+      }
+    }
+    for (const { id, ...updates } of changes.updates) {
+      const entry = this.playerInventory.get(id);
+      if (entry?.playerId === playerId) {
+        this.playerInventory.set(id, { ...entry, ...updates });
+      }
+    }
+    for (const insert of changes.inserts) {
+      const entry: PlayerInventory = { id: randomUUID(), playerId, ...insert, acquiredAt: new Date() };
+      this.playerInventory.set(entry.id, entry);
+    }
+  }
+
+  // World loot implementation
+  async createWorldLoot(insertLoot: InsertWorldLoot): Promise<WorldLoot> {
+    const now = new Date();
+    const loot: WorldLoot = {
+      quantity: 1,
+      zone: "selha_latna",
+      droppedBy: null,
+      ownerId: null,
+      partyId: null,
+      ownedUntil: null,
+      ...insertLoot,
+      id: randomUUID(),
+      spawnedAt: now,
+      expiresAt: new Date(now.getTime() + WORLD_LOOT_TTL_MS),
+    };
+    this.worldLoot.set(loot.id, loot);
+    return loot;
+  }
+
+  async getWorldLootInZone(zone: string): Promise<(WorldLoot & { item: LootItem })[]> {
+    return Array.from(this.worldLoot.values())
+      .filter(loot => loot.zone === zone && !this.isExpired(loot) && this.lootItems.has(loot.itemId))
+      .map(loot => ({ ...loot, item: this.lootItems.get(loot.itemId)! }));
+  }
+
+  async getWorldLoot(lootId: string): Promise<(WorldLoot & { item: LootItem }) | undefined> {
+    const loot = this.worldLoot.get(lootId);
+    const item = loot && this.lootItems.get(loot.itemId);
+    if (!loot || !item || this.isExpired(loot)) {
+      return undefined;
+    }
+    return { ...loot, item };
+  }
+
+  async updateWorldLoot(lootId: string, updates: Partial<Pick<WorldLoot, "ownerId" | "partyId" | "ownedUntil">>): Promise<void> {
+    const loot = this.worldLoot.get(lootId);
+    if (loot) {
+      this.worldLoot.set(lootId, { ...loot, ...updates });
+    }
+  }
+
+  async collectWorldLoot(playerId: string, lootId: string): Promise<boolean> {
+    return this.runTransaction(async (tx) => {
+      const loot = tx.worldLoot.get(lootId);
+      if (!loot || tx.isExpired(loot)) {
+        return false;
+      }
+      if (!(await tx.addToInventory(playerId, loot.itemId, loot.quantity))) {
+        return false;
+      }
+      tx.worldLoot.delete(lootId);
+      return true;
+    });
+  }
+
+  async cleanupExpiredLoot(): Promise<void> {
+    this.worldLoot.forEach((loot, id) => {
+      if (this.isExpired(loot)) {
+        this.worldLoot.delete(id);
+      }
+    });
+  }
+
+  // Redeem codes implementation
+  async createRedeemCode(insertCode: InsertRedeemCode): Promise<RedeemCode> {
+    if (Array.from(this.redeemCodes.values()).some(existing => existing.code === insertCode.code)) {
+      throw new Error(`Code "${insertCode.code}" already exists`);
+    }
+
+    const code: RedeemCode = {
+      rewards: [],
+      maxUses: null,
+      expiresAt: null,
+      createdBy: null,
+      ...insertCode,
+      id: randomUUID(),
+      uses: 0,
+      revokedAt: null,
+      createdAt: new Date(),
+    };
+    this.redeemCodes.set(code.id, code);
+    return code;
+  }
+
+  async getRedeemCodes(): Promise<RedeemCode[]> {
+    return Array.from(this.redeemCodes.values())
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+  }
+
+  async revokeRedeemCode(id: string): Promise<RedeemCode | undefined> {
+    const code = this.redeemCodes.get(id);
+    if (!code) return undefined;
+
+    const revoked = { ...code, revokedAt: code.revokedAt ?? new Date() };
+    this.redeemCodes.set(id, revoked);
+    return revoked;
+  }
+
+  async claimRedeemCode(playerId: string, codeText: string): Promise<RedeemClaim> {
+    const code = Array.from(this.redeemCodes.values()).find(candidate => candidate.code === codeText);
+    if (code && this.codeRedemptions.some(redemption => redemption.codeId === code.id && redemption.playerId === playerId)) {
+      return { success: false, message: "You have already redeemed this code" };
+    }
+    const problem = redeemCodeProblem(code);
+    if (!code || problem) {
+      return { success: false, message: problem ?? "Invalid code" };
+    }
+
+    this.codeRedemptions.push({ id: randomUUID(), codeId: code.id, playerId, redeemedAt: new Date() });
+    const claimed = { ...code, uses: code.uses + 1 };
+    this.redeemCodes.set(code.id, claimed);
+    return { success: true, code: claimed };
+  }
+
+  private isExpired(loot: WorldLoot): boolean {
+    return !!loot.expiresAt && loot.expiresAt.getTime() <= Date.now();
+  }
+}
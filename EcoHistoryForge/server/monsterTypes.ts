@@ -0,0 +1,97 @@
+import type { StatusEffectType } from "@shared/statusEffects";
+
+export type MonsterAttackKind = "melee" | "ranged";
+
+// A status effect an attack sometimes leaves on the player it hits
+export interface MonsterOnHit {
+  type: StatusEffectType;
+  magnitude: number;
+  durationMs: number;
+  chance: number; // 0-1 per hit
+}
+
+export interface MonsterAttack {
+  kind: MonsterAttackKind;
+  range: number;
+  baseDamage: number;
+  damagePerLevel: number;
+  cooldownMs: number;
+  onHit?: MonsterOnHit;
+}
+
+export interface MonsterTypeDefinition {
+  name: string;
+  moveSpeed: number; // units per second while chasing; wandering is half speed
+  aggroRadius: number; // players closer than this get attacked
+  leashRadius: number; // give up and walk home past this distance from spawn
+  wanderRadius: number; // idle wandering stays this close to spawn
+  attack: MonsterAttack;
+}
+
+export const MONSTER_TYPES: Record<string, MonsterTypeDefinition> = {
+  "Stone Golem": {
+    name: "Stone Golem",
+    moveSpeed: 4,
+    aggroRadius: 12,
+    leashRadius: 30,
+    wanderRadius: 5,
+    attack: {
+      kind: "melee",
+      range: 3,
+      baseDamage: 20,
+      damagePerLevel: 2,
+      cooldownMs: 3000,
+      onHit: { type: "stun", magnitude: 1, durationMs: 1000, chance: 0.15 },
+    },
+  },
+  "Shadow Wolf": {
+    name: "Shadow Wolf",
+    moveSpeed: 12,
+    aggroRadius: 20,
+    leashRadius: 45,
+    wanderRadius: 15,
+    attack: { kind: "melee", range: 2.5, baseDamage: 8, damagePerLevel: 1, cooldownMs: 1200 },
+  },
+  "Crystal Spider": {
+    name: "Crystal Spider",
+    moveSpeed: 7,
+    aggroRadius: 18,
+    leashRadius: 35,
+    wanderRadius: 10,
+    attack: {
+      kind: "ranged",
+      range: 12,
+      baseDamage: 10,
+      damagePerLevel: 1.2,
+      cooldownMs: 2000,
+      // Crystal venom burns and stacks with repeated bites
+      onHit: { type: "burn", magnitude: 4, durationMs: 5000, chance: 0.3 },
+    },
+  },
+  "Wind Elemental": {
+    name: "Wind Elemental",
+    moveSpeed: 9,
+    aggroRadius: 25,
+    leashRadius: 50,
+    wanderRadius: 20,
+    attack: {
+      kind: "ranged",
+      range: 18,
+      baseDamage: 12,
+      damagePerLevel: 1.5,
+      cooldownMs: 2500,
+      onHit: { type: "slow", magnitude: 0.4, durationMs: 3000, chance: 0.25 },
+    },
+  },
+};
+
+export const MONSTER_TYPE_NAMES = Object.keys(MONSTER_TYPES);
+
+export function getMonsterType(name: string): MonsterTypeDefinition {
+  // Monsters saved before types existed (or renamed ones) behave like golems
+  return MONSTER_TYPES[name] ?? MONSTER_TYPES["Stone Golem"];
+}
+
+export function getAttackDamage(type: MonsterTypeDefinition, level: number, difficultyMultiplier: number): number {
+  return Math.floor((type.attack.baseDamage + type.attack.damagePerLevel * level) * difficultyMultiplier);
+}
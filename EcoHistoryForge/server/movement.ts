@@ -0,0 +1,139 @@
+import type { Player } from "@shared/schema";
+
+export interface Position {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface MoveResult {
+  position: Position;
+  rotation?: number;
+  // True when the requested position was rejected or clamped
+  corrected: boolean;
+}
+
+interface TrackedPlayer {
+  position: Position;
+  rotation: number;
+  acceptedAt: number;
+  hiddenAgility: number;
+  // From status effects such as slow; 1 is normal speed
+  speedMultiplier: number;
+}
+
+// The tutorial zone is a 200x200 square centred on the origin
+export const ZONE_HALF_SIZE = 100;
+const MAX_HEIGHT = 50;
+
+// Units per second; the client walks 0.5 units per frame at ~60fps
+const BASE_MAX_SPEED = 30;
+// Hidden agility adds 1% speed per 100 points, up to double speed
+const AGILITY_PER_SPEED_PERCENT = 100;
+const MAX_AGILITY_MULTIPLIER = 2;
+// Headroom for frame jitter and messages that arrive bunched together
+const SPEED_TOLERANCE = 1.25;
+const DISTANCE_SLACK = 1;
+// Standing still doesn't bank movement: a long gap allows at most one second of travel
+const MAX_ELAPSED_MS = 1000;
+
+export function maxSpeedFor(hiddenAgility: number): number {
+  const multiplier = Math.min(MAX_AGILITY_MULTIPLIER, 1 + hiddenAgility / AGILITY_PER_SPEED_PERCENT / 100);
+  return BASE_MAX_SPEED * multiplier;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function isFinitePosition(position: Partial<Position>): position is Position {
+  return [position.x, position.y, position.z].every(v => typeof v === "number" && Number.isFinite(v));
+}
+
+// Keeps the last accepted position of every connected player and decides
+// whether a requested move is possible at that player's maximum speed.
+export class MovementValidator {
+  private players: Map<string, TrackedPlayer> = new Map();
+
+  track(player: Player, now: number = Date.now()): void {
+    this.players.set(player.id, {
+      position: { x: player.positionX, y: player.positionY, z: player.positionZ },
+      rotation: player.rotationY,
+      acceptedAt: now,
+      hiddenAgility: player.hiddenAgility,
+      // Re-tracking (e.g. after a respawn teleport) doesn't lift an active slow
+      speedMultiplier: this.players.get(player.id)?.speedMultiplier ?? 1,
+    });
+  }
+
+  forget(playerId: string): void {
+    this.players.delete(playerId);
+  }
+
+  setHiddenAgility(playerId: string, hiddenAgility: number): void {
+    const tracked = this.players.get(playerId);
+    if (tracked) {
+      tracked.hiddenAgility = hiddenAgility;
+    }
+  }
+
+  setSpeedMultiplier(playerId: string, speedMultiplier: number): void {
+    const tracked = this.players.get(playerId);
+    if (tracked) {
+      tracked.speedMultiplier = speedMultiplier;
+    }
+  }
+
+  getPosition(playerId: string): Position | undefined {
+    return this.players.get(playerId)?.position;
+  }
+
+  validate(playerId: string, requested: Partial<Position>, rotation?: number, now: number = Date.now()): MoveResult | undefined {
+    const tracked = this.players.get(playerId);
+    if (!tracked) {
+      return undefined;
+    }
+
+    const nextRotation = typeof rotation === "number" && Number.isFinite(rotation) ? rotation : tracked.rotation;
+
+    if (!isFinitePosition(requested)) {
+      return { position: { ...tracked.position }, rotation: tracked.rotation, corrected: true };
+    }
+
+    let corrected = false;
+    let target: Position = {
+      x: clamp(requested.x, -ZONE_HALF_SIZE, ZONE_HALF_SIZE),
+      y: clamp(requested.y, 0, MAX_HEIGHT),
+      z: clamp(requested.z, -ZONE_HALF_SIZE, ZONE_HALF_SIZE),
+    };
+    if (target.x !== requested.x || target.y !== requested.y || target.z !== requested.z) {
+      corrected = true;
+    }
+
+    const elapsedSeconds = Math.min(MAX_ELAPSED_MS, Math.max(0, now - tracked.acceptedAt)) / 1000;
+    const maxSpeed = maxSpeedFor(tracked.hiddenAgility) * tracked.speedMultiplier;
+    const allowedDistance = maxSpeed * elapsedSeconds * SPEED_TOLERANCE + DISTANCE_SLACK;
+
+    const dx = target.x - tracked.position.x;
+    const dy = target.y - tracked.position.y;
+    const dz = target.z - tracked.position.z;
+    const distance = Math.sqrt(dx * dx + dy * dy + dz * dz);
+
+    if (distance > allowedDistance) {
+      // Too fast: move as far as the player legitimately could in that direction
+      const scale = allowedDistance / distance;
+      target = {
+        x: tracked.position.x + dx * scale,
+        y: tracked.position.y + dy * scale,
+        z: tracked.position.z + dz * scale,
+      };
+      corrected = true;
+    }
+
+    tracked.position = target;
+    tracked.rotation = nextRotation;
+    tracked.acceptedAt = now;
+
+    return { position: { ...target }, rotation: nextRotation, corrected };
+  }
+}
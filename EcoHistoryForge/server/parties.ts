@@ -0,0 +1,135 @@
+import { randomUUID } from "crypto";
+import { MAX_PARTY_SIZE, type PartyLootMode } from "@shared/party";
+
+export interface Party {
+  id: string;
+  leaderId: string;
+  memberIds: string[];
+  lootMode: PartyLootMode;
+  // Index into memberIds of whoever gets the next round robin drop
+  nextLooter: number;
+}
+
+export interface PendingInvite {
+  fromId: string;
+  expiresAt: number;
+}
+
+export interface PartyChange {
+  success: boolean;
+  message: string;
+  // Everyone whose view of the party changed, for telling their clients
+  affected: string[];
+}
+
+const INVITE_TTL_MS = 60 * 1000;
+
+// Keeps track of parties and invites. A party is formed when someone accepts
+// an invite from a player who isn't in one yet, with the inviter as leader.
+export class PartyManager {
+  private parties: Map<string, Party> = new Map();
+  private memberships: Map<string, string> = new Map(); // playerId -> partyId
+  private invites: Map<string, PendingInvite[]> = new Map(); // inviteeId -> invites
+
+  partyOf(playerId: string): Party | undefined {
+    const partyId = this.memberships.get(playerId);
+    return partyId ? this.parties.get(partyId) : undefined;
+  }
+
+  get(partyId: string): Party | undefined {
+    return this.parties.get(partyId);
+  }
+
+  invitesFor(playerId: string, now: number = Date.now()): PendingInvite[] {
+    const live = (this.invites.get(playerId) ?? []).filter(invite => invite.expiresAt > now);
+    this.invites.set(playerId, live);
+    return live;
+  }
+
+  invite(fromId: string, toId: string, now: number = Date.now()): PartyChange {
+    if (fromId === toId) return { success: false, message: "You can't invite yourself", affected: [] };
+    if (this.memberships.has(toId)) return { success: false, message: "They are already in a party", affected: [] };
+
+    const party = this.partyOf(fromId);
+    if (party && party.leaderId !== fromId) {
+      return { success: false, message: "Only the party leader can invite", affected: [] };
+    }
+    if (party && party.memberIds.length >= MAX_PARTY_SIZE) {
+      return { success: false, message: `Parties are limited to ${MAX_PARTY_SIZE} players`, affected: [] };
+    }
+
+    const invites = this.invitesFor(toId, now).filter(invite => invite.fromId !== fromId);
+    this.invites.set(toId, [...invites, { fromId, expiresAt: now + INVITE_TTL_MS }]);
+    return { success: true, message: "Invite sent", affected: [toId] };
+  }
+
+  accept(playerId: string, fromId: string, now: number = Date.now()): PartyChange {
+    const invite = this.invitesFor(playerId, now).find(candidate => candidate.fromId === fromId);
+    if (!invite) return { success: false, message: "That invite has expired", affected: [] };
+    if (this.memberships.has(playerId)) return { success: false, message: "Leave your party first", affected: [] };
+
+    let party = this.partyOf(fromId);
+    if (party && party.leaderId !== fromId) {
+      return { success: false, message: "They are no longer leading a party", affected: [] };
+    }
+    if (party && party.memberIds.length >= MAX_PARTY_SIZE) {
+      return { success: false, message: "That party is full", affected: [] };
+    }
+    if (!party) {
+      party = { id: randomUUID(), leaderId: fromId, memberIds: [fromId], lootMode: "shared", nextLooter: 0 };
+      this.parties.set(party.id, party);
+      this.memberships.set(fromId, party.id);
+    }
+
+    party.memberIds.push(playerId);
+    this.memberships.set(playerId, party.id);
+    this.invites.delete(playerId);
+    return { success: true, message: "Joined the party", affected: [...party.memberIds] };
+  }
+
+  decline(playerId: string, fromId: string): PartyChange {
+    const invites = this.invites.get(playerId) ?? [];
+    this.invites.set(playerId, invites.filter(invite => invite.fromId !== fromId));
+    return { success: true, message: "Invite declined", affected: [playerId] };
+  }
+
+  // The leader's role passes to the longest-standing member; a party of one disbands
+  leave(playerId: string): PartyChange {
+    const party = this.partyOf(playerId);
+    if (!party) return { success: false, message: "You aren't in a party", affected: [] };
+
+    const affected = [...party.memberIds];
+    party.memberIds = party.memberIds.filter(id => id !== playerId);
+    this.memberships.delete(playerId);
+    if (party.memberIds.length <= 1) {
+      party.memberIds.forEach(id => this.memberships.delete(id));
+      this.parties.delete(party.id);
+      return { success: true, message: "The party has disbanded", affected };
+    }
+
+    if (party.leaderId === playerId) {
+      party.leaderId = party.memberIds[0];
+    }
+    party.nextLooter %= party.memberIds.length;
+    return { success: true, message: "Left the party", affected };
+  }
+
+  setLootMode(playerId: string, mode: PartyLootMode): PartyChange {
+    const party = this.partyOf(playerId);
+    if (!party) return { success: false, message: "You aren't in a party", affected: [] };
+    if (party.leaderId !== playerId) return { success: false, message: "Only the party leader can change loot rules", affected: [] };
+
+    party.lootMode = mode;
+    return { success: true, message: `Loot mode set to ${mode.replace("_", " ")}`, affected: [...party.memberIds] };
+  }
+
+  // The member whose turn it is for a round robin drop, skipping anyone `skip` rejects
+  takeNextLooter(party: Party, skip: (playerId: string) => boolean = () => false): string {
+    for (let tried = 0; tried < party.memberIds.length; tried++) {
+      const candidate = party.memberIds[party.nextLooter % party.memberIds.length];
+      party.nextLooter = (party.nextLooter + 1) % party.memberIds.length;
+      if (!skip(candidate)) return candidate;
+    }
+    return party.leaderId;
+  }
+}
@@ -0,0 +1,44 @@
+import type { RedeemCode } from "@shared/schema";
+import { redeemRewardSchema, type RedeemReward } from "@shared/redeemCodes";
+import { STATUS_EFFECTS } from "@shared/statusEffects";
+
+export type RedeemClaim =
+  | { success: true; code: RedeemCode }
+  | { success: false; message: string };
+
+// Why the code can't be redeemed by anyone right now, or null if it can.
+// Whether this player already redeemed it is checked separately.
+export function redeemCodeProblem(code: RedeemCode | undefined, now: Date = new Date()): string | null {
+  if (!code || code.revokedAt) return "Invalid code";
+  if (code.expiresAt && code.expiresAt.getTime() <= now.getTime()) return "This code has expired";
+  if (code.maxUses !== null && code.uses >= code.maxUses) return "This code has been fully redeemed";
+  return null;
+}
+
+// The rewards column is untyped jsonb; entries that don't parse are skipped
+export function rewardsOf(code: RedeemCode): RedeemReward[] {
+  const raw = Array.isArray(code.rewards) ? code.rewards : [];
+  return raw.flatMap(entry => {
+    const parsed = redeemRewardSchema.safeParse(entry);
+    return parsed.success ? [parsed.data] : [];
+  });
+}
+
+export function describeReward(reward: RedeemReward): string {
+  switch (reward.type) {
+    case "item":
+      return reward.quantity > 1 ? `${reward.quantity}x ${reward.item}` : reward.item;
+    case "status_effect": {
+      const name = STATUS_EFFECTS[reward.effect].name;
+      if (reward.durationMs === null) return name;
+      return reward.durationMs < 60000
+        ? `${name} for ${Math.round(reward.durationMs / 1000)}s`
+        : `${name} for ${Math.round(reward.durationMs / 60000)} min`;
+    }
+    case "resources":
+      return [
+        reward.food > 0 ? `${reward.food} food` : null,
+        reward.materials > 0 ? `${reward.materials} materials` : null,
+      ].filter(Boolean).join(" and ");
+  }
+}
@@ -1,77 +1,55 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
+import type { Store } from "express-session";
 import { createServer, type Server } from "http";
 import { WebSocketServer, WebSocket } from "ws";
-import { storage } from "./storage";
-import { insertPlayerSchema, insertChatMessageSchema } from "@shared/schema";
+import type { IStorage } from "./storage";
 import { GameEngine } from "./gameEngine.js";
+import { MovementValidator } from "./movement";
+import { resolveDeathPenalty } from "./death";
+import { resolveAbilityRebirthRule } from "./abilityProgression";
+import { resolveLootOwnershipMs } from "./lootRules";
+import { setupAuth, requireAuth, requireAdmin, createSessionMiddleware, toPublicPlayer, promoteAdmins, resolveAdminUsernames } from "./auth";
+import { createRedeemCodeSchema } from "@shared/redeemCodes";
+import { EQUIPMENT_SLOTS } from "@shared/equipment";
+import { PARTY_LOOT_MODES, type LootRollChoice } from "@shared/party";
+import { LOGGED_OUT_CLOSE_CODE, SESSION_REPLACED_CLOSE_CODE, type SocketErrorCode, type SocketErrorPayload } from "@shared/socket";
 
 interface AuthenticatedWebSocket extends WebSocket {
   playerId?: string;
 }
 
-export async function registerRoutes(app: Express): Promise<Server> {
+export async function registerRoutes(app: Express, storage: IStorage, sessionStore: Store): Promise<Server> {
   const httpServer = createServer(app);
-  const gameEngine = new GameEngine(storage);
-  
-  // WebSocket server for real-time multiplayer
-  const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
-  
-  // Player authentication and registration
-  app.post("/api/auth/register", async (req, res) => {
-    try {
-      const userData = insertPlayerSchema.parse(req.body);
-      
-      // Check if username exists
-      const existingPlayer = await storage.getPlayerByUsername(userData.username);
-      if (existingPlayer) {
-        return res.status(409).json({ message: "Username already exists" });
-      }
-      
-      const player = await storage.createPlayer(userData);
-      
-      // Create initial game state and resources
-      await storage.createGameState({
-        playerId: player.id,
-        currentZone: "selha_latna",
-        activeQuests: [],
-        inventory: [],
-        equipment: {},
-        combatState: {},
-      });
-      
-      await storage.createCommunityResources({
-        playerId: player.id,
-        food: 100,
-        materials: 50,
-        sustainability: 50,
-      });
-      
-      res.json({ player });
-    } catch (error: any) {
-      res.status(400).json({ message: error.message });
-    }
+  const sessionMiddleware = createSessionMiddleware(sessionStore);
+  const gameEngine = new GameEngine(storage, {
+    deathPenalty: resolveDeathPenalty(),
+    abilityRebirthRule: resolveAbilityRebirthRule(),
+    lootOwnershipMs: resolveLootOwnershipMs(),
   });
+  const movement = new MovementValidator();
   
-  app.post("/api/auth/login", async (req, res) => {
-    try {
-      const { username, password } = req.body;
-      
-      const player = await storage.getPlayerByUsername(username);
-      if (!player || player.password !== password) {
-        return res.status(401).json({ message: "Invalid credentials" });
+  // WebSocket server for real-time multiplayer, upgraded manually so the session is available
+  const wss = new WebSocketServer({ noServer: true });
+  const playerSockets = new Map<string, AuthenticatedWebSocket>();
+
+  const broadcast = (message: { type: string; data: unknown }, except?: WebSocket) => {
+    const payload = JSON.stringify(message);
+    wss.clients.forEach((client) => {
+      if (client !== except && client.readyState === WebSocket.OPEN) {
+        client.send(payload);
       }
-      
-      await storage.setPlayerOnlineStatus(player.id, true);
-      res.json({ player });
-    } catch (error: any) {
-      res.status(500).json({ message: error.message });
-    }
-  });
+    });
+  };
+  
+  // Player authentication and sessions
+  await promoteAdmins(storage, resolveAdminUsernames());
+  setupAuth(app, storage, sessionMiddleware, gameEngine, (playerId) => logOutSocket(playerId));
+  const authenticated = requireAuth(gameEngine);
   
   // Game state endpoints
-  app.get("/api/game/state/:playerId", async (req, res) => {
+  app.get("/api/game/state", authenticated, async (req, res) => {
     try {
-      const gameState = await storage.getGameState(req.params.playerId);
+      const gameState = await storage.getGameState(req.player!.id);
       if (!gameState) {
         return res.status(404).json({ message: "Game state not found" });
       }
@@ -81,9 +59,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.get("/api/game/resources/:playerId", async (req, res) => {
+  app.get("/api/game/resources", authenticated, async (req, res) => {
     try {
-      const resources = await storage.getCommunityResources(req.params.playerId);
+      const resources = await gameEngine.getCommunityResources(req.player!.id);
       if (!resources) {
         return res.status(404).json({ message: "Resources not found" });
       }
@@ -92,31 +70,59 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.status(500).json({ message: error.message });
     }
   });
-  
-  app.post("/api/game/rebirth/:playerId", async (req, res) => {
+
+  // Turns inventory items into community food or materials
+  app.post("/api/game/resources/contribute", authenticated, async (req, res) => {
     try {
-      const player = await storage.getPlayer(req.params.playerId);
-      if (!player) {
-        return res.status(404).json({ message: "Player not found" });
+      const { itemId, quantity = 1 } = req.body;
+      const playerId = req.player!.id;
+      if (gameEngine.isPlayerDead(playerId)) {
+        return res.status(409).json({ message: "You are dead" });
       }
+      if (typeof itemId !== "string") {
+        return res.status(400).json({ message: "itemId is required" });
+      }
+      const result = await gameEngine.contributeResources(playerId, itemId, quantity);
+      if (!result.success) {
+        return res.status(400).json({ message: result.message });
+      }
+      res.json({ message: result.message, resources: await gameEngine.getCommunityResources(playerId) });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  app.post("/api/game/rebirth", authenticated, async (req, res) => {
+    try {
+      const player = req.player!;
       
       if (player.level < 100) {
         return res.status(400).json({ message: "Must reach level 100 to rebirth" });
       }
       
-      const reborntPlayer = await storage.performRebirth(player.id);
+      // The level is checked again under the row lock so two requests can't
+      // both rebirth the same character
+      const reborntPlayer = await gameEngine.withPersistedPlayer(player.id, () => storage.transaction(async (tx) => {
+        const locked = await tx.lockPlayer(player.id);
+        if (!locked || locked.level < 100) return undefined;
+        const reborn = await tx.performRebirth(player.id);
+        return tx.updatePlayer(player.id, {
+          ...gameEngine.abilitiesAfterRebirth(locked),
+          ...(await gameEngine.equipmentBonusesAfterRebirth(reborn)),
+        });
+      }));
+      if (!reborntPlayer) {
+        return res.status(400).json({ message: "Must reach level 100 to rebirth" });
+      }
+      movement.setHiddenAgility(player.id, reborntPlayer.hiddenAgility);
       
       // Broadcast rebirth to other players
-      wss.clients.forEach((client) => {
-        if (client.readyState === WebSocket.OPEN) {
-          client.send(JSON.stringify({
-            type: 'player_rebirth',
-            data: { playerId: player.id, newCycle: reborntPlayer.rebirthCycle }
-          }));
-        }
+      broadcast({
+        type: 'player_rebirth',
+        data: { playerId: player.id, newCycle: reborntPlayer.rebirthCycle }
       });
       
-      res.json({ player: reborntPlayer });
+      res.json({ player: toPublicPlayer(reborntPlayer) });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
@@ -132,44 +138,257 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Simulation tick timing, for spotting a loop that can't keep up
+  app.get("/api/engine/metrics", (_req, res) => {
+    res.json(gameEngine.getMetrics());
+  });
+  
   // Online players
   app.get("/api/players/online", async (req, res) => {
     try {
       const players = await storage.getOnlinePlayers();
-      res.json(players);
+      res.json(players.map(toPublicPlayer));
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
   // Inventory endpoints
-  app.get("/api/inventory/:playerId", async (req, res) => {
+  app.get("/api/inventory", authenticated, async (req, res) => {
     try {
-      const inventory = await storage.getPlayerInventory(req.params.playerId);
+      const inventory = await storage.getPlayerInventory(req.player!.id);
       res.json(inventory);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.post("/api/inventory/use/:playerId", async (req, res) => {
+  app.post("/api/inventory/use", authenticated, async (req, res) => {
     try {
       const { itemId, quantity = 1 } = req.body;
-      const result = await storage.useItem(req.params.playerId, itemId, quantity);
-      
-      if (result.success) {
-        res.json({ 
-          message: `Item used successfully`, 
-          effects: result.effects 
-        });
-      } else {
-        res.status(400).json({ message: "Could not use item" });
+      const playerId = req.player!.id;
+      if (gameEngine.isPlayerDead(playerId)) {
+        return res.status(409).json({ message: "You are dead" });
+      }
+      if (typeof itemId !== "string") {
+        return res.status(400).json({ message: "itemId is required" });
+      }
+      const result = await gameEngine.useItem(playerId, itemId, quantity);
+      if (!result.success) {
+        return res.status(400).json({ message: result.message });
       }
+      res.json({ message: result.message, effects: result.effects });
     } catch (error: any) {
-      res.status(400).json({ message: error.message });
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Slots and stacks: entryId is a playerInventory row, slot counts from 0
+  app.post("/api/inventory/move", authenticated, async (req, res) => {
+    try {
+      const { entryId, slot } = req.body;
+      if (typeof entryId !== "string" || !Number.isInteger(slot)) {
+        return res.status(400).json({ message: "entryId and slot are required" });
+      }
+      if (gameEngine.isPlayerDead(req.player!.id)) {
+        return res.status(409).json({ message: "You are dead" });
+      }
+
+      const result = await gameEngine.moveInventoryItem(req.player!.id, entryId, slot);
+      if (!result.success) {
+        return res.status(400).json({ message: result.message });
+      }
+      res.json({ message: result.message });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/inventory/split", authenticated, async (req, res) => {
+    try {
+      const { entryId, quantity, slot } = req.body;
+      if (typeof entryId !== "string" || !Number.isInteger(quantity) || (slot !== undefined && !Number.isInteger(slot))) {
+        return res.status(400).json({ message: "entryId and a whole quantity are required" });
+      }
+      if (gameEngine.isPlayerDead(req.player!.id)) {
+        return res.status(409).json({ message: "You are dead" });
+      }
+
+      const result = await gameEngine.splitInventoryStack(req.player!.id, entryId, quantity, slot);
+      if (!result.success) {
+        return res.status(400).json({ message: result.message });
+      }
+      res.json({ message: result.message });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/inventory/merge", authenticated, async (req, res) => {
+    try {
+      const { fromId, intoId } = req.body;
+      if (typeof fromId !== "string" || typeof intoId !== "string") {
+        return res.status(400).json({ message: "fromId and intoId are required" });
+      }
+      if (gameEngine.isPlayerDead(req.player!.id)) {
+        return res.status(409).json({ message: "You are dead" });
+      }
+
+      const result = await gameEngine.mergeInventoryStacks(req.player!.id, fromId, intoId);
+      if (!result.success) {
+        return res.status(400).json({ message: result.message });
+      }
+      res.json({ message: result.message });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
     }
   });
 
+  app.post("/api/inventory/drop", authenticated, async (req, res) => {
+    try {
+      const { entryId, quantity = 1 } = req.body;
+      if (typeof entryId !== "string" || !Number.isInteger(quantity)) {
+        return res.status(400).json({ message: "entryId and a whole quantity are required" });
+      }
+      if (gameEngine.isPlayerDead(req.player!.id)) {
+        return res.status(409).json({ message: "You are dead" });
+      }
+
+      const result = await gameEngine.dropInventoryItem(req.player!.id, entryId, quantity);
+      if (!result.success) {
+        return res.status(400).json({ message: result.message });
+      }
+      res.json({ message: result.message });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Equipment: what's in each slot and what it all adds up to
+  app.get("/api/equipment", authenticated, async (req, res) => {
+    try {
+      res.json(await gameEngine.getEquipment(req.player!.id));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/equipment/equip", authenticated, async (req, res) => {
+    try {
+      const { itemId } = req.body;
+      if (typeof itemId !== "string") {
+        return res.status(400).json({ message: "itemId is required" });
+      }
+      if (gameEngine.isPlayerDead(req.player!.id)) {
+        return res.status(409).json({ message: "You are dead" });
+      }
+
+      const result = await gameEngine.equipItem(req.player!.id, itemId);
+      if (!result.success) {
+        return res.status(400).json({ message: result.message });
+      }
+      res.json({ message: result.message, equipment: await gameEngine.getEquipment(req.player!.id) });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/equipment/unequip", authenticated, async (req, res) => {
+    try {
+      const { slot } = req.body;
+      if (!EQUIPMENT_SLOTS.includes(slot)) {
+        return res.status(400).json({ message: `slot must be one of ${EQUIPMENT_SLOTS.join(", ")}` });
+      }
+      if (gameEngine.isPlayerDead(req.player!.id)) {
+        return res.status(409).json({ message: "You are dead" });
+      }
+
+      const result = await gameEngine.unequipItem(req.player!.id, slot);
+      if (!result.success) {
+        return res.status(400).json({ message: result.message });
+      }
+      res.json({ message: result.message, equipment: await gameEngine.getEquipment(req.player!.id) });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Recipes from shared/recipes.json and the player's crafting queue
+  app.get("/api/craft", authenticated, async (req, res) => {
+    try {
+      res.json(await gameEngine.getCrafting(req.player!.id));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/craft", authenticated, async (req, res) => {
+    try {
+      const { recipeId, count = 1 } = req.body;
+      if (typeof recipeId !== "string") {
+        return res.status(400).json({ message: "recipeId is required" });
+      }
+      if (gameEngine.isPlayerDead(req.player!.id)) {
+        return res.status(409).json({ message: "You are dead" });
+      }
+
+      const result = await gameEngine.startCraft(req.player!.id, recipeId, count);
+      if (!result.success) {
+        return res.status(400).json({ message: result.message });
+      }
+      res.json({ message: result.message, ...(await gameEngine.getCrafting(req.player!.id)) });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Ability definitions from shared/abilities.json, for the ability bar
+  app.get("/api/abilities", (_req, res) => {
+    res.json(gameEngine.getAbilities());
+  });
+
+  // Which abilities the player owns, can learn now, or can't yet
+  app.get("/api/abilities/progress", authenticated, async (req, res) => {
+    try {
+      const progress = await gameEngine.getAbilityProgress(req.player!.id);
+      if (!progress) {
+        return res.status(404).json({ message: "Player not found" });
+      }
+      res.json(progress);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/abilities/:abilityId/learn", authenticated, async (req, res) => {
+    try {
+      const result = await gameEngine.learnAbility(req.player!.id, req.params.abilityId);
+      if (!result.success) {
+        return res.status(400).json({ message: result.message });
+      }
+      res.json({ message: result.message, progress: await gameEngine.getAbilityProgress(req.player!.id) });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/abilities/:abilityId/upgrade", authenticated, async (req, res) => {
+    try {
+      const result = await gameEngine.upgradeAbility(req.player!.id, req.params.abilityId);
+      if (!result.success) {
+        return res.status(400).json({ message: result.message });
+      }
+      res.json({ message: result.message, progress: await gameEngine.getAbilityProgress(req.player!.id) });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Monsters currently alive in a zone; live changes follow over the socket
+  app.get("/api/monsters/:zone", (req, res) => {
+    res.json(gameEngine.getMonsterSnapshots(req.params.zone));
+  });
+
   // World loot endpoints
   app.get("/api/loot/:zone", async (req, res) => {
     try {
@@ -180,35 +399,151 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/loot/collect/:playerId/:lootId", async (req, res) => {
+  // Range and ownership are checked against the server's view of the player
+  app.post("/api/loot/collect/:lootId", authenticated, async (req, res) => {
     try {
-      const success = await storage.collectWorldLoot(req.params.playerId, req.params.lootId);
-      
-      if (success) {
-        res.json({ message: "Loot collected successfully" });
-      } else {
-        res.status(400).json({ message: "Could not collect loot" });
+      if (gameEngine.isPlayerDead(req.player!.id)) {
+        return res.status(409).json({ message: "You are dead" });
+      }
+
+      const result = await gameEngine.collectLoot(req.player!.id, req.params.lootId);
+      if (!result.success) {
+        return res.status(400).json({ message: result.message });
       }
+      res.json({ message: result.message });
     } catch (error: any) {
-      res.status(400).json({ message: error.message });
+      res.status(500).json({ message: error.message });
     }
   });
-  
+
+  const LOOT_ROLL_CHOICES: LootRollChoice[] = ["need", "greed", "pass"];
+
+  app.post("/api/loot/:lootId/roll", authenticated, async (req, res) => {
+    try {
+      const { choice } = req.body;
+      if (!LOOT_ROLL_CHOICES.includes(choice)) {
+        return res.status(400).json({ message: `choice must be one of ${LOOT_ROLL_CHOICES.join(", ")}` });
+      }
+
+      const result = await gameEngine.chooseLootRoll(req.player!.id, req.params.lootId, choice);
+      if (!result.success) {
+        return res.status(400).json({ message: result.message });
+      }
+      res.json({ message: result.message });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Parties: the player's own party plus any invites waiting for them
+  app.get("/api/party", authenticated, async (req, res) => {
+    try {
+      res.json(await gameEngine.getPartyState(req.player!.id));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/party/invite", authenticated, async (req, res) => {
+    try {
+      const { playerId } = req.body;
+      if (typeof playerId !== "string") {
+        return res.status(400).json({ message: "playerId is required" });
+      }
+
+      const result = await gameEngine.inviteToParty(req.player!.id, playerId);
+      if (!result.success) {
+        return res.status(400).json({ message: result.message });
+      }
+      res.json({ message: result.message, ...(await gameEngine.getPartyState(req.player!.id)) });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/party/accept", authenticated, async (req, res) => {
+    try {
+      const { fromId } = req.body;
+      if (typeof fromId !== "string") {
+        return res.status(400).json({ message: "fromId is required" });
+      }
+
+      const result = await gameEngine.acceptPartyInvite(req.player!.id, fromId);
+      if (!result.success) {
+        return res.status(400).json({ message: result.message });
+      }
+      res.json({ message: result.message, ...(await gameEngine.getPartyState(req.player!.id)) });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/party/decline", authenticated, async (req, res) => {
+    try {
+      const { fromId } = req.body;
+      if (typeof fromId !== "string") {
+        return res.status(400).json({ message: "fromId is required" });
+      }
+
+      const result = await gameEngine.declinePartyInvite(req.player!.id, fromId);
+      if (!result.success) {
+        return res.status(400).json({ message: result.message });
+      }
+      res.json({ message: result.message, ...(await gameEngine.getPartyState(req.player!.id)) });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/party/leave", authenticated, async (req, res) => {
+    try {
+      const result = await gameEngine.leaveParty(req.player!.id);
+      if (!result.success) {
+        return res.status(400).json({ message: result.message });
+      }
+      res.json({ message: result.message, ...(await gameEngine.getPartyState(req.player!.id)) });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/party/loot-mode", authenticated, async (req, res) => {
+    try {
+      const { mode } = req.body;
+      if (!PARTY_LOOT_MODES.includes(mode)) {
+        return res.status(400).json({ message: `mode must be one of ${PARTY_LOOT_MODES.join(", ")}` });
+      }
+
+      const result = await gameEngine.setPartyLootMode(req.player!.id, mode);
+      if (!result.success) {
+        return res.status(400).json({ message: result.message });
+      }
+      res.json({ message: result.message, ...(await gameEngine.getPartyState(req.player!.id)) });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   // Combat actions
-  app.post("/api/combat/ability/:playerId", async (req, res) => {
+  app.post("/api/combat/ability", authenticated, async (req, res) => {
     try {
       const { abilityName, targetId } = req.body;
-      const result = await gameEngine.useAbility(req.params.playerId, abilityName, targetId);
+      if (typeof abilityName !== "string" || !abilityName.trim()) {
+        return res.status(400).json({ message: "abilityName must be a non-empty string" });
+      }
+      if (targetId !== undefined && typeof targetId !== "string") {
+        return res.status(400).json({ message: "targetId must be a string" });
+      }
+
+      const result = await gameEngine.useAbility(req.player!.id, abilityName, targetId);
       
-      // Broadcast combat action to nearby players
-      wss.clients.forEach((client: AuthenticatedWebSocket) => {
-        if (client.readyState === WebSocket.OPEN) {
-          client.send(JSON.stringify({
-            type: 'combat_action',
-            data: result
-          }));
-        }
-      });
+      // Broadcast combat action to nearby players if successful
+      if (result.success) {
+        broadcast({
+          type: 'combat_action',
+          data: result
+        });
+      }
       
       res.json(result);
     } catch (error: any) {
@@ -216,114 +551,368 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // When each ability is ready again; later changes arrive as `cooldowns` socket events
+  app.get("/api/combat/cooldowns/:playerId", authenticated, async (req, res) => {
+    try {
+      if (req.params.playerId !== req.player!.id) {
+        return res.status(403).json({ message: "You can only view your own cooldowns" });
+      }
+      const snapshot = await gameEngine.getCooldowns(req.player!.id);
+      if (!snapshot) {
+        return res.status(404).json({ message: "Player not found" });
+      }
+      res.json(snapshot);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  // Active buffs and debuffs; changes follow as `status_effects` socket events
+  app.get("/api/combat/status-effects", authenticated, async (req, res) => {
+    try {
+      res.json(await gameEngine.getStatusEffects(req.player!.id));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  // Redeem codes: one use per player, rewards granted on the server
+  app.post("/api/codes/redeem", authenticated, async (req, res) => {
+    try {
+      const { code } = req.body;
+      if (typeof code !== "string" || !code.trim()) {
+        return res.status(400).json({ message: "Enter a code" });
+      }
+      if (gameEngine.isPlayerDead(req.player!.id)) {
+        return res.status(409).json({ message: "You are dead" });
+      }
+
+      const result = await gameEngine.redeemCode(req.player!.id, code);
+      if (!result.success) {
+        return res.status(400).json({ message: result.message });
+      }
+      res.json(result);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/admin/codes", authenticated, requireAdmin, async (_req, res) => {
+    try {
+      res.json(await storage.getRedeemCodes());
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/admin/codes", authenticated, requireAdmin, async (req, res) => {
+    const parsed = createRedeemCodeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.issues.map(issue => issue.message).join(", ") });
+    }
+
+    try {
+      const existing = await storage.getRedeemCodes();
+      if (existing.some(code => code.code === parsed.data.code)) {
+        return res.status(409).json({ message: `Code "${parsed.data.code}" already exists` });
+      }
+
+      // Item rewards name lootItems rows, so catch typos now rather than at redemption
+      const itemNames = new Set((await storage.getAllLootItems()).map(item => item.name));
+      const unknownItems = parsed.data.rewards.flatMap(reward =>
+        reward.type === "item" && !itemNames.has(reward.item) ? [reward.item] : []
+      );
+      if (unknownItems.length > 0) {
+        return res.status(400).json({ message: `Unknown items: ${unknownItems.join(", ")}` });
+      }
+
+      const code = await storage.createRedeemCode({ ...parsed.data, createdBy: req.player!.id });
+      res.status(201).json(code);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Revoked codes stop working but are kept, along with who redeemed them
+  app.post("/api/admin/codes/:codeId/revoke", authenticated, requireAdmin, async (req, res) => {
+    try {
+      const code = await storage.revokeRedeemCode(req.params.codeId);
+      if (!code) {
+        return res.status(404).json({ message: "Code not found" });
+      }
+      res.json(code);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  // Forward simulation events (monster moves, attacks, ...) to clients
+  gameEngine.onEvent((event) => {
+    const message = { type: event.type, data: event.data };
+    if (event.to) {
+      const socket = playerSockets.get(event.to);
+      if (socket?.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify(message));
+      }
+    } else {
+      broadcast(message);
+    }
+  });
+
+  // Respawns and teleports move the player server-side: move the movement baseline and the client with it
+  gameEngine.onEvent((event) => {
+    if (event.type !== 'player_respawned' && event.type !== 'player_teleported') return;
+
+    const { playerId } = event.data as { playerId: string };
+    const player = gameEngine.world.players.get(playerId);
+    const socket = playerSockets.get(playerId);
+    if (!player || !socket) return;
+
+    movement.track(player);
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify({
+        type: 'position_correction',
+        data: { x: player.positionX, y: player.positionY, z: player.positionZ, rotation: player.rotationY }
+      }));
+    }
+  });
+
+  // Slows change how far a player may move per second
+  gameEngine.onEvent((event) => {
+    if (event.type !== 'status_effects') return;
+
+    const { playerId } = event.data as { playerId: string };
+    movement.setSpeedMultiplier(playerId, gameEngine.statusModifiers(playerId).speedMultiplier);
+  });
+
   // WebSocket handling
-  wss.on('connection', (ws: AuthenticatedWebSocket, req) => {
+  // The socket's identity comes from the session cookie sent with the upgrade
+  // request, never from anything the client puts in a message.
+  httpServer.on('upgrade', (req: Request, socket, head) => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    if (pathname !== '/ws') {
+      return; // leave other upgrades (e.g. Vite HMR) to their own handlers
+    }
+
+    sessionMiddleware(req, {} as Response, () => {
+      wss.handleUpgrade(req, socket, head, (ws) => {
+        wss.emit('connection', ws, req);
+      });
+    });
+  });
+
+  const sendError = (ws: WebSocket, code: SocketErrorCode, message: string) => {
+    if (ws.readyState === WebSocket.OPEN) {
+      const payload: SocketErrorPayload = { code, message };
+      ws.send(JSON.stringify({ type: 'error', data: payload }));
+    }
+  };
+
+  const bindPlayer = async (ws: AuthenticatedWebSocket, playerId: string) => {
+    const player = await gameEngine.addPlayer(playerId);
+    if (!player) {
+      return sendError(ws, 'UNAUTHENTICATED', 'Player not found');
+    }
+
+    // One live socket per player: the newest connection wins
+    const previous = playerSockets.get(playerId);
+    if (previous && previous !== ws) {
+      sendError(previous, 'SESSION_REPLACED', 'You connected from another window');
+      previous.close(SESSION_REPLACED_CLOSE_CODE, 'Session replaced');
+    }
+
+    ws.playerId = playerId;
+    playerSockets.set(playerId, ws);
+    movement.track(player);
+    movement.setSpeedMultiplier(playerId, gameEngine.statusModifiers(playerId).speedMultiplier);
+    await storage.setPlayerOnlineStatus(playerId, true);
+
+    ws.send(JSON.stringify({
+      type: 'authenticated',
+      data: { playerId }
+    }));
+  };
+
+  // Takes the player out of the world and stops treating any socket as theirs
+  const unbindPlayer = async (playerId: string) => {
+    playerSockets.delete(playerId);
+    movement.forget(playerId);
+    await gameEngine.removePlayer(playerId);
+    await storage.setPlayerOnlineStatus(playerId, false);
+  };
+
+  // Logging out over HTTP ends the session the socket was bound with
+  const logOutSocket = async (playerId: string) => {
+    const socket = playerSockets.get(playerId);
+    if (!socket) return;
+
+    // Messages that arrive before the close completes are unauthenticated
+    socket.playerId = undefined;
+    await unbindPlayer(playerId);
+    socket.close(LOGGED_OUT_CLOSE_CODE, 'Logged out');
+  };
+
+  // Re-reads the session from the store, e.g. for a socket opened before login
+  const reloadSession = (req: Request) => new Promise<string | undefined>((resolve) => {
+    if (!req.session) {
+      return resolve(undefined);
+    }
+    req.session.reload((err) => resolve(err ? undefined : req.session.playerId));
+  });
+
+  wss.on('connection', async (ws: AuthenticatedWebSocket, req: Request) => {
     console.log('New WebSocket connection');
     
     ws.on('message', async (data) => {
+      let message: any;
       try {
-        const message = JSON.parse(data.toString());
-        
+        message = JSON.parse(data.toString());
+      } catch {
+        return sendError(ws, 'INVALID_MESSAGE', 'Invalid message format');
+      }
+
+      try {
+        if (message.type === 'authenticate') {
+          const playerId = await reloadSession(req);
+          if (!playerId) {
+            return sendError(ws, 'UNAUTHENTICATED', 'Log in before connecting to the game');
+          }
+          if (ws.playerId !== playerId) {
+            await bindPlayer(ws, playerId);
+          }
+          return;
+        }
+
+        if (!ws.playerId) {
+          return sendError(ws, 'UNAUTHENTICATED', `Cannot send '${message.type}' before authenticating`);
+        }
+        const playerId = ws.playerId;
+
         switch (message.type) {
-          case 'authenticate':
-            ws.playerId = message.playerId;
-            await storage.setPlayerOnlineStatus(message.playerId, true);
-            break;
-            
-          case 'chat_message':
+          case 'chat_message': {
+            const text = message.data?.message;
+            if (typeof text !== 'string' || !text.trim()) {
+              return sendError(ws, 'INVALID_MESSAGE', 'Chat message must be a non-empty string');
+            }
+
             const chatMessage = await storage.createChatMessage({
-              playerId: ws.playerId!,
-              message: message.data.message,
+              playerId,
+              message: text,
               channel: message.data.channel || 'tutorial',
             });
             
             // Broadcast to all clients in the same channel
-            wss.clients.forEach((client) => {
-              if (client.readyState === WebSocket.OPEN) {
-                client.send(JSON.stringify({
-                  type: 'chat_message',
-                  data: chatMessage
-                }));
-              }
+            broadcast({
+              type: 'chat_message',
+              data: chatMessage
             });
             break;
+          }
             
-          case 'player_move':
-            if (ws.playerId) {
-              await storage.updatePlayerPosition(
-                ws.playerId,
-                message.data.x,
-                message.data.y,
-                message.data.z,
-                message.data.rotation
-              );
-              
-              // Broadcast position update to other players
-              wss.clients.forEach((client: AuthenticatedWebSocket) => {
-                if (client !== ws && client.readyState === WebSocket.OPEN) {
-                  client.send(JSON.stringify({
-                    type: 'player_position',
-                    data: {
-                      playerId: ws.playerId,
-                      ...message.data
-                    }
-                  }));
-                }
-              });
+          case 'player_move': {
+            // Dead players stay where they fell until they respawn, and the stunned can't move
+            if (gameEngine.isPlayerDead(playerId) || gameEngine.statusModifiers(playerId).stunned) {
+              const position = movement.getPosition(playerId);
+              if (position) {
+                ws.send(JSON.stringify({ type: 'position_correction', data: position }));
+              }
+              break;
             }
-            break;
-            
-          case 'use_ability':
-            if (ws.playerId) {
-              const result = await gameEngine.useAbility(
-                ws.playerId,
-                message.data.abilityName,
-                message.data.targetId
-              );
-              
-              // Send result back to user
+
+            const move = movement.validate(
+              playerId,
+              { x: message.data?.x, y: message.data?.y, z: message.data?.z },
+              message.data?.rotation
+            );
+            if (!move) {
+              break;
+            }
+            const { position, rotation } = move;
+
+            gameEngine.setPlayerPosition(playerId, position.x, position.y, position.z, rotation);
+
+            // Too fast or out of bounds: snap the client back to where the server has it
+            if (move.corrected) {
               ws.send(JSON.stringify({
-                type: 'ability_result',
-                data: result
+                type: 'position_correction',
+                data: { ...position, rotation }
               }));
-              
-              // Broadcast to other players if successful
-              if (result.success) {
-                wss.clients.forEach((client: AuthenticatedWebSocket) => {
-                  if (client !== ws && client.readyState === WebSocket.OPEN) {
-                    client.send(JSON.stringify({
-                      type: 'combat_action',
-                      data: result
-                    }));
-                  }
-                });
+            }
+            
+            // Broadcast position update to other players
+            broadcast({
+              type: 'player_position',
+              data: {
+                playerId,
+                ...position,
+                rotation
               }
+            }, ws);
+            break;
+          }
+            
+          case 'use_ability': {
+            const abilityName = message.data?.abilityName;
+            const targetId = message.data?.targetId;
+            if (typeof abilityName !== 'string' || !abilityName.trim()) {
+              return sendError(ws, 'INVALID_MESSAGE', 'abilityName must be a non-empty string');
+            }
+            if (targetId !== undefined && typeof targetId !== 'string') {
+              return sendError(ws, 'INVALID_MESSAGE', 'targetId must be a string');
+            }
+
+            const result = await gameEngine.useAbility(playerId, abilityName, targetId);
+            
+            // Send result back to user
+            ws.send(JSON.stringify({
+              type: 'ability_result',
+              data: result
+            }));
+            
+            // Broadcast to other players if successful
+            if (result.success) {
+              broadcast({
+                type: 'combat_action',
+                data: result
+              }, ws);
             }
             break;
+          }
         }
       } catch (error) {
         console.error('WebSocket message error:', error);
-        ws.send(JSON.stringify({
-          type: 'error',
-          data: { message: 'Invalid message format' }
-        }));
+        sendError(ws, 'INVALID_MESSAGE', 'Could not process message');
       }
     });
     
     ws.on('close', async () => {
-      if (ws.playerId) {
-        await storage.setPlayerOnlineStatus(ws.playerId, false);
-        console.log(`Player ${ws.playerId} disconnected`);
+      // An evicted socket closes after its replacement is bound; leave that one online
+      if (ws.playerId && playerSockets.get(ws.playerId) === ws) {
+        try {
+          await unbindPlayer(ws.playerId);
+          console.log(`Player ${ws.playerId} disconnected`);
+        } catch (error) {
+          console.error(`WebSocket disconnect error for ${ws.playerId}:`, error);
+        }
       }
     });
     
     ws.on('error', (error) => {
       console.error('WebSocket error:', error);
     });
+
+    const playerId = req.session?.playerId;
+    if (playerId) {
+      try {
+        await bindPlayer(ws, playerId);
+      } catch (error) {
+        console.error('WebSocket authentication error:', error);
+      }
+    }
   });
   
   // Start game engine
-  gameEngine.start();
+  await gameEngine.start();
   
   return httpServer;
 }
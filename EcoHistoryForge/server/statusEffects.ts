@@ -0,0 +1,66 @@
+import {
+  STATUS_EFFECTS,
+  type ActiveStatusEffect,
+  type StatusEffectApplication,
+  type StatusEffectType,
+} from "@shared/statusEffects";
+
+const STATUS_EFFECT_TYPES = Object.keys(STATUS_EFFECTS) as StatusEffectType[];
+
+// Effects saved in combatState, minus anything unreadable or already expired
+export function parseStatusEffects(raw: unknown, now: number = Date.now()): ActiveStatusEffect[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.filter((effect): effect is ActiveStatusEffect =>
+    typeof effect === "object" && effect !== null &&
+    STATUS_EFFECT_TYPES.includes(effect.type) &&
+    typeof effect.magnitude === "number" &&
+    typeof effect.stacks === "number" &&
+    (effect.expiresAt === null || (typeof effect.expiresAt === "number" && effect.expiresAt > now))
+  );
+}
+
+// The effect list after one more application, following the effect's stacking rule
+export function withStatusEffect(
+  effects: ActiveStatusEffect[],
+  application: StatusEffectApplication,
+  now: number = Date.now(),
+): ActiveStatusEffect[] {
+  const definition = STATUS_EFFECTS[application.type];
+  const existing = effects.find(effect => effect.type === application.type);
+  const expiresAt = application.durationMs === null ? null : now + application.durationMs;
+
+  const fresh: ActiveStatusEffect = {
+    type: application.type,
+    magnitude: application.magnitude,
+    stacks: 1,
+    appliedAt: now,
+    expiresAt,
+    sourceId: application.sourceId ?? null,
+    nextTickAt: definition.tickMs ? now + definition.tickMs : null,
+  };
+
+  let next = fresh;
+  if (existing) {
+    switch (definition.stacking) {
+      case "replace":
+        break;
+      case "refresh":
+        next = { ...existing, magnitude: Math.max(existing.magnitude, application.magnitude), expiresAt };
+        break;
+      case "stack":
+        next = {
+          ...existing,
+          magnitude: Math.max(existing.magnitude, application.magnitude),
+          stacks: Math.min(definition.maxStacks, existing.stacks + 1),
+          expiresAt,
+        };
+        break;
+    }
+  }
+
+  return [...effects.filter(effect => effect.type !== application.type), next];
+}
+
+export function isExpired(effect: ActiveStatusEffect, now: number = Date.now()): boolean {
+  return effect.expiresAt !== null && effect.expiresAt <= now;
+}
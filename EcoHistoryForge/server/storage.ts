@@ -2,17 +2,22 @@ import {
   players, 
   chatMessages, 
   communityResources, 
+  communityResourceHistory,
   gameState, 
   monsters,
   lootItems,
   playerInventory,
   worldLoot,
+  redeemCodes,
+  codeRedemptions,
   type Player, 
   type InsertPlayer,
   type ChatMessage,
   type InsertChatMessage,
   type CommunityResources,
   type InsertCommunityResources,
+  type CommunityResourceChange,
+  type InsertCommunityResourceChange,
   type GameState,
   type InsertGameState,
   type Monster,
@@ -22,17 +27,39 @@ import {
   type PlayerInventory,
   type InsertPlayerInventory,
   type WorldLoot,
-  type InsertWorldLoot
+  type InsertWorldLoot,
+  type RedeemCode,
+  type InsertRedeemCode
 } from "@shared/schema";
-import { db } from "./db";
+import { db as defaultDb } from "./db";
+import type * as schema from "@shared/schema";
+import type { PgDatabase } from "drizzle-orm/pg-core";
+import type { NeonQueryResultHKT } from "drizzle-orm/neon-serverless";
+import { redeemCodeProblem, type RedeemClaim } from "./redeemCodes";
+import { planAdd, planRemove, type InventoryChanges } from "./inventory";
 import { eq, desc, and, sql } from "drizzle-orm";
 
+// The pool itself or an open transaction on it
+type Database = PgDatabase<NeonQueryResultHKT, typeof schema>;
+
 export interface IStorage {
+  // Runs `work` as one unit: everything it does through `tx` commits
+  // together or not at all. Nested calls join the outer transaction as a
+  // savepoint, so one that throws takes back only its own writes. Inside
+  // `work`, go through `tx` only: calls on this storage itself run outside the
+  // transaction, and MemStorage, which runs transactions one at a time,
+  // rejects one started from there rather than waiting on itself.
+  transaction<T>(work: (tx: IStorage) => Promise<T>): Promise<T>;
+  // Reads the player and holds their row until the transaction ends, so
+  // inventory and stat changes for one player happen one at a time
+  lockPlayer(id: string): Promise<Player | undefined>;
+
   // Player management
   getPlayer(id: string): Promise<Player | undefined>;
   getPlayerByUsername(username: string): Promise<Player | undefined>;
   createPlayer(player: InsertPlayer): Promise<Player>;
   updatePlayer(id: string, updates: Partial<Player>): Promise<Player>;
+  updatePlayers(batch: Array<{ id: string; updates: Partial<Player> }>): Promise<void>;
   updatePlayerPosition(id: string, x: number, y: number, z: number, rotation?: number): Promise<void>;
   setPlayerOnlineStatus(id: string, isOnline: boolean): Promise<void>;
   getOnlinePlayers(): Promise<Player[]>;
@@ -45,6 +72,9 @@ export interface IStorage {
   getCommunityResources(playerId: string): Promise<CommunityResources | undefined>;
   createCommunityResources(resources: InsertCommunityResources): Promise<CommunityResources>;
   updateCommunityResources(playerId: string, updates: Partial<CommunityResources>): Promise<CommunityResources>;
+  recordCommunityResourceChange(change: InsertCommunityResourceChange): Promise<CommunityResourceChange>;
+  // Newest first
+  getCommunityResourceHistory(playerId: string, limit?: number): Promise<CommunityResourceChange[]>;
   
   // Game state
   getGameState(playerId: string): Promise<GameState | undefined>;
@@ -55,6 +85,7 @@ export interface IStorage {
   createMonster(monster: InsertMonster): Promise<Monster>;
   getMonstersInZone(zone: string): Promise<Monster[]>;
   updateMonster(id: string, updates: Partial<Monster>): Promise<Monster>;
+  updateMonsters(batch: Array<{ id: string; updates: Partial<Monster> }>): Promise<void>;
   deleteMonster(id: string): Promise<void>;
   
   // Rebirth system
@@ -67,30 +98,52 @@ export interface IStorage {
   
   // Player inventory
   getPlayerInventory(playerId: string): Promise<(PlayerInventory & { item: LootItem })[]>;
-  addToInventory(playerId: string, itemId: string, quantity?: number): Promise<PlayerInventory>;
+  // Both are all-or-nothing: false if it won't fit, or there isn't enough to remove
+  addToInventory(playerId: string, itemId: string, quantity?: number): Promise<boolean>;
   removeFromInventory(playerId: string, itemId: string, quantity?: number): Promise<boolean>;
-  useItem(playerId: string, itemId: string, quantity?: number): Promise<{ success: boolean; effects: any }>;
+  applyInventoryChanges(playerId: string, changes: InventoryChanges): Promise<void>;
   
   // World loot
   createWorldLoot(loot: InsertWorldLoot): Promise<WorldLoot>;
   getWorldLootInZone(zone: string): Promise<(WorldLoot & { item: LootItem })[]>;
+  getWorldLoot(lootId: string): Promise<(WorldLoot & { item: LootItem }) | undefined>;
+  updateWorldLoot(lootId: string, updates: Partial<Pick<WorldLoot, "ownerId" | "partyId" | "ownedUntil">>): Promise<void>;
   collectWorldLoot(playerId: string, lootId: string): Promise<boolean>;
   cleanupExpiredLoot(): Promise<void>;
+  
+  // Redeem codes
+  createRedeemCode(code: InsertRedeemCode): Promise<RedeemCode>;
+  getRedeemCodes(): Promise<RedeemCode[]>;
+  revokeRedeemCode(id: string): Promise<RedeemCode | undefined>;
+  // Checks the code and records the player's redemption; granting the rewards is up to the caller
+  claimRedeemCode(playerId: string, code: string): Promise<RedeemClaim>;
 }
 
 export class DatabaseStorage implements IStorage {
+  constructor(private readonly db: Database = defaultDb) {}
+
+  async transaction<T>(work: (tx: IStorage) => Promise<T>): Promise<T> {
+    // Inside a transaction this opens a savepoint, so nesting is safe
+    return this.db.transaction(tx => work(new DatabaseStorage(tx)));
+  }
+
+  async lockPlayer(id: string): Promise<Player | undefined> {
+    const [player] = await this.db.select().from(players).where(eq(players.id, id)).for("update");
+    return player || undefined;
+  }
+
   async getPlayer(id: string): Promise<Player | undefined> {
-    const [player] = await db.select().from(players).where(eq(players.id, id));
+    const [player] = await this.db.select().from(players).where(eq(players.id, id));
     return player || undefined;
   }
 
   async getPlayerByUsername(username: string): Promise<Player | undefined> {
-    const [player] = await db.select().from(players).where(eq(players.username, username));
+    const [player] = await this.db.select().from(players).where(eq(players.username, username));
     return player || undefined;
   }
 
   async createPlayer(insertPlayer: InsertPlayer): Promise<Player> {
-    const [player] = await db
+    const [player] = await this.db
       .insert(players)
       .values(insertPlayer)
       .returning();
@@ -98,7 +151,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updatePlayer(id: string, updates: Partial<Player>): Promise<Player> {
-    const [player] = await db
+    const [player] = await this.db
       .update(players)
       .set(updates)
       .where(eq(players.id, id))
@@ -106,20 +159,30 @@ export class DatabaseStorage implements IStorage {
     return player;
   }
 
+  async updatePlayers(batch: Array<{ id: string; updates: Partial<Player> }>): Promise<void> {
+    if (batch.length === 0) return;
+
+    await this.db.transaction(async (tx) => {
+      for (const { id, updates } of batch) {
+        await tx.update(players).set(updates).where(eq(players.id, id));
+      }
+    });
+  }
+
   async updatePlayerPosition(id: string, x: number, y: number, z: number, rotation?: number): Promise<void> {
     const updates: any = { positionX: x, positionY: y, positionZ: z };
     if (rotation !== undefined) {
       updates.rotationY = rotation;
     }
     
-    await db
+    await this.db
       .update(players)
       .set(updates)
       .where(eq(players.id, id));
   }
 
   async setPlayerOnlineStatus(id: string, isOnline: boolean): Promise<void> {
-    await db
+    await this.db
       .update(players)
       .set({ 
         isOnline, 
@@ -129,14 +192,14 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getOnlinePlayers(): Promise<Player[]> {
-    return await db
+    return await this.db
       .select()
       .from(players)
       .where(eq(players.isOnline, true));
   }
 
   async createChatMessage(insertMessage: InsertChatMessage): Promise<ChatMessage> {
-    const [message] = await db
+    const [message] = await this.db
       .insert(chatMessages)
       .values(insertMessage)
       .returning();
@@ -144,7 +207,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getChatMessages(channel: string, limit: number = 50): Promise<ChatMessage[]> {
-    return await db
+    return await this.db
       .select({
         id: chatMessages.id,
         playerId: chatMessages.playerId,
@@ -161,7 +224,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getCommunityResources(playerId: string): Promise<CommunityResources | undefined> {
-    const [resources] = await db
+    const [resources] = await this.db
       .select()
       .from(communityResources)
       .where(eq(communityResources.playerId, playerId));
@@ -169,7 +232,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createCommunityResources(insertResources: InsertCommunityResources): Promise<CommunityResources> {
-    const [resources] = await db
+    const [resources] = await this.db
       .insert(communityResources)
       .values(insertResources)
       .returning();
@@ -177,7 +240,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateCommunityResources(playerId: string, updates: Partial<CommunityResources>): Promise<CommunityResources> {
-    const [resources] = await db
+    const [resources] = await this.db
       .update(communityResources)
       .set({ ...updates, lastUpdated: sql`now()` })
       .where(eq(communityResources.playerId, playerId))
@@ -185,8 +248,25 @@ export class DatabaseStorage implements IStorage {
     return resources;
   }
 
+  async recordCommunityResourceChange(insertChange: InsertCommunityResourceChange): Promise<CommunityResourceChange> {
+    const [change] = await this.db
+      .insert(communityResourceHistory)
+      .values(insertChange)
+      .returning();
+    return change;
+  }
+
+  async getCommunityResourceHistory(playerId: string, limit: number = 50): Promise<CommunityResourceChange[]> {
+    return await this.db
+      .select()
+      .from(communityResourceHistory)
+      .where(eq(communityResourceHistory.playerId, playerId))
+      .orderBy(desc(communityResourceHistory.createdAt))
+      .limit(limit);
+  }
+
   async getGameState(playerId: string): Promise<GameState | undefined> {
-    const [state] = await db
+    const [state] = await this.db
       .select()
       .from(gameState)
       .where(eq(gameState.playerId, playerId));
@@ -194,7 +274,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createGameState(insertGameState: InsertGameState): Promise<GameState> {
-    const [state] = await db
+    const [state] = await this.db
       .insert(gameState)
       .values(insertGameState)
       .returning();
@@ -202,7 +282,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateGameState(playerId: string, updates: Partial<GameState>): Promise<GameState> {
-    const [state] = await db
+    const [state] = await this.db
       .update(gameState)
       .set({ ...updates, lastSaved: sql`now()` })
       .where(eq(gameState.playerId, playerId))
@@ -211,7 +291,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createMonster(insertMonster: InsertMonster): Promise<Monster> {
-    const [monster] = await db
+    const [monster] = await this.db
       .insert(monsters)
       .values(insertMonster)
       .returning();
@@ -219,7 +299,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getMonstersInZone(zone: string): Promise<Monster[]> {
-    return await db
+    return await this.db
       .select()
       .from(monsters)
       .where(and(
@@ -229,7 +309,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateMonster(id: string, updates: Partial<Monster>): Promise<Monster> {
-    const [monster] = await db
+    const [monster] = await this.db
       .update(monsters)
       .set(updates)
       .where(eq(monsters.id, id))
@@ -237,15 +317,25 @@ export class DatabaseStorage implements IStorage {
     return monster;
   }
 
+  async updateMonsters(batch: Array<{ id: string; updates: Partial<Monster> }>): Promise<void> {
+    if (batch.length === 0) return;
+
+    await this.db.transaction(async (tx) => {
+      for (const { id, updates } of batch) {
+        await tx.update(monsters).set(updates).where(eq(monsters.id, id));
+      }
+    });
+  }
+
   async deleteMonster(id: string): Promise<void> {
-    await db
+    await this.db
       .update(monsters)
       .set({ isAlive: false })
       .where(eq(monsters.id, id));
   }
 
   async performRebirth(playerId: string): Promise<Player> {
-    const player = await this.getPlayer(playerId);
+    const player = await this.lockPlayer(playerId);
     if (!player) {
       throw new Error("Player not found");
     }
@@ -253,7 +343,7 @@ export class DatabaseStorage implements IStorage {
     // Accumulate hidden stats based on current stats
     const statGains = Math.floor(player.level * 10); // Example formula
     
-    const [updatedPlayer] = await db
+    const [updatedPlayer] = await this.db
       .update(players)
       .set({
         level: 1,
@@ -276,7 +366,7 @@ export class DatabaseStorage implements IStorage {
 
   // Loot system implementation
   async createLootItem(insertItem: InsertLootItem): Promise<LootItem> {
-    const [item] = await db
+    const [item] = await this.db
       .insert(lootItems)
       .values(insertItem)
       .returning();
@@ -284,22 +374,23 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getLootItem(id: string): Promise<LootItem | undefined> {
-    const [item] = await db.select().from(lootItems).where(eq(lootItems.id, id));
+    const [item] = await this.db.select().from(lootItems).where(eq(lootItems.id, id));
     return item || undefined;
   }
 
   async getAllLootItems(): Promise<LootItem[]> {
-    return await db.select().from(lootItems);
+    return await this.db.select().from(lootItems);
   }
 
   // Player inventory implementation
   async getPlayerInventory(playerId: string): Promise<(PlayerInventory & { item: LootItem })[]> {
-    return await db
+    return await this.db
       .select({
         id: playerInventory.id,
         playerId: playerInventory.playerId,
         itemId: playerInventory.itemId,
         quantity: playerInventory.quantity,
+        slot: playerInventory.slot,
         acquiredAt: playerInventory.acquiredAt,
         item: lootItems,
       })
@@ -308,99 +399,60 @@ export class DatabaseStorage implements IStorage {
       .where(eq(playerInventory.playerId, playerId)) as (PlayerInventory & { item: LootItem })[];
   }
 
-  async addToInventory(playerId: string, itemId: string, quantity: number = 1): Promise<PlayerInventory> {
-    // Check if item already exists in inventory
-    const [existing] = await db
-      .select()
-      .from(playerInventory)
-      .where(and(
-        eq(playerInventory.playerId, playerId),
-        eq(playerInventory.itemId, itemId)
-      ));
-
-    if (existing) {
-      // Update existing stack
-      const [updated] = await db
-        .update(playerInventory)
-        .set({ quantity: existing.quantity + quantity })
-        .where(eq(playerInventory.id, existing.id))
-        .returning();
-      return updated;
-    } else {
-      // Create new inventory entry
-      const [newEntry] = await db
-        .insert(playerInventory)
-        .values({ playerId, itemId, quantity })
-        .returning();
-      return newEntry;
-    }
-  }
-
-  async removeFromInventory(playerId: string, itemId: string, quantity: number = 1): Promise<boolean> {
-    const [existing] = await db
-      .select()
-      .from(playerInventory)
-      .where(and(
-        eq(playerInventory.playerId, playerId),
-        eq(playerInventory.itemId, itemId)
-      ));
-
-    if (!existing || existing.quantity < quantity) {
+  async addToInventory(playerId: string, itemId: string, quantity: number = 1): Promise<boolean> {
+    const item = await this.getLootItem(itemId);
+    if (!item) {
       return false;
     }
 
-    if (existing.quantity === quantity) {
-      // Remove entirely
-      await db
-        .delete(playerInventory)
-        .where(eq(playerInventory.id, existing.id));
-    } else {
-      // Reduce quantity
-      await db
-        .update(playerInventory)
-        .set({ quantity: existing.quantity - quantity })
-        .where(eq(playerInventory.id, existing.id));
-    }
-
-    return true;
+    return this.transaction(async (tx) => {
+      // Planning against rows another request is changing would double-book slots
+      await tx.lockPlayer(playerId);
+      const plan = planAdd(await tx.getPlayerInventory(playerId), item, quantity);
+      if (!plan.success) {
+        return false;
+      }
+      await tx.applyInventoryChanges(playerId, plan.changes);
+      return true;
+    });
   }
 
-  async useItem(playerId: string, itemId: string, quantity: number = 1): Promise<{ success: boolean; effects: any }> {
-    const item = await this.getLootItem(itemId);
-    if (!item || item.type !== 'consumable') {
-      return { success: false, effects: {} };
-    }
-
-    const removed = await this.removeFromInventory(playerId, itemId, quantity);
-    if (!removed) {
-      return { success: false, effects: {} };
-    }
-
-    // Apply effects to player
-    const effects = item.effects as any;
-    const player = await this.getPlayer(playerId);
-    if (!player) {
-      return { success: false, effects: {} };
-    }
-
-    const updates: Partial<Player> = {};
-    if (effects.health && typeof effects.health === 'number') {
-      updates.health = Math.min(player.maxHealth, player.health + effects.health * quantity);
-    }
-    if (effects.aura && typeof effects.aura === 'number') {
-      updates.aura = Math.min(player.maxAura, player.aura + effects.aura * quantity);
-    }
-
-    if (Object.keys(updates).length > 0) {
-      await this.updatePlayer(playerId, updates);
-    }
+  async removeFromInventory(playerId: string, itemId: string, quantity: number = 1): Promise<boolean> {
+    return this.transaction(async (tx) => {
+      await tx.lockPlayer(playerId);
+      const plan = planRemove(await tx.getPlayerInventory(playerId), itemId, quantity);
+      if (!plan.success) {
+        return false;
+      }
+      await tx.applyInventoryChanges(playerId, plan.changes);
+      return true;
+    });
+  }
 
-    return { success: true, effects: effects };
+  async applyInventoryChanges(playerId: string, changes: InventoryChanges): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      for (const id of changes.deletes) {
+        await tx
+          .delete(playerInventory)
+          .where(and(eq(playerInventory.id, id), eq(playerInventory.playerId, playerId)));
+      }
+      for (const { id, ...updates } of changes.updates) {
+        await tx
+          .update(playerInventory)
+          .set(updates)
+          .where(and(eq(playerInventory.id, id), eq(playerInventory.playerId, playerId)));
+      }
+      if (changes.inserts.length > 0) {
+        await tx
+          .insert(playerInventory)
+          .values(changes.inserts.map(insert => ({ playerId, ...insert })));
+      }
+    });
   }
 
   // World loot implementation
   async createWorldLoot(insertLoot: InsertWorldLoot): Promise<WorldLoot> {
-    const [loot] = await db
+    const [loot] = await this.db
       .insert(worldLoot)
       .values(insertLoot)
       .returning();
@@ -408,7 +460,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getWorldLootInZone(zone: string): Promise<(WorldLoot & { item: LootItem })[]> {
-    return await db
+    return await this.db
       .select({
         id: worldLoot.id,
         itemId: worldLoot.itemId,
@@ -418,6 +470,9 @@ export class DatabaseStorage implements IStorage {
         positionZ: worldLoot.positionZ,
         zone: worldLoot.zone,
         droppedBy: worldLoot.droppedBy,
+        ownerId: worldLoot.ownerId,
+        partyId: worldLoot.partyId,
+        ownedUntil: worldLoot.ownedUntil,
         spawnedAt: worldLoot.spawnedAt,
         expiresAt: worldLoot.expiresAt,
         item: lootItems,
@@ -430,8 +485,8 @@ export class DatabaseStorage implements IStorage {
       )) as (WorldLoot & { item: LootItem })[];
   }
 
-  async collectWorldLoot(playerId: string, lootId: string): Promise<boolean> {
-    const [loot] = await db
+  async getWorldLoot(lootId: string): Promise<(WorldLoot & { item: LootItem }) | undefined> {
+    const [loot] = await this.db
       .select({
         id: worldLoot.id,
         itemId: worldLoot.itemId,
@@ -441,33 +496,111 @@ export class DatabaseStorage implements IStorage {
         positionZ: worldLoot.positionZ,
         zone: worldLoot.zone,
         droppedBy: worldLoot.droppedBy,
+        ownerId: worldLoot.ownerId,
+        partyId: worldLoot.partyId,
+        ownedUntil: worldLoot.ownedUntil,
         spawnedAt: worldLoot.spawnedAt,
         expiresAt: worldLoot.expiresAt,
+        item: lootItems,
       })
       .from(worldLoot)
+      .innerJoin(lootItems, eq(worldLoot.itemId, lootItems.id))
       .where(and(
         eq(worldLoot.id, lootId),
         sql`${worldLoot.expiresAt} > now()`
       ));
+    return loot as (WorldLoot & { item: LootItem }) | undefined;
+  }
 
-    if (!loot) {
-      return false;
-    }
-
-    // Add to player inventory
-    await this.addToInventory(playerId, loot.itemId, loot.quantity);
-
-    // Remove from world
-    await db.delete(worldLoot).where(eq(worldLoot.id, lootId));
+  async updateWorldLoot(lootId: string, updates: Partial<Pick<WorldLoot, "ownerId" | "partyId" | "ownedUntil">>): Promise<void> {
+    await this.db.update(worldLoot).set(updates).where(eq(worldLoot.id, lootId));
+  }
 
-    return true;
+  async collectWorldLoot(playerId: string, lootId: string): Promise<boolean> {
+    return this.db.transaction(async (dbTx) => {
+      const tx = new DatabaseStorage(dbTx);
+      await tx.lockPlayer(playerId);
+      // Whoever locks the drop first gets it; anyone else waits, then finds it gone
+      const [loot] = await dbTx
+        .select()
+        .from(worldLoot)
+        .where(and(
+          eq(worldLoot.id, lootId),
+          sql`${worldLoot.expiresAt} > now()`
+        ))
+        .for("update");
+
+      if (!loot || !(await tx.addToInventory(playerId, loot.itemId, loot.quantity))) {
+        return false;
+      }
+
+      await dbTx.delete(worldLoot).where(eq(worldLoot.id, lootId));
+      return true;
+    });
   }
 
   async cleanupExpiredLoot(): Promise<void> {
-    await db
+    await this.db
       .delete(worldLoot)
       .where(sql`${worldLoot.expiresAt} <= now()`);
   }
-}
 
-export const storage = new DatabaseStorage();
+  // Redeem codes implementation
+  async createRedeemCode(insertCode: InsertRedeemCode): Promise<RedeemCode> {
+    const [code] = await this.db
+      .insert(redeemCodes)
+      .values(insertCode)
+      .returning();
+    return code;
+  }
+
+  async getRedeemCodes(): Promise<RedeemCode[]> {
+    return await this.db
+      .select()
+      .from(redeemCodes)
+      .orderBy(desc(redeemCodes.createdAt));
+  }
+
+  async revokeRedeemCode(id: string): Promise<RedeemCode | undefined> {
+    const [code] = await this.db
+      .update(redeemCodes)
+      .set({ revokedAt: sql`coalesce(${redeemCodes.revokedAt}, now())` })
+      .where(eq(redeemCodes.id, id))
+      .returning();
+    return code || undefined;
+  }
+
+  async claimRedeemCode(playerId: string, codeText: string): Promise<RedeemClaim> {
+    return await this.db.transaction(async (tx) => {
+      // Locked so concurrent redemptions can't both take the last use
+      const [code] = await tx
+        .select()
+        .from(redeemCodes)
+        .where(eq(redeemCodes.code, codeText))
+        .for("update");
+
+      if (code) {
+        const [previous] = await tx
+          .select()
+          .from(codeRedemptions)
+          .where(and(eq(codeRedemptions.codeId, code.id), eq(codeRedemptions.playerId, playerId)));
+        if (previous) {
+          return { success: false as const, message: "You have already redeemed this code" };
+        }
+      }
+
+      const problem = redeemCodeProblem(code);
+      if (problem) {
+        return { success: false as const, message: problem };
+      }
+
+      await tx.insert(codeRedemptions).values({ codeId: code.id, playerId });
+      const [claimed] = await tx
+        .update(redeemCodes)
+        .set({ uses: sql`${redeemCodes.uses} + 1` })
+        .where(eq(redeemCodes.id, code.id))
+        .returning();
+      return { success: true as const, code: claimed };
+    });
+  }
+}
\ No newline at end of file
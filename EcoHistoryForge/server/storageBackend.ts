@@ -0,0 +1,45 @@
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import type { IStorage } from "./storage";
+import { MemStorage } from "./memStorage";
+
+export type StorageBackend = "database" | "memory";
+
+// STORAGE_BACKEND=memory|database picks the backend explicitly. Without it we
+// use Postgres when DATABASE_URL is set and fall back to memory otherwise.
+export function resolveStorageBackend(env: NodeJS.ProcessEnv = process.env): StorageBackend {
+  const requested = env.STORAGE_BACKEND?.trim().toLowerCase();
+
+  if (requested === "memory" || requested === "database") {
+    return requested;
+  }
+  if (requested) {
+    throw new Error(`Unknown STORAGE_BACKEND "${env.STORAGE_BACKEND}", expected "database" or "memory"`);
+  }
+
+  return env.DATABASE_URL ? "database" : "memory";
+}
+
+export async function createStorage(backend: StorageBackend = resolveStorageBackend()): Promise<IStorage> {
+  if (backend === "memory") {
+    return new MemStorage();
+  }
+
+  // Imported lazily: ./db throws at import time when DATABASE_URL is missing
+  const { DatabaseStorage } = await import("./storage");
+  return new DatabaseStorage();
+}
+
+// Sessions live next to the game data: in Postgres for the database backend,
+// in process memory (pruned daily) for the memory backend.
+export async function createSessionStore(backend: StorageBackend = resolveStorageBackend()): Promise<session.Store> {
+  if (backend === "memory") {
+    const MemoryStore = createMemoryStore(session);
+    return new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+  }
+
+  const { pool } = await import("./db");
+  const PostgresSessionStore = connectPg(session);
+  return new PostgresSessionStore({ pool, createTableIfMissing: true });
+}
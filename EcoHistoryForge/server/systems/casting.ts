@@ -0,0 +1,89 @@
+import { randomUUID } from "crypto";
+import type { Point2D } from "@shared/world";
+import { GameSystem, TickContext } from "./types";
+
+export interface CastStart {
+  casterId: string;
+  abilityId: string;
+  kind: "cast" | "channel";
+  targetId?: string;
+  durationMs: number;
+  // Channels only: how often the effect repeats
+  pulseEveryMs?: number;
+  // Where the caster stood; walking away from it interrupts
+  origin: Point2D;
+}
+
+export interface Cast extends CastStart {
+  id: string;
+  startedAt: number;
+  endsAt: number;
+  nextPulseAt: number;
+}
+
+// Any further than this from where the cast began counts as moving
+const MOVE_TOLERANCE = 0.5;
+
+// Tracks charged and channeled casts, one per player. Each tick it pulses
+// channels, finishes casts whose time is up and interrupts casters who moved;
+// the engine resolves the ability and tells clients.
+export class CastingSystem implements GameSystem {
+  readonly name = "casting";
+  private casts: Map<string, Cast> = new Map();
+
+  begin(start: CastStart, now: number = Date.now()): Cast {
+    const cast: Cast = {
+      ...start,
+      id: randomUUID(),
+      startedAt: now,
+      endsAt: now + start.durationMs,
+      nextPulseAt: now + (start.pulseEveryMs ?? start.durationMs),
+    };
+    this.casts.set(start.casterId, cast);
+    return cast;
+  }
+
+  get(casterId: string): Cast | undefined {
+    return this.casts.get(casterId);
+  }
+
+  isCasting(casterId: string): boolean {
+    return this.casts.has(casterId);
+  }
+
+  // Forgets the caster's cast and returns it, if there was one
+  cancel(casterId: string): Cast | undefined {
+    const cast = this.casts.get(casterId);
+    this.casts.delete(casterId);
+    return cast;
+  }
+
+  async update(ctx: TickContext): Promise<void> {
+    const now = Date.now();
+
+    for (const cast of Array.from(this.casts.values())) {
+      const caster = ctx.world.players.get(cast.casterId);
+      if (!caster) {
+        ctx.engine.interruptCast(cast.casterId, "left");
+        continue;
+      }
+      if (Math.hypot(caster.positionX - cast.origin.x, caster.positionZ - cast.origin.z) > MOVE_TOLERANCE) {
+        ctx.engine.interruptCast(cast.casterId, "moved");
+        continue;
+      }
+
+      if (cast.kind === "channel" && cast.pulseEveryMs) {
+        while (cast.nextPulseAt <= Math.min(now, cast.endsAt) && this.casts.get(cast.casterId) === cast) {
+          cast.nextPulseAt += cast.pulseEveryMs;
+          await ctx.engine.pulseChannel(cast);
+        }
+      }
+
+      // A pulse can end the cast, e.g. if it got the caster killed
+      if (now >= cast.endsAt && this.casts.get(cast.casterId) === cast) {
+        this.casts.delete(cast.casterId);
+        await ctx.engine.completeCast(cast);
+      }
+    }
+  }
+}
@@ -0,0 +1,75 @@
+import { SETTLEMENT_INTERVAL_MS, abundanceFor, type ResourceSource } from "@shared/communityResources";
+import { emptyLedger, type ResourceLedger } from "../communityResources";
+import { GameSystem, IntervalTimer, TickContext } from "./types";
+
+// Banks what connected players' hunting, gathering and crafting bring in,
+// and has the engine settle it, with upkeep, every interval. Also keeps
+// everyone's sustainability at hand for spawn and drop rolls.
+export class CommunityResourceSystem implements GameSystem {
+  readonly name = "communityResources";
+  private timer = new IntervalTimer(SETTLEMENT_INTERVAL_MS);
+  private ledgers: Map<string, ResourceLedger> = new Map();
+  private sustainability: Map<string, number> = new Map();
+
+  load(playerId: string, sustainability: number): void {
+    this.ledgers.set(playerId, this.ledgers.get(playerId) ?? emptyLedger());
+    this.sustainability.set(playerId, sustainability);
+  }
+
+  // Returns whatever was banked and not yet settled
+  forget(playerId: string): ResourceLedger | undefined {
+    const ledger = this.ledgers.get(playerId);
+    this.ledgers.delete(playerId);
+    this.sustainability.delete(playerId);
+    return ledger;
+  }
+
+  bank(playerId: string, source: ResourceSource, gain: { food: number; materials: number }): void {
+    const ledger = this.ledgers.get(playerId);
+    if (!ledger) return;
+
+    const banked = ledger.gains.get(source) ?? { food: 0, materials: 0, count: 0 };
+    ledger.gains.set(source, {
+      food: banked.food + gain.food,
+      materials: banked.materials + gain.materials,
+      count: banked.count + 1,
+    });
+    if (source === "hunting") {
+      ledger.hunts++;
+    }
+  }
+
+  // Hands over the banked gains and starts a fresh ledger
+  take(playerId: string): ResourceLedger | undefined {
+    const ledger = this.ledgers.get(playerId);
+    if (!ledger) return undefined;
+    this.ledgers.set(playerId, emptyLedger());
+    return ledger;
+  }
+
+  setSustainability(playerId: string, sustainability: number): void {
+    if (this.sustainability.has(playerId)) {
+      this.sustainability.set(playerId, sustainability);
+    }
+  }
+
+  abundanceOf(playerId: string): number {
+    const sustainability = this.sustainability.get(playerId);
+    return sustainability === undefined ? 1 : abundanceFor(sustainability);
+  }
+
+  // The land everyone hunts is only as healthy as their communities on average
+  averageAbundance(): number {
+    const values = Array.from(this.sustainability.values());
+    if (values.length === 0) return 1;
+    return abundanceFor(values.reduce((total, value) => total + value, 0) / values.length);
+  }
+
+  async update(ctx: TickContext): Promise<void> {
+    if (!this.timer.advance(ctx.deltaMs)) return;
+
+    for (const playerId of Array.from(this.ledgers.keys())) {
+      await ctx.engine.settleCommunityResources(playerId);
+    }
+  }
+}
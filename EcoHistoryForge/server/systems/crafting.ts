@@ -0,0 +1,35 @@
+import type { CraftingJob } from "@shared/crafting";
+import { GameSystem, TickContext } from "./types";
+
+// Holds the crafting queues of connected players. Each tick it hands every
+// finished craft to the engine, which delivers the item and saves the queue.
+export class CraftingSystem implements GameSystem {
+  readonly name = "crafting";
+  private queues: Map<string, CraftingJob[]> = new Map();
+
+  load(playerId: string, queue: CraftingJob[]): void {
+    this.queues.set(playerId, [...queue].sort((a, b) => a.readyAt - b.readyAt));
+  }
+
+  forget(playerId: string): void {
+    this.queues.delete(playerId);
+  }
+
+  get(playerId: string): CraftingJob[] {
+    return this.queues.get(playerId) ?? [];
+  }
+
+  async update(ctx: TickContext): Promise<void> {
+    const now = Date.now();
+
+    for (const [playerId, queue] of Array.from(this.queues.entries())) {
+      const finished = queue.filter(job => job.readyAt <= now);
+      if (finished.length === 0) continue;
+
+      this.queues.set(playerId, queue.filter(job => job.readyAt > now));
+      for (const job of finished) {
+        await ctx.engine.finishCraft(playerId, job);
+      }
+    }
+  }
+}
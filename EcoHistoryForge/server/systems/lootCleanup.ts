@@ -0,0 +1,14 @@
+import { GameSystem, IntervalTimer, TickContext } from "./types";
+
+const CLEANUP_INTERVAL_MS = 60000; // Every minute
+
+export class LootCleanupSystem implements GameSystem {
+  readonly name = "lootCleanup";
+  private timer = new IntervalTimer(CLEANUP_INTERVAL_MS);
+
+  async update({ storage, deltaMs }: TickContext): Promise<void> {
+    if (!this.timer.advance(deltaMs)) return;
+
+    await storage.cleanupExpiredLoot();
+  }
+}
@@ -0,0 +1,80 @@
+import type { LootRollChoice } from "@shared/party";
+import { GameSystem, TickContext } from "./types";
+
+export interface LootRoll {
+  lootId: string;
+  itemName: string;
+  partyId: string;
+  // Members who were around for the drop; nobody else gets a say
+  eligible: string[];
+  choices: Map<string, LootRollChoice>;
+  endsAt: number;
+}
+
+export interface LootRollOutcome {
+  winnerId: string | null;
+  choice: LootRollChoice | null;
+  roll: number | null;
+}
+
+// Need beats greed; within the best choice everyone rolls 1-100 and the
+// highest takes it. Passing or not answering never wins.
+export function decideLootRoll(
+  choices: Map<string, LootRollChoice>,
+  rollDie: () => number = () => 1 + Math.floor(Math.random() * 100),
+): LootRollOutcome {
+  for (const choice of ["need", "greed"] as const) {
+    const contenders = Array.from(choices.entries()).filter(([, chosen]) => chosen === choice).map(([id]) => id);
+    if (contenders.length === 0) continue;
+
+    let best: { winnerId: string; roll: number } | undefined;
+    for (const playerId of contenders) {
+      const roll = rollDie();
+      if (!best || roll > best.roll) {
+        best = { winnerId: playerId, roll };
+      }
+    }
+    return { winnerId: best!.winnerId, choice, roll: best!.roll };
+  }
+  return { winnerId: null, choice: null, roll: null };
+}
+
+// Tracks open need/greed rolls. Each tick it closes rolls everyone has
+// answered or whose time is up; the engine hands out the drop and tells the party.
+export class LootRollSystem implements GameSystem {
+  readonly name = "lootRolls";
+  private rolls: Map<string, LootRoll> = new Map();
+
+  begin(roll: Omit<LootRoll, "choices">): LootRoll {
+    const started: LootRoll = { ...roll, choices: new Map() };
+    this.rolls.set(roll.lootId, started);
+    return started;
+  }
+
+  get(lootId: string): LootRoll | undefined {
+    return this.rolls.get(lootId);
+  }
+
+  isPending(lootId: string): boolean {
+    return this.rolls.has(lootId);
+  }
+
+  // Returns false if there's no such roll or the player can't take part
+  choose(lootId: string, playerId: string, choice: LootRollChoice): boolean {
+    const roll = this.rolls.get(lootId);
+    if (!roll || !roll.eligible.includes(playerId)) return false;
+    roll.choices.set(playerId, choice);
+    return true;
+  }
+
+  async update(ctx: TickContext): Promise<void> {
+    const now = Date.now();
+
+    for (const roll of Array.from(this.rolls.values())) {
+      if (now < roll.endsAt && roll.choices.size < roll.eligible.length) continue;
+
+      this.rolls.delete(roll.lootId);
+      await ctx.engine.finishLootRoll(roll, decideLootRoll(roll.choices));
+    }
+  }
+}
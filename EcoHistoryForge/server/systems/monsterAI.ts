@@ -0,0 +1,249 @@
+import type { Monster, Player } from "@shared/schema";
+import { getAttackDamage, getMonsterType } from "../monsterTypes";
+import { GameSystem, TickContext } from "./types";
+
+export type MonsterAIState = "idle" | "wandering" | "chasing" | "attacking" | "returning";
+
+// A monster as clients see it, AI state included
+export type MonsterSnapshot = Monster & { state: MonsterAIState; targetId: string | null };
+
+interface MonsterBrain {
+  state: MonsterAIState;
+  spawnX: number;
+  spawnZ: number;
+  targetId?: string;
+  wanderX?: number;
+  wanderZ?: number;
+  nextWanderAt: number;
+  nextAttackAt: number;
+  lastBroadcastTick: number;
+  dirty: boolean;
+}
+
+const IDLE_MIN_MS = 2000;
+const IDLE_MAX_MS = 6000;
+const ARRIVAL_DISTANCE = 0.5;
+// Chasers stop a little inside attack range so small target moves don't break it
+const CHASE_STOP_FACTOR = 0.9;
+// Moving monsters are broadcast at most this often; state changes go out immediately
+const BROADCAST_EVERY_TICKS = 4;
+
+function distance2D(ax: number, az: number, bx: number, bz: number): number {
+  return Math.hypot(ax - bx, az - bz);
+}
+
+// Drives every live monster: idle/wander around its spawn point, aggro on
+// nearby players, chase and attack them, and walk home when pulled too far.
+export class MonsterAISystem implements GameSystem {
+  readonly name = "monsterAI";
+  private brains: Map<string, MonsterBrain> = new Map();
+
+  // Makes a monster fight back against whoever just hit it
+  provoke(monsterId: string, playerId: string): void {
+    const brain = this.brains.get(monsterId);
+    if (!brain) return;
+
+    // Health changed either way, so clients hear about it next tick
+    brain.dirty = true;
+    if (brain.state !== "returning") {
+      brain.targetId = playerId;
+    }
+  }
+
+  getState(monsterId: string): MonsterAIState | undefined {
+    return this.brains.get(monsterId)?.state;
+  }
+
+  describe(monster: Monster): MonsterSnapshot {
+    const brain = this.brains.get(monster.id);
+    return { ...monster, state: brain?.state ?? "idle", targetId: brain?.targetId ?? null };
+  }
+
+  update(ctx: TickContext): void {
+    const { world } = ctx;
+
+    // Forget monsters that died or despawned
+    this.brains.forEach((_brain, id) => {
+      if (!world.monsters.has(id)) {
+        this.brains.delete(id);
+      }
+    });
+
+    world.monsters.forEach(monster => {
+      let brain = this.brains.get(monster.id);
+      if (!brain) {
+        brain = {
+          state: "idle",
+          spawnX: monster.positionX,
+          spawnZ: monster.positionZ,
+          nextWanderAt: ctx.time + this.randomIdleMs(),
+          nextAttackAt: 0,
+          lastBroadcastTick: 0,
+          dirty: true,
+        };
+        this.brains.set(monster.id, brain);
+      }
+
+      const before = { state: brain.state, x: monster.positionX, z: monster.positionZ };
+      this.think(ctx, monster, brain);
+
+      const moved = monster.positionX !== before.x || monster.positionZ !== before.z;
+      if (brain.state !== before.state) {
+        brain.dirty = true;
+      }
+      if (brain.dirty || (moved && ctx.tick - brain.lastBroadcastTick >= BROADCAST_EVERY_TICKS)) {
+        this.broadcast(ctx, monster, brain);
+      }
+    });
+  }
+
+  private think(ctx: TickContext, monster: Monster, brain: MonsterBrain): void {
+    const type = getMonsterType(monster.name);
+
+    if (brain.state === "returning") {
+      if (this.moveToward(ctx, monster, brain.spawnX, brain.spawnZ, type.moveSpeed)) {
+        // Back home: reset like a fresh spawn
+        ctx.world.updateMonster(monster.id, { health: monster.maxHealth });
+        this.setState(brain, "idle");
+        brain.dirty = true;
+      }
+      return;
+    }
+
+    const target = this.findTarget(ctx, monster, brain, type.aggroRadius);
+    if (!target) {
+      brain.targetId = undefined;
+      this.idleOrWander(ctx, monster, brain, type.moveSpeed / 2, type.wanderRadius);
+      return;
+    }
+    brain.targetId = target.id;
+
+    if (distance2D(monster.positionX, monster.positionZ, brain.spawnX, brain.spawnZ) > type.leashRadius) {
+      brain.targetId = undefined;
+      this.setState(brain, "returning");
+      return;
+    }
+
+    const distance = distance2D(monster.positionX, monster.positionZ, target.positionX, target.positionZ);
+    if (distance <= type.attack.range) {
+      this.setState(brain, "attacking");
+      if (ctx.time >= brain.nextAttackAt) {
+        brain.nextAttackAt = ctx.time + type.attack.cooldownMs;
+        const damage = getAttackDamage(type, monster.level, monster.difficultyMultiplier);
+        ctx.engine.damagePlayer(target.id, damage, { monsterId: monster.id, attackKind: type.attack.kind });
+        const onHit = type.attack.onHit;
+        if (onHit && Math.random() < onHit.chance) {
+          const { chance: _chance, ...application } = onHit;
+          ctx.engine.applyStatusEffect(target.id, { ...application, sourceId: monster.id });
+        }
+      }
+      return;
+    }
+
+    this.setState(brain, "chasing");
+    const stopAt = type.attack.range * CHASE_STOP_FACTOR;
+    const dx = target.positionX - monster.positionX;
+    const dz = target.positionZ - monster.positionZ;
+    this.moveToward(
+      ctx,
+      monster,
+      target.positionX - (dx / distance) * stopAt,
+      target.positionZ - (dz / distance) * stopAt,
+      type.moveSpeed,
+    );
+  }
+
+  private findTarget(ctx: TickContext, monster: Monster, brain: MonsterBrain, aggroRadius: number): Player | undefined {
+    const current = brain.targetId ? ctx.world.players.get(brain.targetId) : undefined;
+    if (current && this.isAttackable(current)) {
+      return current;
+    }
+
+    let nearest: Player | undefined;
+    let nearestDistance = aggroRadius;
+    ctx.world.players.forEach(player => {
+      if (!this.isAttackable(player)) return;
+      const distance = distance2D(monster.positionX, monster.positionZ, player.positionX, player.positionZ);
+      if (distance <= nearestDistance) {
+        nearest = player;
+        nearestDistance = distance;
+      }
+    });
+    return nearest;
+  }
+
+  private isAttackable(player: Player): boolean {
+    return player.health > 0;
+  }
+
+  private idleOrWander(ctx: TickContext, monster: Monster, brain: MonsterBrain, speed: number, wanderRadius: number): void {
+    if (brain.state === "wandering" && brain.wanderX !== undefined && brain.wanderZ !== undefined) {
+      if (this.moveToward(ctx, monster, brain.wanderX, brain.wanderZ, speed)) {
+        this.setState(brain, "idle");
+        brain.nextWanderAt = ctx.time + this.randomIdleMs();
+      }
+      return;
+    }
+
+    if (brain.state !== "idle") {
+      // Lost its target mid-fight: stand still for a moment before wandering again
+      this.setState(brain, "idle");
+      brain.nextWanderAt = ctx.time + this.randomIdleMs();
+      return;
+    }
+
+    if (ctx.time >= brain.nextWanderAt) {
+      const angle = Math.random() * Math.PI * 2;
+      const radius = Math.random() * wanderRadius;
+      brain.wanderX = brain.spawnX + Math.cos(angle) * radius;
+      brain.wanderZ = brain.spawnZ + Math.sin(angle) * radius;
+      this.setState(brain, "wandering");
+    }
+  }
+
+  // Steps toward (x, z) at `speed` units/s; returns true once arrived
+  private moveToward(ctx: TickContext, monster: Monster, x: number, z: number, speed: number): boolean {
+    const dx = x - monster.positionX;
+    const dz = z - monster.positionZ;
+    const distance = Math.hypot(dx, dz);
+    if (distance <= ARRIVAL_DISTANCE) {
+      return true;
+    }
+
+    const step = Math.min(distance, speed * (ctx.deltaMs / 1000));
+    ctx.world.updateMonster(monster.id, {
+      positionX: monster.positionX + (dx / distance) * step,
+      positionZ: monster.positionZ + (dz / distance) * step,
+    });
+    return step >= distance - ARRIVAL_DISTANCE;
+  }
+
+  private setState(brain: MonsterBrain, state: MonsterAIState): void {
+    if (brain.state !== state) {
+      brain.state = state;
+      brain.dirty = true;
+    }
+  }
+
+  private broadcast(ctx: TickContext, monster: Monster, brain: MonsterBrain): void {
+    brain.dirty = false;
+    brain.lastBroadcastTick = ctx.tick;
+    ctx.engine.emit({
+      type: "monster_updated",
+      data: {
+        id: monster.id,
+        positionX: monster.positionX,
+        positionY: monster.positionY,
+        positionZ: monster.positionZ,
+        health: monster.health,
+        maxHealth: monster.maxHealth,
+        state: brain.state,
+        targetId: brain.targetId ?? null,
+      },
+    });
+  }
+
+  private randomIdleMs(): number {
+    return IDLE_MIN_MS + Math.random() * (IDLE_MAX_MS - IDLE_MIN_MS);
+  }
+}
@@ -0,0 +1,93 @@
+import { randomUUID } from "crypto";
+import type { Monster } from "@shared/schema";
+import { hasLineOfSight, type Point2D } from "@shared/world";
+import { GameSystem, TickContext } from "./types";
+
+export interface ProjectileLaunch {
+  casterId: string;
+  abilityKey: string;
+  zone: string;
+  origin: Point2D;
+  // Homing projectiles follow their target; the rest fly straight along `direction`
+  targetId?: string;
+  direction: Point2D;
+  speed: number; // units per second
+  range: number;
+}
+
+interface Projectile extends ProjectileLaunch {
+  id: string;
+  position: Point2D;
+  travelled: number;
+}
+
+// Monsters closer than this to a projectile get hit
+const HIT_RADIUS = 1.5;
+
+// Moves in-flight projectiles each tick and applies their ability on impact.
+// They stop at the first obstacle, at the end of their range, or when a
+// homing target disappears.
+export class ProjectileSystem implements GameSystem {
+  readonly name = "projectiles";
+  private projectiles: Map<string, Projectile> = new Map();
+
+  launch(launch: ProjectileLaunch): string {
+    const id = randomUUID();
+    this.projectiles.set(id, { ...launch, id, position: { ...launch.origin }, travelled: 0 });
+    return id;
+  }
+
+  async update(ctx: TickContext): Promise<void> {
+    for (const projectile of Array.from(this.projectiles.values())) {
+      const hit = this.advance(ctx, projectile);
+      if (hit === undefined) continue;
+
+      this.projectiles.delete(projectile.id);
+      if (hit) {
+        await ctx.engine.applyAbilityHit(projectile.casterId, projectile.abilityKey, hit.id, projectile.origin);
+      }
+      ctx.engine.emit({
+        type: "projectile_ended",
+        data: { projectileId: projectile.id, targetId: hit ? hit.id : null },
+      });
+    }
+  }
+
+  // Returns the monster hit, null if the projectile is spent, undefined if still flying
+  private advance(ctx: TickContext, projectile: Projectile): Monster | null | undefined {
+    const { world } = ctx;
+
+    if (projectile.targetId) {
+      const target = world.monsters.get(projectile.targetId);
+      if (!target) return null;
+
+      const dx = target.positionX - projectile.position.x;
+      const dz = target.positionZ - projectile.position.z;
+      const distance = Math.hypot(dx, dz);
+      if (distance > 0) {
+        projectile.direction = { x: dx / distance, z: dz / distance };
+      }
+    }
+
+    const step = Math.min(projectile.speed * (ctx.deltaMs / 1000), projectile.range - projectile.travelled);
+    const next = {
+      x: projectile.position.x + projectile.direction.x * step,
+      z: projectile.position.z + projectile.direction.z * step,
+    };
+    if (!hasLineOfSight(projectile.zone, projectile.position, next)) {
+      return null;
+    }
+    projectile.position = next;
+    projectile.travelled += step;
+
+    const candidates = projectile.targetId
+      ? [world.monsters.get(projectile.targetId)!]
+      : world.getMonstersInZone(projectile.zone);
+    const hit = candidates.find(monster =>
+      Math.hypot(monster.positionX - next.x, monster.positionZ - next.z) <= HIT_RADIUS
+    );
+    if (hit) return hit;
+
+    return projectile.travelled >= projectile.range ? null : undefined;
+  }
+}
@@ -0,0 +1,26 @@
+import { GameSystem, IntervalTimer, TickContext } from "./types";
+
+const REGEN_INTERVAL_MS = 5000; // Every 5 seconds
+const HEALTH_REGEN_RATE = 0.01;
+const AURA_REGEN_RATE = 0.02;
+
+export class RegenerationSystem implements GameSystem {
+  readonly name = "regeneration";
+  private timer = new IntervalTimer(REGEN_INTERVAL_MS);
+
+  update({ world, deltaMs }: TickContext): void {
+    if (!this.timer.advance(deltaMs)) return;
+
+    world.players.forEach(player => {
+      // The dead don't regenerate; respawning restores them
+      if (player.health <= 0) return;
+
+      const health = Math.min(player.maxHealth, player.health + Math.floor(player.maxHealth * HEALTH_REGEN_RATE));
+      const aura = Math.min(player.maxAura, player.aura + Math.floor(player.maxAura * AURA_REGEN_RATE));
+
+      if (health !== player.health || aura !== player.aura) {
+        world.updatePlayer(player.id, { health, aura });
+      }
+    });
+  }
+}
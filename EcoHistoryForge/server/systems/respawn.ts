@@ -0,0 +1,60 @@
+import type { Player } from "@shared/schema";
+import { RESPAWN_DELAY_MS } from "../death";
+import { GameSystem, TickContext } from "./types";
+
+export interface DeathRecord {
+  diedAt: number;
+  respawnAt: number;
+  positionX: number;
+  positionY: number;
+  positionZ: number;
+}
+
+// Tracks dead players and brings them back once their respawn timer runs out.
+// Times are wall-clock so they can be shown to clients.
+export class RespawnSystem implements GameSystem {
+  readonly name = "respawn";
+  private dead: Map<string, DeathRecord> = new Map();
+
+  constructor(private readonly respawnDelayMs: number = RESPAWN_DELAY_MS) {}
+
+  markDead(player: Player, now: number = Date.now()): DeathRecord {
+    const record: DeathRecord = {
+      diedAt: now,
+      respawnAt: now + this.respawnDelayMs,
+      positionX: player.positionX,
+      positionY: player.positionY,
+      positionZ: player.positionZ,
+    };
+    this.dead.set(player.id, record);
+    return record;
+  }
+
+  isDead(playerId: string): boolean {
+    return this.dead.has(playerId);
+  }
+
+  getDeath(playerId: string): DeathRecord | undefined {
+    return this.dead.get(playerId);
+  }
+
+  update({ world, engine }: TickContext): void {
+    const now = Date.now();
+
+    world.players.forEach(player => {
+      const record = this.dead.get(player.id);
+      if (!record) {
+        // Saved at 0 health (e.g. the server stopped mid-countdown): restart the timer, no second penalty
+        if (player.health <= 0) {
+          this.markDead(player, now);
+        }
+        return;
+      }
+
+      if (now >= record.respawnAt) {
+        this.dead.delete(player.id);
+        engine.respawnPlayer(player.id);
+      }
+    });
+  }
+}
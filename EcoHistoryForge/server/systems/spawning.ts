@@ -0,0 +1,32 @@
+import { GameSystem, IntervalTimer, TickContext } from "./types";
+
+const SPAWN_INTERVAL_MS = 30000; // Every 30 seconds
+const MAX_MONSTERS = 20;
+const MONSTERS_PER_PLAYER = 3;
+
+export class SpawningSystem implements GameSystem {
+  readonly name = "spawning";
+  private timer = new IntervalTimer(SPAWN_INTERVAL_MS);
+
+  constructor(private readonly zone: string) {}
+
+  async update({ world, engine, deltaMs }: TickContext): Promise<void> {
+    if (!this.timer.advance(deltaMs)) return;
+
+    const onlinePlayers = Array.from(world.players.values());
+    if (onlinePlayers.length === 0) return;
+
+    // Calculate average rebirth cycle for difficulty scaling
+    const avgRebirthCycle = onlinePlayers.reduce((sum, p) => sum + p.rebirthCycle, 0) / onlinePlayers.length;
+    const difficultyMultiplier = 1 + (avgRebirthCycle * 0.5);
+
+    // Over-harvested land holds fewer monsters
+    const abundance = engine.communityResources.averageAbundance();
+    const maxMonsters = Math.max(1, Math.round(Math.min(MAX_MONSTERS, onlinePlayers.length * MONSTERS_PER_PLAYER) * abundance));
+
+    if (world.getMonstersInZone(this.zone).length < maxMonsters) {
+      const level = Math.floor(Math.random() * 90) + 10; // Level 10-99
+      await engine.spawnMonster(this.zone, level, difficultyMultiplier);
+    }
+  }
+}
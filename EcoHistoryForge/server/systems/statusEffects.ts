@@ -0,0 +1,101 @@
+import {
+  STATUS_EFFECTS,
+  modifiersFor,
+  NO_MODIFIERS,
+  type ActiveStatusEffect,
+  type StatusEffectApplication,
+  type StatusEffectType,
+  type StatusModifiers,
+} from "@shared/statusEffects";
+import { isExpired, withStatusEffect } from "../statusEffects";
+import { GameSystem, TickContext } from "./types";
+
+// Holds the active effects of connected players. Each tick it runs damage
+// and healing over time and drops expired effects; the engine persists and
+// broadcasts whatever changed.
+export class StatusEffectSystem implements GameSystem {
+  readonly name = "statusEffects";
+  private effects: Map<string, ActiveStatusEffect[]> = new Map();
+
+  load(playerId: string, effects: ActiveStatusEffect[]): void {
+    this.effects.set(playerId, effects);
+  }
+
+  forget(playerId: string): ActiveStatusEffect[] {
+    const effects = this.get(playerId);
+    this.effects.delete(playerId);
+    return effects;
+  }
+
+  get(playerId: string): ActiveStatusEffect[] {
+    return this.effects.get(playerId) ?? [];
+  }
+
+  find(playerId: string, type: StatusEffectType): ActiveStatusEffect | undefined {
+    return this.get(playerId).find(effect => effect.type === type);
+  }
+
+  apply(playerId: string, application: StatusEffectApplication, now: number = Date.now()): ActiveStatusEffect {
+    const effects = withStatusEffect(this.get(playerId), application, now);
+    this.effects.set(playerId, effects);
+    return effects.find(effect => effect.type === application.type)!;
+  }
+
+  // Returns false if the player didn't have it
+  remove(playerId: string, type: StatusEffectType): boolean {
+    const effects = this.get(playerId);
+    const remaining = effects.filter(effect => effect.type !== type);
+    this.effects.set(playerId, remaining);
+    return remaining.length !== effects.length;
+  }
+
+  // Removes every debuff; returns false if there were none
+  cleanse(playerId: string): boolean {
+    const effects = this.get(playerId);
+    const remaining = effects.filter(effect => STATUS_EFFECTS[effect.type].category !== "debuff");
+    this.effects.set(playerId, remaining);
+    return remaining.length !== effects.length;
+  }
+
+  clear(playerId: string): boolean {
+    const hadEffects = this.get(playerId).length > 0;
+    this.effects.set(playerId, []);
+    return hadEffects;
+  }
+
+  modifiersFor(playerId: string): StatusModifiers {
+    const effects = this.effects.get(playerId);
+    return effects ? modifiersFor(effects.filter(effect => !isExpired(effect))) : { ...NO_MODIFIERS };
+  }
+
+  async update(ctx: TickContext): Promise<void> {
+    const now = Date.now();
+
+    for (const [playerId, effects] of Array.from(this.effects.entries())) {
+      const player = ctx.world.players.get(playerId);
+      if (!player || effects.length === 0) continue;
+
+      for (const effect of effects) {
+        const tickMs = STATUS_EFFECTS[effect.type].tickMs;
+        if (!tickMs || effect.nextTickAt === null) continue;
+        // Catch up on every tick that fell due, but never past expiry
+        while (effect.nextTickAt <= now && (effect.expiresAt === null || effect.nextTickAt <= effect.expiresAt)) {
+          effect.nextTickAt += tickMs;
+          if (effect.type === "burn") {
+            ctx.engine.damagePlayer(playerId, effect.magnitude * effect.stacks, { statusEffect: "burn" });
+          } else if (effect.type === "regen") {
+            ctx.engine.healPlayer(playerId, effect.magnitude * effect.stacks);
+          }
+        }
+      }
+
+      // Damage above may have killed the player and cleared everything already
+      const current = this.get(playerId);
+      const remaining = current.filter(effect => !isExpired(effect, now));
+      if (remaining.length !== current.length) {
+        this.effects.set(playerId, remaining);
+        await ctx.engine.statusEffectsChanged(playerId);
+      }
+    }
+  }
+}
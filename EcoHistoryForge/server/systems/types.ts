@@ -0,0 +1,36 @@
+import type { IStorage } from "../storage";
+import type { WorldState } from "../world";
+import type { GameEngine } from "../gameEngine";
+
+export interface TickContext {
+  tick: number;
+  // Fixed step length; every tick advances the simulation by exactly this much
+  deltaMs: number;
+  // Simulation clock in ms since the engine started, independent of wall time
+  time: number;
+  world: WorldState;
+  storage: IStorage;
+  engine: GameEngine;
+}
+
+// One piece of simulation run once per tick, in registration order
+export interface GameSystem {
+  readonly name: string;
+  update(ctx: TickContext): void | Promise<void>;
+}
+
+// Fires every `intervalMs` of simulated time, for systems that don't need to run every tick
+export class IntervalTimer {
+  private elapsed = 0;
+
+  constructor(private readonly intervalMs: number) {}
+
+  advance(deltaMs: number): boolean {
+    this.elapsed += deltaMs;
+    if (this.elapsed < this.intervalMs) {
+      return false;
+    }
+    this.elapsed -= this.intervalMs;
+    return true;
+  }
+}
@@ -0,0 +1,111 @@
+import type { Monster, Player } from "@shared/schema";
+
+export interface EntityUpdate<T> {
+  id: string;
+  updates: Partial<T>;
+}
+
+// In-memory copy of everything the simulation touches every tick: connected
+// players and live monsters. Changes are applied here immediately and
+// remembered per entity until the engine flushes them to storage.
+export class WorldState {
+  readonly players: Map<string, Player> = new Map();
+  readonly monsters: Map<string, Monster> = new Map();
+
+  private pendingPlayers: Map<string, Partial<Player>> = new Map();
+  private pendingMonsters: Map<string, Partial<Monster>> = new Map();
+
+  addPlayer(player: Player): void {
+    this.players.set(player.id, { ...player });
+  }
+
+  removePlayer(playerId: string): EntityUpdate<Player> | undefined {
+    this.players.delete(playerId);
+    return this.takePending(this.pendingPlayers, playerId);
+  }
+
+  updatePlayer(playerId: string, updates: Partial<Player>): Player | undefined {
+    const player = this.players.get(playerId);
+    if (!player) return undefined;
+
+    Object.assign(player, updates);
+    this.pendingPlayers.set(playerId, { ...this.pendingPlayers.get(playerId), ...updates });
+    return player;
+  }
+
+  // Takes in changes that are already in storage. They win over whatever the
+  // simulation changed in the same fields meanwhile, and aren't flushed again.
+  applyStoredPlayer(playerId: string, updates: Partial<Player>): Player | undefined {
+    const player = this.players.get(playerId);
+    if (!player) return undefined;
+
+    Object.assign(player, updates);
+    const pending = this.pendingPlayers.get(playerId);
+    if (pending) {
+      const remaining = Object.fromEntries(Object.entries(pending).filter(([key]) => !(key in updates)));
+      if (Object.keys(remaining).length > 0) {
+        this.pendingPlayers.set(playerId, remaining);
+      } else {
+        this.pendingPlayers.delete(playerId);
+      }
+    }
+    return player;
+  }
+
+  addMonster(monster: Monster): void {
+    this.monsters.set(monster.id, { ...monster });
+  }
+
+  updateMonster(monsterId: string, updates: Partial<Monster>): Monster | undefined {
+    const monster = this.monsters.get(monsterId);
+    if (!monster) return undefined;
+
+    Object.assign(monster, updates);
+    this.pendingMonsters.set(monsterId, { ...this.pendingMonsters.get(monsterId), ...updates });
+    return monster;
+  }
+
+  // Removes a dead monster from the simulation; the isAlive flag is still flushed
+  killMonster(monsterId: string): Monster | undefined {
+    const monster = this.monsters.get(monsterId);
+    if (!monster) return undefined;
+
+    this.updateMonster(monsterId, { isAlive: false });
+    this.monsters.delete(monsterId);
+    return monster;
+  }
+
+  getMonstersInZone(zone: string): Monster[] {
+    return Array.from(this.monsters.values()).filter(m => m.zone === zone);
+  }
+
+  takePendingPlayer(playerId: string): EntityUpdate<Player> | undefined {
+    return this.takePending(this.pendingPlayers, playerId);
+  }
+
+  takeAllPending(): { players: EntityUpdate<Player>[]; monsters: EntityUpdate<Monster>[] } {
+    const players = Array.from(this.pendingPlayers, ([id, updates]) => ({ id, updates }));
+    const monsters = Array.from(this.pendingMonsters, ([id, updates]) => ({ id, updates }));
+    this.pendingPlayers.clear();
+    this.pendingMonsters.clear();
+    return { players, monsters };
+  }
+
+  // Puts updates back after a failed flush, without clobbering newer changes
+  restorePending(players: EntityUpdate<Player>[], monsters: EntityUpdate<Monster>[]): void {
+    for (const { id, updates } of players) {
+      this.pendingPlayers.set(id, { ...updates, ...this.pendingPlayers.get(id) });
+    }
+    for (const { id, updates } of monsters) {
+      this.pendingMonsters.set(id, { ...updates, ...this.pendingMonsters.get(id) });
+    }
+  }
+
+  private takePending<T>(pending: Map<string, Partial<T>>, id: string): EntityUpdate<T> | undefined {
+    const updates = pending.get(id);
+    if (!updates) return undefined;
+
+    pending.delete(id);
+    return { id, updates };
+  }
+}
@@ -0,0 +1,148 @@
+import { z } from "zod";
+
+// Ability data lives in shared/abilities.json. The server loads and validates
+// it at startup; clients fetch the same list from /api/abilities.
+
+// Every cast also locks all abilities for this long. It's stored next to the
+// ability cooldowns under GLOBAL_COOLDOWN_KEY, which no ability may use as its id.
+export const GLOBAL_COOLDOWN_MS = 1000;
+export const GLOBAL_COOLDOWN_KEY = "global";
+
+// projectile: travels to its target (or straight ahead) and hits on arrival
+// cone: hits everything in front of the caster within range
+// radius: hits everything around the caster within range
+// shield: absorbs incoming damage for a while
+export const abilityKindSchema = z.enum(["projectile", "cone", "radius", "shield"]);
+
+// Every ability is learned automatically at its requiredLevel. These are
+// extra ways to learn it earlier:
+// tutorial: once the player's tutorialProgress reaches `progress`
+// skill_book: by reading (and using up) the named item from the inventory
+export const abilityUnlockSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("tutorial"), progress: z.number().int().positive() }),
+  z.object({ type: z.literal("skill_book"), item: z.string().min(1) }),
+]);
+
+export const abilityDefinitionSchema = z
+  .object({
+    id: z
+      .string()
+      .regex(/^[a-z0-9_]+$/, "ids are lower_snake_case")
+      .refine(id => id !== GLOBAL_COOLDOWN_KEY, `"${GLOBAL_COOLDOWN_KEY}" is reserved for the global cooldown`),
+    name: z.string().min(1),
+    description: z.string(),
+    icon: z.string(), // Font Awesome classes, e.g. "fas fa-wind"
+    kind: abilityKindSchema,
+    auraCost: z.number().int().nonnegative(),
+    damage: z.number().nonnegative(),
+    range: z.number().nonnegative(),
+    cooldown: z.number().int().positive(), // ms
+    requiredLevel: z.number().int().min(1).max(100),
+    unlocks: z.array(abilityUnlockSchema).default([]),
+    maxRank: z.number().int().min(1).default(1),
+    rankBonus: z.number().nonnegative().default(0.1), // extra damage and shield per rank above 1
+    projectileSpeed: z.number().positive().optional(), // units per second
+    coneAngle: z.number().positive().max(360).optional(), // full opening angle in degrees
+    knockback: z.number().positive().optional(), // units survivors are pushed away
+    shieldAmount: z.number().int().positive().optional(),
+    shieldDurationMs: z.number().int().positive().optional(),
+    // Charged: the effect (and the aura cost) lands after standing still this long
+    castTimeMs: z.number().int().positive().optional(),
+    // Channeled: paid up front, then the effect repeats every channelTickMs for channelDurationMs
+    channelDurationMs: z.number().int().positive().optional(),
+    channelTickMs: z.number().int().positive().optional(),
+  })
+  .superRefine((ability, ctx) => {
+    const require = (field: keyof typeof ability) => {
+      if (ability[field] === undefined) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message: `${ability.kind} abilities need ${field}` });
+      }
+    };
+    if (ability.kind === "projectile") require("projectileSpeed");
+    if (ability.kind === "cone") require("coneAngle");
+    if (ability.kind === "shield") {
+      require("shieldAmount");
+      require("shieldDurationMs");
+    }
+    if (ability.channelDurationMs !== undefined || ability.channelTickMs !== undefined) {
+      require("channelDurationMs");
+      require("channelTickMs");
+      if (ability.castTimeMs !== undefined) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["castTimeMs"], message: "an ability can't be both charged and channeled" });
+      }
+      if (ability.kind === "shield") {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["channelDurationMs"], message: "shield abilities can't be channeled" });
+      }
+    }
+  });
+
+export const abilityListSchema = z.array(abilityDefinitionSchema).superRefine((abilities, ctx) => {
+  const seen = new Set<string>();
+  abilities.forEach((ability, index) => {
+    if (seen.has(ability.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, "id"], message: `Duplicate ability id "${ability.id}"` });
+    }
+    seen.add(ability.id);
+  });
+});
+
+// One entry of players.unlockedAbilities
+export const learnedAbilitySchema = z.object({
+  id: z.string(),
+  rank: z.number().int().min(1),
+});
+
+export type AbilityKind = z.infer<typeof abilityKindSchema>;
+export type AbilityUnlock = z.infer<typeof abilityUnlockSchema>;
+export type AbilityDefinition = z.infer<typeof abilityDefinitionSchema>;
+export type LearnedAbility = z.infer<typeof learnedAbilitySchema>;
+
+// How an ability looks to one player, from /api/abilities/progress
+export type AbilityState = "locked" | "unlockable" | "owned";
+
+export interface AbilityProgress {
+  id: string;
+  state: AbilityState;
+  rank: number; // 0 until learned
+  maxRank: number;
+  // Why a locked ability is locked, or how an unlockable one can be learned
+  requirement: string | null;
+  // Set when the next rank can be bought with the points on hand
+  canUpgrade: boolean;
+}
+
+export interface PlayerAbilityProgress {
+  abilityPoints: number;
+  abilities: AbilityProgress[];
+}
+
+// Sent as the `cooldowns` socket payload and by /api/combat/cooldowns/:playerId.
+// Times are server epoch ms; serverTime lets clients correct for clock drift.
+export interface CooldownSnapshot {
+  playerId: string;
+  cooldowns: Record<string, number>; // abilityId -> ready again at
+  serverTime: number;
+}
+
+// Broadcast as cast_started so everyone can draw the charge-up
+export interface CastStarted {
+  castId: string;
+  casterId: string;
+  abilityId: string;
+  abilityName: string;
+  kind: "cast" | "channel";
+  targetId: string | null;
+  startedAt: number; // server epoch ms
+  endsAt: number;
+}
+
+// Broadcast as cast_completed / cast_interrupted
+export interface CastEnded {
+  castId: string;
+  casterId: string;
+  abilityId: string;
+  outcome: "completed" | "interrupted";
+  // Why an interrupted cast stopped; "failed" means it couldn't resolve on completion
+  reason: "moved" | "damaged" | "stunned" | "left" | "failed" | null;
+  message: string;
+}
@@ -0,0 +1,19 @@
+import { z } from "zod";
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+// Trimmed the same way at registration and login, so "tamsin " is "tamsin" in both
+const usernameSchema = z.string({ required_error: "Username is required" }).trim().min(1, "Username is required");
+
+// All a new account gets to choose; stats start at the column defaults.
+// Strict, so stat fields in the request are rejected rather than ignored.
+export const registerPlayerSchema = z.object({
+  username: usernameSchema,
+  password: z.string().min(MIN_PASSWORD_LENGTH, `Password must be at least ${MIN_PASSWORD_LENGTH} characters`),
+  characterName: z.string().trim().min(1, "Character name is required"),
+}).strict();
+
+export const loginSchema = z.object({
+  username: usernameSchema,
+  password: z.string({ required_error: "Password is required" }).min(1, "Password is required"),
+});
@@ -0,0 +1,101 @@
+import type { CommunityResourceChange, LootItem } from "./schema";
+
+// Every player keeps a small community fed and supplied. Hunting, gathering
+// and crafting bring resources in, upkeep eats food, and hunting faster than
+// the land recovers wears sustainability down. Worn-down land spawns fewer
+// monsters and drops less.
+
+export const RESOURCE_SOURCES = [
+  "hunting",
+  "gathering",
+  "crafting",
+  "upkeep",
+  "recovery",
+  "contribution",
+  "reward",
+] as const;
+
+export type ResourceSource = typeof RESOURCE_SOURCES[number];
+
+export interface ResourceAmounts {
+  food: number;
+  materials: number;
+  sustainability: number;
+}
+
+// Gains are banked as they happen and settled together with upkeep on this
+// interval, while the player is in the world
+export const SETTLEMENT_INTERVAL_MS = 60000;
+
+// Food the community eats every settlement
+export const FOOD_UPKEEP = 5;
+
+// Kills per settlement the land can take; each one beyond costs sustainability
+export const SUSTAINABLE_HUNTS = 6;
+export const OVERHARVEST_PENALTY = 2;
+
+// Regained every settlement the land is left alone enough and nobody starves
+export const SUSTAINABILITY_RECOVERY = 1;
+
+// Lost every settlement the community can't pay its upkeep
+export const STARVATION_PENALTY = 3;
+
+export const MAX_SUSTAINABILITY = 100;
+
+// Below this, spawns and drop chances start to thin out
+export const HEALTHY_SUSTAINABILITY = 50;
+
+// Spawns and drop chances at 0 sustainability
+export const MIN_ABUNDANCE = 0.25;
+
+// Materials brought in by every finished craft, from offcuts and spares
+export const CRAFTING_YIELD = 2;
+
+// Change rows the resources panel shows
+export const RESOURCE_HISTORY_LIMIT = 20;
+
+// How much of the usual spawns and drop chances the land still gives
+export function abundanceFor(sustainability: number): number {
+  if (sustainability >= HEALTHY_SUSTAINABILITY) return 1;
+  const ratio = Math.max(0, sustainability) / HEALTHY_SUSTAINABILITY;
+  return MIN_ABUNDANCE + (1 - MIN_ABUNDANCE) * ratio;
+}
+
+// Meat and hide from a kill, more meat from tougher monsters
+export function huntingYieldFor(monsterLevel: number): Pick<ResourceAmounts, "food" | "materials"> {
+  return { food: 2 + Math.floor(monsterLevel / 20), materials: 1 };
+}
+
+// Picking up drops: a material for everything carried home
+export function gatheringYieldFor(quantity: number): Pick<ResourceAmounts, "food" | "materials"> {
+  return { food: 0, materials: quantity };
+}
+
+// What one of the item is worth when handed over: consumables feed the
+// community, materials build it. Equipment isn't accepted.
+export function contributionValueOf(item: Pick<LootItem, "type" | "value">): Pick<ResourceAmounts, "food" | "materials"> | undefined {
+  switch (item.type) {
+    case "consumable":
+      return { food: item.value, materials: 0 };
+    case "material":
+      return { food: 0, materials: item.value };
+    default:
+      return undefined;
+  }
+}
+
+// The /api/game/resources response
+export interface CommunityResourcesSnapshot extends ResourceAmounts {
+  // Multiplier on spawns and drop chances, from abundanceFor
+  abundance: number;
+  // Newest first
+  history: CommunityResourceChange[];
+}
+
+// The `community_resources` socket payload, sent after every change
+export interface CommunityResourcesUpdate extends ResourceAmounts {
+  playerId: string;
+  abundance: number;
+  // The rows just recorded, newest first
+  changes: CommunityResourceChange[];
+}
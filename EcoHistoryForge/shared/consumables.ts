@@ -0,0 +1,116 @@
+import { z } from "zod";
+import type { LootItem } from "./schema";
+import type { StatusEffectType } from "./statusEffects";
+
+// Consumables are lootItems rows with type "consumable"; their `effects` hold
+// { onUse: [...] }, applied in order when the item is used. Timed effects
+// become status effects, so the status effect tick runs and expires them.
+
+export const BUFF_STATS = ["damage", "speed"] as const;
+
+export type BuffStat = typeof BUFF_STATS[number];
+
+// The status effect each stat buff becomes
+export const BUFF_STATUS_EFFECTS: Record<BuffStat, StatusEffectType> = {
+  damage: "strength_up",
+  speed: "haste",
+};
+
+const durationMs = z.number().int().positive();
+
+export const consumableEffectSchema = z.discriminatedUnion("type", [
+  // Instant; scales with how many are used at once
+  z.object({
+    type: z.literal("restore"),
+    health: z.number().int().nonnegative().default(0),
+    aura: z.number().int().nonnegative().default(0),
+  }),
+  z.object({
+    type: z.literal("heal_over_time"),
+    healthPerSecond: z.number().int().positive(),
+    durationMs,
+  }),
+  // `amount` is a share of the stat, e.g. 0.2 = +20%
+  z.object({
+    type: z.literal("buff"),
+    stat: z.enum(BUFF_STATS),
+    amount: z.number().positive(),
+    durationMs,
+  }),
+  // Every running cooldown, or only the listed abilities'
+  z.object({
+    type: z.literal("reset_cooldowns"),
+    abilities: z.array(z.string().min(1)).optional(),
+  }),
+  // Removes every debuff
+  z.object({ type: z.literal("cleanse") }),
+  z.object({ type: z.literal("teleport_to_spawn") }),
+  // Extra experience from kills as a share, e.g. 0.5 = +50%
+  z.object({
+    type: z.literal("experience_boost"),
+    amount: z.number().positive(),
+    durationMs,
+  }),
+]);
+
+export type ConsumableEffect = z.infer<typeof consumableEffectSchema>;
+
+export const consumableEffectsSchema = z.object({
+  onUse: z.array(consumableEffectSchema).min(1),
+});
+
+// Items seeded before onUse existed just had { health, aura }
+const legacyRestoreSchema = z
+  .object({ health: z.number().int().nonnegative().optional(), aura: z.number().int().nonnegative().optional() })
+  .strict()
+  .refine(effects => effects.health !== undefined || effects.aura !== undefined);
+
+// What using the item does, or undefined if it can't be used
+export function consumableEffectsOf(item: Pick<LootItem, "type" | "effects">): ConsumableEffect[] | undefined {
+  if (item.type !== "consumable") return undefined;
+
+  const parsed = consumableEffectsSchema.safeParse(item.effects);
+  if (parsed.success) return parsed.data.onUse;
+
+  const legacy = legacyRestoreSchema.safeParse(item.effects);
+  if (legacy.success) {
+    return [{ type: "restore", health: legacy.data.health ?? 0, aura: legacy.data.aura ?? 0 }];
+  }
+  return undefined;
+}
+
+function seconds(ms: number): string {
+  return `${Math.round(ms / 1000)}s`;
+}
+
+function percent(share: number): string {
+  return `${Math.round(share * 100)}%`;
+}
+
+// "Restores 150 health", "+20% damage for 30s" and so on
+export function describeConsumableEffect(effect: ConsumableEffect): string {
+  switch (effect.type) {
+    case "restore": {
+      const parts = [effect.health && `${effect.health} health`, effect.aura && `${effect.aura} aura`].filter(Boolean);
+      return parts.length > 0 ? `Restores ${parts.join(" and ")}` : "Restores nothing";
+    }
+    case "heal_over_time":
+      return `Heals ${effect.healthPerSecond} health per second for ${seconds(effect.durationMs)}`;
+    case "buff":
+      return `+${percent(effect.amount)} ${effect.stat} for ${seconds(effect.durationMs)}`;
+    case "reset_cooldowns":
+      return effect.abilities ? `Resets the cooldown of ${effect.abilities.join(", ")}` : "Resets all ability cooldowns";
+    case "cleanse":
+      return "Removes all debuffs";
+    case "teleport_to_spawn":
+      return "Returns you to the nearest spawn point";
+    case "experience_boost":
+      return `+${percent(effect.amount)} experience for ${seconds(effect.durationMs)}`;
+  }
+}
+
+// The /api/inventory/use response
+export interface ItemUseResult {
+  message: string;
+  effects: ConsumableEffect[];
+}
@@ -0,0 +1,123 @@
+import { z } from "zod";
+import type { LootItem } from "./schema";
+import type { Point2D } from "./world";
+
+// Recipes live in shared/recipes.json. Inputs come out of the player's
+// inventory when a craft is queued; the output, a lootItems row by name,
+// arrives once the craft time has passed.
+
+export const CRAFTING_STATION_TYPES = ["campfire", "workbench"] as const;
+
+export type CraftingStationType = typeof CRAFTING_STATION_TYPES[number];
+
+export interface CraftingStation extends Point2D {
+  type: CraftingStationType;
+}
+
+// A campfire and a workbench beside every spawn point
+export const ZONE_CRAFTING_STATIONS: Record<string, CraftingStation[]> = {
+  selha_latna: [
+    { type: "campfire", x: 6, z: 0 },
+    { type: "workbench", x: -6, z: 0 },
+    { type: "campfire", x: 66, z: 60 },
+    { type: "workbench", x: -66, z: 60 },
+    { type: "campfire", x: 66, z: -60 },
+    { type: "workbench", x: -66, z: -60 },
+  ],
+};
+
+// How close a player must stand to use a station
+export const CRAFTING_STATION_RANGE = 8;
+
+// Crafts waiting or in progress, per player
+export const MAX_CRAFTING_QUEUE = 5;
+
+const ingredientSchema = z.object({
+  item: z.string().min(1),
+  quantity: z.number().int().positive().default(1),
+});
+
+export const recipeSchema = z.object({
+  id: z.string().regex(/^[a-z0-9_]+$/, "ids are lower_snake_case"),
+  inputs: z.array(ingredientSchema).min(1),
+  output: ingredientSchema,
+  craftTimeMs: z.number().int().positive(),
+  requiredLevel: z.number().int().min(1).max(100).default(1),
+  // Crafted anywhere when left out
+  station: z.enum(CRAFTING_STATION_TYPES).optional(),
+});
+
+export const recipeListSchema = z.array(recipeSchema).superRefine((recipes, ctx) => {
+  const seen = new Set<string>();
+  recipes.forEach((recipe, index) => {
+    if (seen.has(recipe.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, "id"], message: `Duplicate recipe id "${recipe.id}"` });
+    }
+    seen.add(recipe.id);
+  });
+});
+
+export type Recipe = z.infer<typeof recipeSchema>;
+
+export function nearestStation(zone: string, type: CraftingStationType, from: Point2D): { station: CraftingStation; distance: number } | undefined {
+  let nearest: { station: CraftingStation; distance: number } | undefined;
+  for (const station of ZONE_CRAFTING_STATIONS[zone] ?? []) {
+    if (station.type !== type) continue;
+    const distance = Math.hypot(station.x - from.x, station.z - from.z);
+    if (!nearest || distance < nearest.distance) {
+      nearest = { station, distance };
+    }
+  }
+  return nearest;
+}
+
+export function isNearStation(zone: string, type: CraftingStationType, from: Point2D): boolean {
+  const nearest = nearestStation(zone, type, from);
+  return nearest !== undefined && nearest.distance <= CRAFTING_STATION_RANGE;
+}
+
+// One queued craft, saved in gameState.craftingQueue. Crafts run one after
+// another, so each starts when the one before it is ready.
+export interface CraftingJob {
+  id: string;
+  recipeId: string;
+  itemName: string;
+  quantity: number;
+  startedAt: number; // server epoch ms
+  readyAt: number;
+}
+
+export interface RecipeIngredient {
+  item: Pick<LootItem, "id" | "name" | "icon" | "rarity">;
+  quantity: number;
+}
+
+// A recipe with its items looked up, as the crafting panel shows it
+export interface RecipeView {
+  id: string;
+  inputs: RecipeIngredient[];
+  output: RecipeIngredient;
+  craftTimeMs: number;
+  requiredLevel: number;
+  station: CraftingStationType | null;
+}
+
+// The /api/craft response; queue changes follow as `crafting_queue` socket events
+export interface CraftingSnapshot {
+  recipes: RecipeView[];
+  queue: CraftingJob[];
+}
+
+export interface CraftingQueueUpdate {
+  playerId: string;
+  queue: CraftingJob[];
+}
+
+// The `craft_completed` socket payload
+export interface CraftCompleted {
+  playerId: string;
+  itemName: string;
+  quantity: number;
+  // False when the bags were full and it was dropped at the player's feet
+  inInventory: boolean;
+}
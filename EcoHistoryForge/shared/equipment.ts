@@ -0,0 +1,46 @@
+import { z } from "zod";
+import type { LootItem } from "./schema";
+
+// Gear is any lootItems row with type "equipment"; its `effects` say which
+// slot it goes in and what it adds. Equipped item ids are kept in
+// gameState.equipment as { [slot]: itemId }.
+
+export const EQUIPMENT_SLOTS = ["weapon", "armor", "accessory"] as const;
+
+export type EquipmentSlot = typeof EQUIPMENT_SLOTS[number];
+
+export const equipmentEffectsSchema = z.object({
+  slot: z.enum(EQUIPMENT_SLOTS),
+  // Extra ability damage as a share of the base, e.g. 0.1 = +10%
+  damage: z.number().nonnegative().default(0),
+  maxHealth: z.number().int().nonnegative().default(0),
+  maxAura: z.number().int().nonnegative().default(0),
+});
+
+export type EquipmentEffects = z.infer<typeof equipmentEffectsSchema>;
+
+// Everything worn, added together
+export interface EquipmentStats {
+  damage: number;
+  maxHealth: number;
+  maxAura: number;
+}
+
+export const NO_EQUIPMENT_STATS: EquipmentStats = { damage: 0, maxHealth: 0, maxAura: 0 };
+
+export function equipmentStatsFor(gear: EquipmentEffects[]): EquipmentStats {
+  return gear.reduce(
+    (total, effects) => ({
+      damage: total.damage + effects.damage,
+      maxHealth: total.maxHealth + effects.maxHealth,
+      maxAura: total.maxAura + effects.maxAura,
+    }),
+    { ...NO_EQUIPMENT_STATS },
+  );
+}
+
+// The /api/equipment response
+export interface EquipmentSnapshot {
+  slots: Record<EquipmentSlot, LootItem | null>;
+  stats: EquipmentStats;
+}
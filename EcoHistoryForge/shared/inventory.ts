@@ -0,0 +1,5 @@
+// Inventories are a fixed number of slots, numbered from 0. Each
+// playerInventory row sits in one slot and holds up to its item's maxStack;
+// items that aren't stackable take a slot each.
+
+export const INVENTORY_SLOTS = 24;
@@ -0,0 +1,115 @@
+import { z } from "zod";
+import { consumableEffectsSchema } from "./consumables";
+import { equipmentEffectsSchema } from "./equipment";
+
+// Loot data lives in shared/loot.json: the item catalog the server seeds into
+// lootItems at startup, and the tables that decide what monsters drop.
+
+export const LOOT_RARITIES = ["common", "uncommon", "rare", "epic", "legendary"] as const;
+
+export type LootRarity = typeof LOOT_RARITIES[number];
+
+// How often each tier comes up per roll unless a table says otherwise.
+// Tiers a table has no entries for are skipped, so the rest share their odds.
+export const DEFAULT_RARITY_WEIGHTS: Record<LootRarity, number> = {
+  common: 60,
+  uncommon: 25,
+  rare: 10,
+  epic: 4,
+  legendary: 1,
+};
+
+// One lootItems row; names are how tables, skill books and codes refer to items
+export const lootItemDefinitionSchema = z
+  .object({
+    name: z.string().min(1),
+    type: z.enum(["consumable", "equipment", "material"]),
+    rarity: z.enum(LOOT_RARITIES),
+    description: z.string(),
+    effects: z.record(z.unknown()).default({}),
+    value: z.number().int().nonnegative().default(1),
+    stackable: z.boolean().default(true),
+    maxStack: z.number().int().positive().default(99),
+    icon: z.string().default("fas fa-cube"), // Font Awesome classes
+  })
+  .superRefine((item, ctx) => {
+    if (item.type === "equipment" && !equipmentEffectsSchema.safeParse(item.effects).success) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["effects"], message: "equipment needs a slot and stat effects" });
+    }
+    if (item.type === "consumable" && !consumableEffectsSchema.safeParse(item.effects).success) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["effects"], message: "consumables need an onUse list of effects" });
+    }
+  });
+
+// Quantities are picked uniformly between min and max, inclusive
+const quantityRangeSchema = z.object({
+  item: z.string().min(1),
+  min: z.number().int().positive().default(1),
+  max: z.number().int().positive().default(1),
+});
+
+export const guaranteedDropSchema = quantityRangeSchema;
+
+export const lootEntrySchema = quantityRangeSchema.extend({
+  // Relative to the other entries of the same rarity in this table
+  weight: z.number().positive(),
+});
+
+export const lootTableSchema = z.object({
+  id: z.string().regex(/^[a-z0-9_]+$/, "ids are lower_snake_case"),
+  // Monster type names; empty means every monster
+  monsters: z.array(z.string()).default([]),
+  // The level band this table applies to, inclusive
+  minLevel: z.number().int().min(1).default(1),
+  maxLevel: z.number().int().min(1).default(100),
+  guaranteed: z.array(guaranteedDropSchema).default([]),
+  // Each roll drops one weighted entry with this chance
+  rolls: z.number().int().nonnegative().default(1),
+  dropChance: z.number().min(0).max(1).default(1),
+  rarityWeights: z.record(z.enum(LOOT_RARITIES), z.number().nonnegative()).default(DEFAULT_RARITY_WEIGHTS),
+  entries: z.array(lootEntrySchema).default([]),
+});
+
+export const lootDataSchema = z
+  .object({
+    items: z.array(lootItemDefinitionSchema),
+    tables: z.array(lootTableSchema),
+  })
+  .superRefine((data, ctx) => {
+    const names = new Set<string>();
+    data.items.forEach((item, index) => {
+      if (names.has(item.name)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["items", index, "name"], message: `Duplicate item "${item.name}"` });
+      }
+      names.add(item.name);
+    });
+
+    const tableIds = new Set<string>();
+    data.tables.forEach((table, index) => {
+      if (tableIds.has(table.id)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["tables", index, "id"], message: `Duplicate table id "${table.id}"` });
+      }
+      tableIds.add(table.id);
+      if (table.maxLevel < table.minLevel) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["tables", index, "maxLevel"], message: "maxLevel is below minLevel" });
+      }
+
+      const drops = [
+        ...table.guaranteed.map((drop, dropIndex) => ({ drop, path: ["tables", index, "guaranteed", dropIndex] })),
+        ...table.entries.map((drop, dropIndex) => ({ drop, path: ["tables", index, "entries", dropIndex] })),
+      ];
+      for (const { drop, path } of drops) {
+        if (!names.has(drop.item)) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: [...path, "item"], message: `Unknown item "${drop.item}"` });
+        }
+        if (drop.max < drop.min) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: [...path, "max"], message: "max is below min" });
+        }
+      }
+    });
+  });
+
+export type LootItemDefinition = z.infer<typeof lootItemDefinitionSchema>;
+export type LootEntry = z.infer<typeof lootEntrySchema>;
+export type LootTable = z.infer<typeof lootTableSchema>;
+export type LootData = z.infer<typeof lootDataSchema>;
@@ -0,0 +1,56 @@
+// Parties are small groups that share loot. They live in server memory only,
+// so they break up when the server restarts.
+
+export const MAX_PARTY_SIZE = 5;
+
+// shared: anyone in the killer's party can pick up the drop while it's reserved
+// round_robin: each drop is reserved for the next member in turn
+// need_greed: members roll for each uncommon or better drop; need beats greed,
+// then the highest roll. Common drops are shared.
+export type PartyLootMode = "shared" | "round_robin" | "need_greed";
+
+export const PARTY_LOOT_MODES: PartyLootMode[] = ["shared", "round_robin", "need_greed"];
+
+export interface PartyMember {
+  id: string;
+  characterName: string;
+}
+
+export interface PartySnapshot {
+  id: string;
+  leaderId: string;
+  members: PartyMember[];
+  lootMode: PartyLootMode;
+}
+
+export interface PartyInvite {
+  fromId: string;
+  fromName: string;
+  expiresAt: number; // server epoch ms
+}
+
+// The /api/party response
+export interface PartyState {
+  party: PartySnapshot | null;
+  invites: PartyInvite[];
+}
+
+export type LootRollChoice = "need" | "greed" | "pass";
+
+// Sent as loot_roll_started to every member who can roll
+export interface LootRollStarted {
+  lootId: string;
+  itemName: string;
+  rarity: string;
+  endsAt: number; // server epoch ms
+}
+
+// Sent as loot_roll_ended; winnerId is null when everyone passed
+export interface LootRollEnded {
+  lootId: string;
+  itemName: string;
+  winnerId: string | null;
+  winnerName: string | null;
+  choice: LootRollChoice | null;
+  roll: number | null;
+}
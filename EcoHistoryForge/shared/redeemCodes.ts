@@ -0,0 +1,58 @@
+import { z } from "zod";
+import { STATUS_EFFECTS, type StatusEffectType } from "./statusEffects";
+
+// Redeem codes are created by admins (POST /api/admin/codes) and stored in the
+// redeem_codes table; players redeem them with POST /api/codes/redeem. Each
+// player can redeem a code once.
+
+const statusEffectTypes = Object.keys(STATUS_EFFECTS) as [StatusEffectType, ...StatusEffectType[]];
+
+// item: puts `quantity` of the named lootItems row in the inventory
+// status_effect: applies a buff, e.g. strength_up; a null duration lasts until removed
+// resources: adds to the player's community food and materials, the game's currency
+export const redeemRewardSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("item"),
+    item: z.string().min(1),
+    quantity: z.number().int().positive().default(1),
+  }),
+  z.object({
+    type: z.literal("status_effect"),
+    effect: z.enum(statusEffectTypes),
+    magnitude: z.number().positive(),
+    durationMs: z.number().int().positive().nullable(),
+  }),
+  z.object({
+    type: z.literal("resources"),
+    food: z.number().int().nonnegative().default(0),
+    materials: z.number().int().nonnegative().default(0),
+  }),
+]);
+
+export type RedeemReward = z.infer<typeof redeemRewardSchema>;
+
+// Codes are matched case-insensitively and stored lowercase
+export function normalizeRedeemCode(code: string): string {
+  return code.trim().toLowerCase();
+}
+
+export const createRedeemCodeSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .regex(/^[a-zA-Z0-9_-]{3,32}$/, "codes are 3-32 letters, digits, dashes or underscores")
+    .transform(normalizeRedeemCode),
+  rewards: z.array(redeemRewardSchema).min(1),
+  // null: any number of players
+  maxUses: z.number().int().positive().nullable().default(null),
+  expiresAt: z.coerce.date().nullable().default(null),
+});
+
+export type CreateRedeemCode = z.infer<typeof createRedeemCodeSchema>;
+
+// The /api/codes/redeem response
+export interface RedeemResult {
+  success: boolean;
+  message: string;
+  rewards: RedeemReward[];
+}
@@ -1,5 +1,5 @@
 import { sql, relations } from "drizzle-orm";
-import { pgTable, text, varchar, integer, boolean, timestamp, jsonb, real } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, boolean, timestamp, jsonb, real, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -34,8 +34,14 @@ export const players = pgTable("players", {
   isInTutorialZone: boolean("is_in_tutorial_zone").notNull().default(true),
   tutorialProgress: integer("tutorial_progress").notNull().default(0),
   
-  // Abilities
+  // Abilities: [{ id, rank }] plus unspent points for buying ranks
   unlockedAbilities: jsonb("unlocked_abilities").notNull().default([]),
+  abilityPoints: integer("ability_points").notNull().default(0),
+  // { [abilityId]: epoch ms when it's ready again }, so cooldowns survive restarts
+  abilityCooldowns: jsonb("ability_cooldowns").notNull().default({}),
+  
+  // Can create and revoke redeem codes; granted via ADMIN_USERNAMES or directly in the database
+  isAdmin: boolean("is_admin").notNull().default(false),
   
   isOnline: boolean("is_online").notNull().default(false),
   lastSeen: timestamp("last_seen").default(sql`now()`),
@@ -59,6 +65,18 @@ export const communityResources = pgTable("community_resources", {
   lastUpdated: timestamp("last_updated").default(sql`now()`),
 });
 
+// Every change to a player's community resources, as signed amounts
+export const communityResourceHistory = pgTable("community_resource_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  playerId: varchar("player_id").notNull().references(() => players.id),
+  source: text("source").notNull(), // hunting, gathering, crafting, upkeep, recovery, contribution, reward
+  food: integer("food").notNull().default(0),
+  materials: integer("materials").notNull().default(0),
+  sustainability: integer("sustainability").notNull().default(0),
+  detail: text("detail"),
+  createdAt: timestamp("created_at").default(sql`now()`),
+});
+
 export const gameState = pgTable("game_state", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   playerId: varchar("player_id").notNull().references(() => players.id),
@@ -67,6 +85,7 @@ export const gameState = pgTable("game_state", {
   inventory: jsonb("inventory").notNull().default([]),
   equipment: jsonb("equipment").notNull().default({}),
   combatState: jsonb("combat_state").notNull().default({}),
+  craftingQueue: jsonb("crafting_queue").notNull().default([]),
   lastSaved: timestamp("last_saved").default(sql`now()`),
 });
 
@@ -89,6 +108,7 @@ export const playerInventory = pgTable("player_inventory", {
   playerId: varchar("player_id").notNull().references(() => players.id),
   itemId: varchar("item_id").notNull().references(() => lootItems.id),
   quantity: integer("quantity").notNull().default(1),
+  slot: integer("slot").notNull().default(0), // see shared/inventory.ts
   acquiredAt: timestamp("acquired_at").default(sql`now()`),
 });
 
@@ -101,6 +121,10 @@ export const worldLoot = pgTable("world_loot", {
   positionZ: real("position_z").notNull(),
   zone: text("zone").notNull().default("selha_latna"),
   droppedBy: varchar("dropped_by"), // playerId who killed the monster
+  // Until ownedUntil only the owner (or, with partyId, their party) may collect it
+  ownerId: varchar("owner_id"),
+  partyId: varchar("party_id"),
+  ownedUntil: timestamp("owned_until"),
   spawnedAt: timestamp("spawned_at").default(sql`now()`),
   expiresAt: timestamp("expires_at").default(sql`now() + interval '5 minutes'`),
 });
@@ -120,11 +144,32 @@ export const monsters = pgTable("monsters", {
   spawnedAt: timestamp("spawned_at").default(sql`now()`),
 });
 
+export const redeemCodes = pgTable("redeem_codes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  code: text("code").notNull().unique(), // lowercase
+  rewards: jsonb("rewards").notNull().default([]), // RedeemReward[] from shared/redeemCodes.ts
+  maxUses: integer("max_uses"), // null = unlimited
+  uses: integer("uses").notNull().default(0),
+  expiresAt: timestamp("expires_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdBy: varchar("created_by").references(() => players.id),
+  createdAt: timestamp("created_at").default(sql`now()`),
+});
+
+// One row per player per code, so nobody redeems the same code twice
+export const codeRedemptions = pgTable("code_redemptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  codeId: varchar("code_id").notNull().references(() => redeemCodes.id),
+  playerId: varchar("player_id").notNull().references(() => players.id),
+  redeemedAt: timestamp("redeemed_at").default(sql`now()`),
+}, (table) => [unique().on(table.codeId, table.playerId)]);
+
 // Relations
 export const playersRelations = relations(players, ({ many, one }) => ({
   chatMessages: many(chatMessages),
   gameState: one(gameState),
   communityResources: one(communityResources),
+  communityResourceHistory: many(communityResourceHistory),
   inventory: many(playerInventory),
 }));
 
@@ -151,6 +196,21 @@ export const worldLootRelations = relations(worldLoot, ({ one }) => ({
   }),
 }));
 
+export const redeemCodesRelations = relations(redeemCodes, ({ many }) => ({
+  redemptions: many(codeRedemptions),
+}));
+
+export const codeRedemptionsRelations = relations(codeRedemptions, ({ one }) => ({
+  code: one(redeemCodes, {
+    fields: [codeRedemptions.codeId],
+    references: [redeemCodes.id],
+  }),
+  player: one(players, {
+    fields: [codeRedemptions.playerId],
+    references: [players.id],
+  }),
+}));
+
 export const chatMessagesRelations = relations(chatMessages, ({ one }) => ({
   player: one(players, {
     fields: [chatMessages.playerId],
@@ -165,6 +225,13 @@ export const communityResourcesRelations = relations(communityResources, ({ one
   }),
 }));
 
+export const communityResourceHistoryRelations = relations(communityResourceHistory, ({ one }) => ({
+  player: one(players, {
+    fields: [communityResourceHistory.playerId],
+    references: [players.id],
+  }),
+}));
+
 export const gameStateRelations = relations(gameState, ({ one }) => ({
   player: one(players, {
     fields: [gameState.playerId],
@@ -177,6 +244,7 @@ export const insertPlayerSchema = createInsertSchema(players).omit({
   id: true,
   createdAt: true,
   lastSeen: true,
+  isAdmin: true,
 });
 
 export const insertChatMessageSchema = createInsertSchema(chatMessages).omit({
@@ -189,6 +257,11 @@ export const insertCommunityResourcesSchema = createInsertSchema(communityResour
   lastUpdated: true,
 });
 
+export const insertCommunityResourceChangeSchema = createInsertSchema(communityResourceHistory).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertGameStateSchema = createInsertSchema(gameState).omit({
   id: true,
   lastSaved: true,
@@ -215,6 +288,13 @@ export const insertWorldLootSchema = createInsertSchema(worldLoot).omit({
   expiresAt: true,
 });
 
+export const insertRedeemCodeSchema = createInsertSchema(redeemCodes).omit({
+  id: true,
+  uses: true,
+  revokedAt: true,
+  createdAt: true,
+});
+
 // Types
 export type Player = typeof players.$inferSelect;
 export type InsertPlayer = z.infer<typeof insertPlayerSchema>;
@@ -222,6 +302,8 @@ export type ChatMessage = typeof chatMessages.$inferSelect;
 export type InsertChatMessage = z.infer<typeof insertChatMessageSchema>;
 export type CommunityResources = typeof communityResources.$inferSelect;
 export type InsertCommunityResources = z.infer<typeof insertCommunityResourcesSchema>;
+export type CommunityResourceChange = typeof communityResourceHistory.$inferSelect;
+export type InsertCommunityResourceChange = z.infer<typeof insertCommunityResourceChangeSchema>;
 export type GameState = typeof gameState.$inferSelect;
 export type InsertGameState = z.infer<typeof insertGameStateSchema>;
 export type Monster = typeof monsters.$inferSelect;
@@ -232,3 +314,6 @@ export type PlayerInventory = typeof playerInventory.$inferSelect;
 export type InsertPlayerInventory = z.infer<typeof insertPlayerInventorySchema>;
 export type WorldLoot = typeof worldLoot.$inferSelect;
 export type InsertWorldLoot = z.infer<typeof insertWorldLootSchema>;
+export type RedeemCode = typeof redeemCodes.$inferSelect;
+export type InsertRedeemCode = z.infer<typeof insertRedeemCodeSchema>;
+export type CodeRedemption = typeof codeRedemptions.$inferSelect;
\ No newline at end of file
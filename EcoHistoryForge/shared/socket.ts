@@ -0,0 +1,18 @@
+// Error codes the /ws server sends in `{ type: 'error', data: { code, message } }`
+export type SocketErrorCode =
+  | "UNAUTHENTICATED" // message needs a logged-in session
+  | "INVALID_MESSAGE" // malformed JSON or payload
+  | "SESSION_REPLACED"; // the same player connected from somewhere else
+
+export interface SocketErrorPayload {
+  code: SocketErrorCode;
+  message: string;
+}
+
+// Close code for a socket evicted by a newer connection of the same player.
+// Clients must not auto-reconnect on it, or two tabs would evict each other forever.
+export const SESSION_REPLACED_CLOSE_CODE = 4001;
+
+// Close code for a socket whose player logged out over HTTP. The session is
+// gone, so reconnecting would only get an unauthenticated socket.
+export const LOGGED_OUT_CLOSE_CODE = 4002;
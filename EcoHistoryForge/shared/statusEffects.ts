@@ -0,0 +1,165 @@
+// Timed buffs and debuffs. The server owns them (stored in
+// gameState.combatState.statusEffects); clients get `status_effects` updates
+// and use these definitions for icons and tooltips.
+
+export type StatusEffectType = "strength_up" | "haste" | "slow" | "stun" | "burn" | "regen" | "shield" | "experience_boost";
+
+// replace: the newest application wins outright
+// refresh: one instance; re-applying restarts the timer and keeps the stronger magnitude
+// stack: each application adds a stack (up to maxStacks) and restarts the timer
+export type StatusEffectStacking = "replace" | "refresh" | "stack";
+
+export interface StatusEffectDefinition {
+  type: StatusEffectType;
+  name: string;
+  icon: string; // Font Awesome classes
+  category: "buff" | "debuff";
+  stacking: StatusEffectStacking;
+  maxStacks: number;
+  // What `magnitude` means for this effect
+  magnitudeLabel: string;
+  // Effects that act on a timer (damage or healing over time) do so this often
+  tickMs?: number;
+}
+
+export const STATUS_EFFECTS: Record<StatusEffectType, StatusEffectDefinition> = {
+  strength_up: {
+    type: "strength_up",
+    name: "Strength",
+    icon: "fas fa-fist-raised",
+    category: "buff",
+    stacking: "refresh",
+    maxStacks: 1,
+    magnitudeLabel: "extra damage (1 = double)",
+  },
+  haste: {
+    type: "haste",
+    name: "Haste",
+    icon: "fas fa-running",
+    category: "buff",
+    stacking: "refresh",
+    maxStacks: 1,
+    magnitudeLabel: "share of movement speed gained",
+  },
+  slow: {
+    type: "slow",
+    name: "Slowed",
+    icon: "fas fa-snowflake",
+    category: "debuff",
+    stacking: "refresh",
+    maxStacks: 1,
+    magnitudeLabel: "share of movement speed lost",
+  },
+  stun: {
+    type: "stun",
+    name: "Stunned",
+    icon: "fas fa-dizzy",
+    category: "debuff",
+    stacking: "refresh",
+    maxStacks: 1,
+    magnitudeLabel: "unused",
+  },
+  burn: {
+    type: "burn",
+    name: "Burning",
+    icon: "fas fa-fire",
+    category: "debuff",
+    stacking: "stack",
+    maxStacks: 5,
+    magnitudeLabel: "damage per tick per stack",
+    tickMs: 1000,
+  },
+  regen: {
+    type: "regen",
+    name: "Regeneration",
+    icon: "fas fa-heart",
+    category: "buff",
+    stacking: "refresh",
+    maxStacks: 1,
+    magnitudeLabel: "health per tick",
+    tickMs: 1000,
+  },
+  shield: {
+    type: "shield",
+    name: "Shielded",
+    icon: "fas fa-shield-alt",
+    category: "buff",
+    stacking: "replace",
+    maxStacks: 1,
+    magnitudeLabel: "damage left to absorb",
+  },
+  experience_boost: {
+    type: "experience_boost",
+    name: "Insight",
+    icon: "fas fa-book-open",
+    category: "buff",
+    stacking: "refresh",
+    maxStacks: 1,
+    magnitudeLabel: "extra experience (1 = double)",
+  },
+};
+
+export interface ActiveStatusEffect {
+  type: StatusEffectType;
+  magnitude: number;
+  stacks: number;
+  appliedAt: number; // server epoch ms
+  expiresAt: number | null; // null lasts until removed
+  // Who applied it: a monster, a player, or null for the world itself
+  sourceId: string | null;
+  // Ticking effects only
+  nextTickAt: number | null;
+}
+
+export interface StatusEffectApplication {
+  type: StatusEffectType;
+  magnitude: number;
+  durationMs: number | null;
+  sourceId?: string;
+}
+
+// The `status_effects` socket payload and the /api/combat/status-effects response
+export interface StatusEffectsUpdate {
+  playerId: string;
+  effects: ActiveStatusEffect[];
+}
+
+// How a player's active effects change what they can do. The server enforces
+// these; the client uses them so its own movement matches.
+export interface StatusModifiers {
+  damageMultiplier: number;
+  speedMultiplier: number;
+  stunned: boolean;
+  experienceMultiplier: number;
+}
+
+// A slow never takes more than this share of movement speed
+const MAX_SLOW = 0.9;
+// Nor does haste ever add more than this
+const MAX_HASTE = 1;
+
+export const NO_MODIFIERS: StatusModifiers = { damageMultiplier: 1, speedMultiplier: 1, stunned: false, experienceMultiplier: 1 };
+
+export function modifiersFor(effects: ActiveStatusEffect[]): StatusModifiers {
+  const modifiers = { ...NO_MODIFIERS };
+  for (const effect of effects) {
+    switch (effect.type) {
+      case "strength_up":
+        modifiers.damageMultiplier *= 1 + effect.magnitude * effect.stacks;
+        break;
+      case "haste":
+        modifiers.speedMultiplier *= 1 + Math.min(MAX_HASTE, effect.magnitude);
+        break;
+      case "slow":
+        modifiers.speedMultiplier *= 1 - Math.min(MAX_SLOW, effect.magnitude);
+        break;
+      case "stun":
+        modifiers.stunned = true;
+        break;
+      case "experience_boost":
+        modifiers.experienceMultiplier *= 1 + effect.magnitude;
+        break;
+    }
+  }
+  return modifiers;
+}
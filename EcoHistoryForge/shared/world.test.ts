@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { ZONE_OBSTACLES, hasLineOfSight } from "./world";
+
+describe("hasLineOfSight", () => {
+  const pillar = ZONE_OBSTACLES.selha_latna[0];
+
+  it("is blocked by a pillar between the two points", () => {
+    expect(hasLineOfSight("selha_latna", { x: pillar.x - 5, z: pillar.z }, { x: pillar.x + 5, z: pillar.z })).toBe(false);
+  });
+
+  it("sees past a pillar the segment doesn't touch", () => {
+    expect(hasLineOfSight("selha_latna", { x: pillar.x - 5, z: pillar.z + 2 }, { x: pillar.x + 5, z: pillar.z + 2 })).toBe(true);
+  });
+
+  it("doesn't count a pillar beyond the end of the segment", () => {
+    expect(hasLineOfSight("selha_latna", { x: 0, z: 0 }, { x: pillar.x - 2, z: pillar.z })).toBe(true);
+  });
+
+  it("always sees in zones without obstacles", () => {
+    expect(hasLineOfSight("nowhere", { x: -100, z: 0 }, { x: 100, z: 0 })).toBe(true);
+  });
+});
@@ -0,0 +1,48 @@
+// Static world geometry both sides must agree on: the client renders it and
+// the server uses it for line-of-sight checks.
+
+export interface Obstacle {
+  x: number;
+  z: number;
+  radius: number; // collision radius at the base
+  height: number;
+}
+
+export interface Point2D {
+  x: number;
+  z: number;
+}
+
+const PILLAR_RADIUS = 1.5;
+const PILLAR_HEIGHT = 8;
+// Distance from the zone centre of each ancient pillar, going round the circle
+const SELHA_LATNA_PILLAR_DISTANCES = [52, 64, 45, 58, 69, 41, 55, 67, 48, 61];
+
+export const ZONE_OBSTACLES: Record<string, Obstacle[]> = {
+  selha_latna: SELHA_LATNA_PILLAR_DISTANCES.map((distance, i) => {
+    const angle = (i / SELHA_LATNA_PILLAR_DISTANCES.length) * Math.PI * 2;
+    return {
+      x: Math.cos(angle) * distance,
+      z: Math.sin(angle) * distance,
+      radius: PILLAR_RADIUS,
+      height: PILLAR_HEIGHT,
+    };
+  }),
+};
+
+// True when the segment from `a` to `b` passes through the obstacle's footprint
+function segmentHitsObstacle(a: Point2D, b: Point2D, obstacle: Obstacle): boolean {
+  const dx = b.x - a.x;
+  const dz = b.z - a.z;
+  const lengthSq = dx * dx + dz * dz;
+  // Closest point on the segment to the obstacle centre
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((obstacle.x - a.x) * dx + (obstacle.z - a.z) * dz) / lengthSq));
+  const closestX = a.x + dx * t;
+  const closestZ = a.z + dz * t;
+  return Math.hypot(obstacle.x - closestX, obstacle.z - closestZ) < obstacle.radius;
+}
+
+export function hasLineOfSight(zone: string, from: Point2D, to: Point2D): boolean {
+  const obstacles = ZONE_OBSTACLES[zone] ?? [];
+  return !obstacles.some(obstacle => segmentHitsObstacle(from, to, obstacle));
+}